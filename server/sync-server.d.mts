@@ -0,0 +1,24 @@
+import type { SyncChange } from '../src/services/sync';
+
+export type SyncStore = {
+  logs: Record<string, Array<{ seq: number; change: SyncChange }>>;
+};
+
+export type SyncRequest = {
+  method?: string;
+  url?: string;
+  authorization?: string;
+  body?: string;
+};
+
+export type SyncResponse = {
+  status: number;
+  body?: unknown;
+  changed?: boolean;
+};
+
+export function handleSyncRequest(
+  store: SyncStore,
+  request: SyncRequest,
+  token?: string
+): SyncResponse;
@@ -0,0 +1,158 @@
+// Reference server for the tracker's sync protocol (see server/README.md).
+// It keeps an append-only change log per path in a JSON file and has no
+// dependencies beyond Node itself:
+//
+//   SYNC_TOKEN=secret node server/sync-server.mjs
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+function isChange(value) {
+  return (
+    value &&
+    typeof value.id === 'string' &&
+    typeof value.clientId === 'string' &&
+    (value.entity === 'job' || value.entity === 'schema') &&
+    typeof value.entityId === 'string' &&
+    typeof value.updatedAt === 'string' &&
+    value.fields &&
+    typeof value.fields === 'object'
+  );
+}
+
+function cursorOf(log) {
+  return log.length > 0 ? log[log.length - 1].seq : 0;
+}
+
+// Answers one request against `store` ({ logs: { [path]: entries } }),
+// without any I/O. `changed` tells the caller the log grew and should be
+// saved.
+export function handleSyncRequest(store, request, token = '') {
+  const { method, url: rawUrl, authorization, body } = request;
+  if (method === 'OPTIONS') return { status: 204 };
+  if (token && authorization !== `Bearer ${token}`) {
+    return { status: 401, body: { error: 'Unauthorized' } };
+  }
+  const url = new URL(rawUrl ?? '/', 'http://localhost');
+  const match = url.pathname.match(/^(.*)\/changes\/?$/);
+  if (!match) return { status: 404, body: { error: 'Not found' } };
+  const key = match[1] || '/';
+  const log = (store.logs[key] ??= []);
+
+  if (method === 'GET') {
+    const since = Number(url.searchParams.get('since') ?? 0) || 0;
+    return {
+      status: 200,
+      body: {
+        changes: log.filter((entry) => entry.seq > since).map((e) => e.change),
+        cursor: cursorOf(log)
+      }
+    };
+  }
+
+  if (method === 'POST') {
+    let payload;
+    try {
+      payload = JSON.parse(body ?? '');
+    } catch (error) {
+      return { status: 400, body: { error: error.message } };
+    }
+    if (!Array.isArray(payload?.changes) || !payload.changes.every(isChange)) {
+      return {
+        status: 400,
+        body: { error: 'Body must be { changes: SyncChange[] }' }
+      };
+    }
+    // Change ids make retries safe: a batch re-sent after a dropped response
+    // is not appended twice.
+    const known = new Set(log.map((entry) => entry.change.id));
+    let accepted = 0;
+    payload.changes.forEach((change) => {
+      if (known.has(change.id)) return;
+      known.add(change.id);
+      log.push({ seq: cursorOf(log) + 1, change });
+      accepted += 1;
+    });
+    return {
+      status: 200,
+      body: { accepted, cursor: cursorOf(log) },
+      changed: accepted > 0
+    };
+  }
+
+  return { status: 405, body: { error: 'Method not allowed' } };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Payload too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function serve() {
+  const port = Number(process.env.PORT ?? 8787);
+  const dataFile = process.env.SYNC_DATA_FILE ?? 'sync-data.json';
+  const token = process.env.SYNC_TOKEN ?? '';
+  const store = existsSync(dataFile)
+    ? JSON.parse(readFileSync(dataFile, 'utf8'))
+    : { logs: {} };
+
+  const save = () => {
+    const temp = `${dataFile}.tmp`;
+    writeFileSync(temp, JSON.stringify(store));
+    renameSync(temp, dataFile);
+  };
+
+  createServer(async (req, res) => {
+    let body;
+    if (req.method === 'POST') {
+      try {
+        body = await readBody(req);
+      } catch (error) {
+        return send(res, 400, { error: error.message });
+      }
+    }
+    const result = handleSyncRequest(
+      store,
+      {
+        method: req.method,
+        url: req.url,
+        authorization: req.headers.authorization,
+        body
+      },
+      token
+    );
+    if (result.changed) save();
+    return send(res, result.status, result.body);
+  }).listen(port, () => {
+    console.log(`Sync server listening on http://localhost:${port}`);
+  });
+}
+
+// Only listens when run directly, so tests can import the handler.
+const entry = process.argv[1];
+if (entry && import.meta.url === pathToFileURL(entry).href) serve();
@@ -1,15 +1,112 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
-import type { CustomField, CustomFieldType, Job, JobStatus } from './types';
 import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type CSSProperties,
+  type FormEvent,
+  type ReactNode
+} from 'react';
+import type {
+  Contact,
+  ContactRole,
+  CustomField,
+  CustomFieldType,
+  CustomValue,
+  DocumentKind,
+  InterviewOutcome,
+  InterviewType,
+  Job,
+  JobStatus,
+  PipelineStage,
+  StoredDocument
+} from './types';
+import {
+  addContact,
+  addDocument,
+  addInterview,
   addJob,
+  addNote,
+  addTag,
+  addTask,
+  addTimelineEvent,
+  bulkAddTag,
+  bulkArchive,
+  bulkDelete,
+  bulkRemoveTag,
+  bulkSetCustomFieldValue,
+  bulkSetStatus,
+  changePassphrase,
+  completeTask,
+  deleteContact,
+  deleteCustomField,
+  deleteDocument,
+  deleteInterview,
   deleteJob,
+  deleteNote,
+  deleteStage,
+  deleteTag,
+  deleteTask,
+  deleteTimelineEvent,
+  disableLock,
+  dismissRecoveryEntry,
+  emptyTrash,
+  enableLock,
+  getAutoLockMinutes,
+  getFollowUpDays,
+  getDuplicates,
+  getTrashRetentionDays,
+  importContacts,
+  linkContact,
+  linkDocument,
+  mergeJobs,
+  loadAiSettings,
+  lockWorkspace,
+  pinNote,
+  purgeJob,
+  purgeOrphanedFields,
+  readDocument,
+  redo,
+  removeTag,
+  renameTag,
+  reorderCustomFields,
+  restoreJob,
+  restoreSnapshot,
+  saveAiSettings,
+  savePipeline,
+  setAutoLockMinutes,
   setCustomFieldValue,
-  setNote,
+  setFollowUpDays,
   setStatus,
+  setTagColor,
+  setTrashRetentionDays,
+  snoozeTask,
+  subscribeConflicts,
+  subscribeContacts,
+  subscribeDocuments,
+  subscribeHistory,
   subscribeJobs,
+  subscribeLock,
+  subscribePipeline,
+  subscribeRecovery,
   subscribeSchema,
+  subscribeSnapshots,
+  subscribeTagColors,
+  subscribeTrash,
+  takeSnapshot,
+  undo,
+  unlinkContact,
+  unlinkDocument,
+  unlockWorkspace,
+  updateContact,
+  updateCustomField,
+  updateInterview,
   updateJob,
-  upsertCustomField
+  updateNote,
+  updateTimelineEvent,
+  upsertCustomField,
+  type BulkResult,
+  type LockState
 } from './services/jobs';
 import {
   AI_DEBUG,
@@ -19,31 +116,152 @@ import {
   type AiSettings
 } from './services/ai';
 import { applyAiActions, type ActionResult } from './services/aiActions';
-import { FIELD_TYPES } from './services/schema';
+import {
+  CONTACT_ROLES,
+  contactsForJob,
+  readContactInput,
+  type ContactInput
+} from './services/contacts';
+import {
+  DOCUMENT_KINDS,
+  documentPerformance,
+  documentsForJob,
+  formatFileSize
+} from './services/documents';
+import type { HistoryStatus } from './services/history';
+import {
+  formatInterviewTime,
+  INTERVIEW_OUTCOMES,
+  INTERVIEW_TYPES,
+  interviewTypeLabel,
+  upcomingInterviews
+} from './services/interviews';
+import {
+  compareFormulaValues,
+  compileFields,
+  compileFormula,
+  computeValues,
+  evaluateFormula,
+  FORMULA_FUNCTIONS,
+  FORMULA_NAMES,
+  formatFormulaValue,
+  isTruthy
+} from './services/formula';
+import {
+  dismissDuplicates,
+  findDuplicateGroups,
+  findDuplicates,
+  loadDismissed
+} from './services/duplicates';
+import { csvHeader, jobsToCsv, readCsvJobs, toCsv } from './services/csv';
+import { renderMarkdown } from './services/markdown';
+import { sortNotes, toNoteEntries } from './services/notes';
+import {
+  archiveStage,
+  canMoveTo,
+  createStage,
+  DEFAULT_PIPELINE,
+  findStage,
+  isPipelineStage,
+  missingFields,
+  normalizeStatus,
+  stageLabel
+} from './services/pipeline';
+import {
+  DEFAULT_CURRENCY,
+  FIELD_TYPES,
+  findField,
+  findOrphanedFields,
+  formatCustomValue,
+  hasOptions,
+  isFieldType,
+  parseCustomValue,
+  sameValue
+} from './services/schema';
+import {
+  collectTags,
+  hasTag,
+  parseTags,
+  readTags,
+  tagColor
+} from './services/tags';
+import {
+  addDays,
+  dueTasks,
+  getNotificationState,
+  localDate,
+  notifyDueTasks,
+  openTasks,
+  requestNotifications,
+  SNOOZE_OPTIONS,
+  type DueTask,
+  type NotificationState,
+  type TaskInput
+} from './services/tasks';
+import {
+  describeEvent,
+  isManualEvent,
+  SOURCE_LABELS,
+  type ManualEventInput
+} from './services/timeline';
+import {
+  diffSnapshot,
+  SNAPSHOT_LABELS,
+  type Snapshot
+} from './services/snapshots';
+import type { JobConflict, RecoveryEntry } from './services/storage';
+import {
+  DEFAULT_SYNC_SETTINGS,
+  getSyncSettings,
+  saveSyncSettings,
+  startSync,
+  subscribeSyncStatus,
+  syncNow,
+  type SyncSettings,
+  type SyncStatus
+} from './services/sync';
+import {
+  createWorkspace,
+  deleteWorkspace,
+  duplicateWorkspace,
+  renameWorkspace,
+  subscribeWorkspaces,
+  switchWorkspace,
+  type WorkspaceState
+} from './services/workspaces';
 
-const AI_SETTINGS_KEY = 'resumeTracker.aiSettings';
 const THEME_KEY = 'resumeTracker.theme';
 
 type ThemeMode = 'light' | 'dark';
 
-const statusOptions: { value: JobStatus; label: string }[] = [
-  { value: 'applied', label: 'Applied' },
-  { value: 'interviewed', label: 'Interviewing' },
-  { value: 'offer', label: 'Offer' },
-  { value: 'accepted', label: 'Accepted' },
-  { value: 'rejected', label: 'Rejected' },
-  { value: 'archived', label: 'Archived' }
-];
-
 const settingsSections = [
   { id: 'ai', label: 'AI' },
-  { id: 'data', label: 'Import & Export' },
+  { id: 'contacts', label: 'Contacts' },
+  { id: 'documents', label: 'Documents' },
+  { id: 'reminders', label: 'Reminders' },
+  { id: 'workspaces', label: 'Workspaces' },
+  { id: 'data', label: 'Data' },
+  { id: 'sync', label: 'Sync' },
+  { id: 'security', label: 'Security' },
+  { id: 'pipeline', label: 'Pipeline' },
+  { id: 'tags', label: 'Tags' },
   { id: 'fields', label: 'Custom Fields' },
+  { id: 'duplicates', label: 'Duplicates' },
+  { id: 'trash', label: 'Trash' },
   { id: 'about', label: 'About' }
 ] as const;
 
 type SettingsSection = (typeof settingsSections)[number]['id'];
 
+const EMPTY_CONTACT: ContactInput = {
+  name: '',
+  email: '',
+  phone: '',
+  linkedinUrl: '',
+  company: '',
+  role: 'recruiter'
+};
+
 const sortOptions = [
   { value: 'recent', label: 'Recently updated' },
   { value: 'company', label: 'Company A-Z' },
@@ -51,61 +269,15 @@ const sortOptions = [
   { value: 'appliedDate', label: 'Applied date' }
 ] as const;
 
-type SortMode = (typeof sortOptions)[number]['value'];
+// Computed fields can be sorted by too, as `field:<id>`.
+const FORMULA_HELP =
+  'Put custom fields in braces, like {Base} + {Bonus}. ' +
+  `Also available: ${FORMULA_NAMES.join(', ')}; ` +
+  `functions ${FORMULA_FUNCTIONS.join(', ')}.`;
 
-function parseCsv(text: string): string[][] {
-  const rows: string[][] = [];
-  let current = '';
-  let row: string[] = [];
-  let inQuotes = false;
+type SortMode = (typeof sortOptions)[number]['value'] | `field:${string}`;
 
-  const flushCell = () => {
-    row.push(current);
-    current = '';
-  };
-
-  const flushRow = () => {
-    if (row.length > 0 || current.length > 0) {
-      flushCell();
-      rows.push(row);
-    }
-    row = [];
-  };
-
-  for (let i = 0; i < text.length; i += 1) {
-    const char = text[i];
-    const next = text[i + 1];
-    if (char === '"') {
-      if (inQuotes && next === '"') {
-        current += '"';
-        i += 1;
-      } else {
-        inQuotes = !inQuotes;
-      }
-      continue;
-    }
-    if (char === '\n' && !inQuotes) {
-      flushRow();
-      continue;
-    }
-    if (char === '\r' && !inQuotes) {
-      if (next === '\n') {
-        i += 1;
-      }
-      flushRow();
-      continue;
-    }
-    if (char === ',' && !inQuotes) {
-      flushCell();
-      continue;
-    }
-    current += char;
-  }
-  flushRow();
-  return rows;
-}
-
-function downloadFile(content: string, filename: string, type: string) {
+function downloadFile(content: BlobPart, filename: string, type: string) {
   const blob = new Blob([content], { type });
   const url = URL.createObjectURL(blob);
   const anchor = document.createElement('a');
@@ -117,38 +289,51 @@ function downloadFile(content: string, filename: string, type: string) {
   URL.revokeObjectURL(url);
 }
 
-const statusLabelMap = statusOptions.reduce<Record<JobStatus, string>>(
+const contactRoleLabelMap = CONTACT_ROLES.reduce<Record<ContactRole, string>>(
   (acc, option) => {
     acc[option.value] = option.label;
     return acc;
   },
   {
-    applied: 'Applied',
-    interviewed: 'Interviewing',
-    offer: 'Offer',
-    accepted: 'Accepted',
-    rejected: 'Rejected',
-    archived: 'Archived'
+    recruiter: 'Recruiter',
+    referrer: 'Referrer',
+    interviewer: 'Interviewer',
+    hiring_manager: 'Hiring manager',
+    other: 'Other'
   }
 );
 
-const allowedStatuses: JobStatus[] = [
-  'applied',
-  'rejected',
-  'interviewed',
-  'offer',
-  'accepted',
-  'archived'
-];
-
-function loadAiSettings(): AiSettings {
-  const raw = localStorage.getItem(AI_SETTINGS_KEY);
-  if (!raw) return DEFAULT_AI_SETTINGS;
-  try {
-    return { ...DEFAULT_AI_SETTINGS, ...JSON.parse(raw) } as AiSettings;
-  } catch {
-    return DEFAULT_AI_SETTINGS;
+function fieldInputType(type: CustomFieldType) {
+  return type === 'number' || type === 'date' || type === 'url' ? type : 'text';
+}
+
+function parseOptions(value: string) {
+  return value
+    .split(',')
+    .map((option) => option.trim())
+    .filter(Boolean);
+}
+
+// `datetime-local` inputs work in local time without a zone.
+function toDateTimeInput(value?: string) {
+  if (!value) return '';
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return '';
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function isTextEntry(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement) {
+    return true;
   }
+  return (
+    target instanceof HTMLInputElement &&
+    ['text', 'search', 'url', 'email', 'number', 'password'].includes(
+      target.type
+    )
+  );
 }
 
 function loadTheme(): ThemeMode {
@@ -162,8 +347,281 @@ function loadTheme(): ThemeMode {
 }
 
 export default function App() {
+  const [lockState, setLockState] = useState<LockState | null>(null);
+  const [workspaceState, setWorkspaceState] = useState<WorkspaceState | null>(
+    null
+  );
+
+  useEffect(() => subscribeWorkspaces(setWorkspaceState), []);
+
+  useEffect(() => subscribeLock(setLockState), []);
+
+  useEffect(() => {
+    document.documentElement.dataset.theme = loadTheme();
+  }, []);
+
+  useEffect(() => {
+    if (lockState !== 'unlocked') return;
+    let lastActivity = Date.now();
+    const markActive = () => {
+      lastActivity = Date.now();
+    };
+    const activityEvents = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+    activityEvents.forEach((name) =>
+      window.addEventListener(name, markActive, { passive: true })
+    );
+    const timer = window.setInterval(() => {
+      const minutes = getAutoLockMinutes();
+      if (minutes > 0 && Date.now() - lastActivity >= minutes * 60 * 1000) {
+        lockWorkspace();
+      }
+    }, 15 * 1000);
+    return () => {
+      window.clearInterval(timer);
+      activityEvents.forEach((name) =>
+        window.removeEventListener(name, markActive)
+      );
+    };
+  }, [lockState]);
+
+  if (!lockState || !workspaceState) return null;
+  if (lockState === 'locked') {
+    return <LockScreen key={workspaceState.activeId} {...workspaceState} />;
+  }
+  return (
+    <Tracker
+      key={workspaceState.activeId}
+      lockState={lockState}
+      {...workspaceState}
+    />
+  );
+}
+
+function WorkspaceSwitcher({ workspaces, activeId }: WorkspaceState) {
+  return (
+    <select
+      className="workspace-switcher"
+      value={activeId}
+      onChange={(event) => switchWorkspace(event.target.value)}
+      aria-label="Switch workspace"
+    >
+      {workspaces.map((workspace) => (
+        <option key={workspace.id} value={workspace.id}>
+          {workspace.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function LockScreen(workspaceState: WorkspaceState) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+
+  const handleUnlock = async (event: FormEvent) => {
+    event.preventDefault();
+    setUnlocking(true);
+    setError(null);
+    try {
+      await unlockWorkspace(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not unlock.');
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="lock-screen">
+      <form className="lock-card" onSubmit={handleUnlock}>
+        <h2>Oliver's Application Tracker</h2>
+        {workspaceState.workspaces.length > 1 && (
+          <WorkspaceSwitcher {...workspaceState} />
+        )}
+        <p className="muted">
+          This workspace is locked. Enter your passphrase to continue.
+        </p>
+        <input
+          type="password"
+          placeholder="Passphrase"
+          autoFocus
+          value={passphrase}
+          onChange={(event) => setPassphrase(event.target.value)}
+        />
+        <button className="primary" disabled={unlocking || !passphrase}>
+          {unlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+        {error && <p className="lock-error">{error}</p>}
+      </form>
+    </div>
+  );
+}
+
+type CustomFieldInputProps = {
+  field: CustomField;
+  value: CustomValue | undefined;
+  onChange: (value: CustomValue) => void;
+};
+
+// Edits one custom value with an input suited to the field's type. Typed
+// values are saved on blur or Enter; ones that do not fit are not saved and
+// the reason is shown instead.
+function CustomFieldInput({ field, value, onChange }: CustomFieldInputProps) {
+  const stored = formatCustomValue(value);
+  const [draft, setDraft] = useState(stored);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(stored);
+    setError(null);
+  }, [stored]);
+
+  const commit = (raw: unknown) => {
+    try {
+      const parsed = parseCustomValue(field, raw);
+      setError(null);
+      if (!sameValue(parsed, value)) onChange(parsed);
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : 'Invalid value.');
+    }
+  };
+
+  const options = field.options ?? [];
+  let input: ReactNode;
+  if (field.type === 'boolean') {
+    input = (
+      <input
+        type="checkbox"
+        checked={value === true}
+        onChange={(event) => onChange(event.target.checked)}
+      />
+    );
+  } else if (field.type === 'select') {
+    input = (
+      <select
+        value={typeof value === 'string' ? value : ''}
+        onChange={(event) => commit(event.target.value)}
+      >
+        <option value="">—</option>
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    );
+  } else if (field.type === 'multi_select') {
+    const selected = Array.isArray(value) ? value : [];
+    input = (
+      <div className="option-list">
+        {options.length === 0 && (
+          <span className="muted">Add options in Settings.</span>
+        )}
+        {options.map((option) => (
+          <label key={option} className="option-check">
+            <input
+              type="checkbox"
+              checked={selected.includes(option)}
+              onChange={(event) =>
+                commit(
+                  event.target.checked
+                    ? [...selected, option]
+                    : selected.filter((item) => item !== option)
+                )
+              }
+            />
+            {option}
+          </label>
+        ))}
+      </div>
+    );
+  } else if (field.type === 'long_text') {
+    input = (
+      <textarea
+        rows={3}
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={() => commit(draft)}
+      />
+    );
+  } else {
+    input = (
+      <input
+        type={fieldInputType(field.type)}
+        value={draft}
+        placeholder={
+          field.type === 'currency'
+            ? `${field.currency ?? DEFAULT_CURRENCY} 100,000–120,000`
+            : undefined
+        }
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={() => commit(draft)}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') commit(draft);
+        }}
+      />
+    );
+  }
+  return (
+    <>
+      {input}
+      {error && <span className="field-error">{error}</span>}
+    </>
+  );
+}
+
+function Tracker({
+  lockState,
+  workspaces,
+  activeId
+}: WorkspaceState & { lockState: LockState }) {
   const [jobs, setJobs] = useState<Job[]>([]);
   const [fields, setFields] = useState<CustomField[]>([]);
+  const [pipeline, setPipeline] = useState<PipelineStage[]>(DEFAULT_PIPELINE);
+  const [stageName, setStageName] = useState('');
+  const [removingStage, setRemovingStage] = useState<{
+    id: JobStatus;
+    moveTo: JobStatus;
+  } | null>(null);
+  const [pipelineNotice, setPipelineNotice] = useState<string | null>(null);
+  const [statusPrompt, setStatusPrompt] = useState<{
+    jobId: string;
+    status: JobStatus;
+    values: Record<string, CustomValue>;
+    error?: string;
+  } | null>(null);
+  const [tagColors, setTagColors] = useState<Record<string, string>>({});
+  const [tagFilter, setTagFilter] = useState('');
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+  const [tagNotice, setTagNotice] = useState<string | null>(null);
+  const [trashJobs, setTrashJobs] = useState<Job[]>([]);
+  const [trashRetention, setTrashRetention] = useState(getTrashRetentionDays);
+  const [recoveryEntries, setRecoveryEntries] = useState<RecoveryEntry[]>([]);
+  const [historyStatus, setHistoryStatus] = useState<HistoryStatus>({
+    undoLabel: null,
+    redoLabel: null,
+    last: null
+  });
+  const [historyToast, setHistoryToast] =
+    useState<HistoryStatus['last']>(null);
+  const [actionNotice, setActionNotice] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<JobConflict[]>([]);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [contactDraft, setContactDraft] = useState<ContactInput>(EMPTY_CONTACT);
+  const [editingContactId, setEditingContactId] = useState<string | null>(
+    null
+  );
+  const [contactNotice, setContactNotice] = useState<string | null>(null);
+  const [documents, setDocuments] = useState<StoredDocument[]>([]);
+  const [documentKind, setDocumentKind] = useState<DocumentKind>('resume');
+  const [documentVersion, setDocumentVersion] = useState('');
+  const [documentNotice, setDocumentNotice] = useState<string | null>(null);
+  const documentInputRef = useRef<HTMLInputElement | null>(null);
+  const [jobContactDrafts, setJobContactDrafts] = useState<
+    Record<string, ContactInput>
+  >({});
+  const [snapshotNotice, setSnapshotNotice] = useState<string | null>(null);
   const [expandedId, setExpandedId] = useState<string | null>(null);
 
   const [formCompany, setFormCompany] = useState('');
@@ -173,15 +631,37 @@ export default function App() {
 
   const [fieldName, setFieldName] = useState('');
   const [fieldType, setFieldType] = useState<CustomFieldType>('text');
+  const [fieldOptions, setFieldOptions] = useState('');
+  const [fieldCurrency, setFieldCurrency] = useState(DEFAULT_CURRENCY);
+  const [fieldFormula, setFieldFormula] = useState('');
+  const [fieldNotice, setFieldNotice] = useState<string | null>(null);
+  const [removingField, setRemovingField] = useState<{
+    id: string;
+    purgeValues: boolean;
+  } | null>(null);
+  const [draggingField, setDraggingField] = useState<string | null>(null);
 
   const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
-  const [noteEditingId, setNoteEditingId] = useState<string | null>(null);
+  const [noteEditing, setNoteEditing] = useState<{
+    jobId: string;
+    noteId: string;
+    body: string;
+  } | null>(null);
   const [statusFilter, setStatusFilter] = useState<JobStatus | 'all'>('all');
   const [sortMode, setSortMode] = useState<SortMode>('recent');
   const [searchQuery, setSearchQuery] = useState('');
+  const [formulaFilter, setFormulaFilter] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const lastSelectedRef = useRef<string | null>(null);
+  const [bulkTag, setBulkTag] = useState('');
+  const [bulkFieldId, setBulkFieldId] = useState('');
+  const [bulkValue, setBulkValue] = useState('');
+  const [bulkNotice, setBulkNotice] = useState<string | null>(null);
 
   const [aiInput, setAiInput] = useState('');
-  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+  const [aiSettings, setAiSettings] =
+    useState<AiSettings>(DEFAULT_AI_SETTINGS);
+  const [aiSettingsLoaded, setAiSettingsLoaded] = useState(false);
   const [aiResult, setAiResult] = useState<AiResponse | null>(null);
   const [aiActionsApplied, setAiActionsApplied] = useState<ActionResult[] | null>(
     null
@@ -194,6 +674,37 @@ export default function App() {
   const [settingsSection, setSettingsSection] =
     useState<SettingsSection>('ai');
   const [importNotice, setImportNotice] = useState<string | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [exportShownOnly, setExportShownOnly] = useState(false);
+  const [duplicateWarning, setDuplicateWarning] = useState<Job[] | null>(null);
+  const [dismissedDuplicates, setDismissedDuplicates] =
+    useState<string[]>(loadDismissed);
+  // The application to keep per duplicate group, keyed by its oldest one.
+  const [mergeTargets, setMergeTargets] = useState<Record<string, string>>(
+    {}
+  );
+  const [syncSettings, setSyncSettings] =
+    useState<SyncSettings>(DEFAULT_SYNC_SETTINGS);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [workspaceName, setWorkspaceName] = useState('');
+  const [workspaceNotice, setWorkspaceNotice] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [securityNotice, setSecurityNotice] = useState<string | null>(null);
+  const [securityBusy, setSecurityBusy] = useState(false);
+  const [autoLock, setAutoLock] = useState(getAutoLockMinutes);
+  const [followUpDays, setFollowUp] = useState(getFollowUpDays);
+  const [notificationState, setNotificationState] =
+    useState<NotificationState>(getNotificationState);
+  const [taskDrafts, setTaskDrafts] = useState<Record<string, TaskInput>>({});
+  const [eventDrafts, setEventDrafts] = useState<
+    Record<string, ManualEventInput>
+  >({});
+  const [eventEditing, setEventEditing] = useState<
+    (ManualEventInput & { eventId: string }) | null
+  >(null);
+  const [today, setToday] = useState(() => localDate());
   const [dragActive, setDragActive] = useState(false);
   const importInputRef = useRef<HTMLInputElement | null>(null);
 
@@ -211,13 +722,14 @@ export default function App() {
     el.style.overflowY = nextHeight > maxHeight ? 'auto' : 'hidden';
   };
 
-  const formatTimeline = (value: string) => {
+  const formatTimeline = (value: string, withTime = true) => {
     const date = new Date(value);
     if (Number.isNaN(date.getTime())) return value;
     const datePart = date.toLocaleDateString('en-US', {
       month: 'short',
       day: 'numeric'
     });
+    if (!withTime) return datePart;
     const timePart = date.toLocaleTimeString('en-US', {
       hour: '2-digit',
       minute: '2-digit'
@@ -225,26 +737,132 @@ export default function App() {
     return `${datePart} · ${timePart}`;
   };
 
-  const getStatusLabel = (status: JobStatus) => statusLabelMap[status] ?? status;
+  const getStatusLabel = (status: JobStatus) => stageLabel(pipeline, status);
+
+  const getTagStyle = (tag: string) =>
+    ({ '--tag-color': tagColor(tagColors, tag) }) as CSSProperties;
+
+  const getStatusStyle = (status: JobStatus) => {
+    const stage = findStage(pipeline, status);
+    return {
+      '--stage-color': stage?.color,
+      '--stage-color-dark': stage?.darkColor
+    } as CSSProperties;
+  };
 
-  const normalizeStatus = (value?: string): JobStatus | undefined => {
-    if (!value) return undefined;
-    const normalized = value.toLowerCase().trim() as JobStatus;
-    return allowedStatuses.includes(normalized) ? normalized : undefined;
+  const describeConflict = (conflict: JobConflict) => {
+    if (conflict.deleted) {
+      return `${conflict.company} was deleted elsewhere, so your change was not saved.`;
+    }
+    const formatValue = (field: string, value: unknown) => {
+      if (field === 'status' && value) {
+        return getStatusLabel(value as JobStatus);
+      }
+      return formatCustomValue(value as CustomValue) || 'empty';
+    };
+    const details = conflict.fields.map((item) => {
+      const customId = item.field.startsWith('custom.')
+        ? item.field.slice('custom.'.length)
+        : null;
+      const name = customId
+        ? fields.find((field) => field.id === customId)?.name ?? customId
+        : item.field;
+      const kept = formatValue(item.field, item.theirs);
+      const yours = formatValue(item.field, item.ours);
+      return `${name} kept "${kept}" instead of your "${yours}"`;
+    });
+    return `${conflict.company} was also edited elsewhere: ${details.join('; ')}.`;
   };
 
   useEffect(() => {
     const unsubJobs = subscribeJobs(setJobs);
     const unsubSchema = subscribeSchema(setFields);
+    const unsubPipeline = subscribePipeline(setPipeline);
+    const unsubTagColors = subscribeTagColors(setTagColors);
+    const unsubRecovery = subscribeRecovery(setRecoveryEntries);
+    const unsubHistory = subscribeHistory(setHistoryStatus);
+    const unsubTrash = subscribeTrash(setTrashJobs);
+    const unsubSnapshots = subscribeSnapshots(setSnapshots);
+    const unsubContacts = subscribeContacts(setContacts);
+    const unsubDocuments = subscribeDocuments(setDocuments);
+    const unsubConflicts = subscribeConflicts((next) =>
+      setConflicts((prev) => [...prev, ...next].slice(-5))
+    );
     return () => {
+      unsubConflicts();
       unsubJobs();
+      unsubTrash();
+      unsubSnapshots();
+      unsubContacts();
+      unsubDocuments();
       unsubSchema();
+      unsubPipeline();
+      unsubTagColors();
+      unsubRecovery();
+      unsubHistory();
+    };
+  }, []);
+
+  // Falls back when the selected stage is removed, here or in another tab.
+  useEffect(() => {
+    if (!findStage(pipeline, formStatus)) setFormStatus(pipeline[0].id);
+    if (statusFilter !== 'all' && !findStage(pipeline, statusFilter)) {
+      setStatusFilter('all');
+    }
+  }, [pipeline, formStatus, statusFilter]);
+
+  useEffect(() => {
+    const last = historyStatus.last;
+    setHistoryToast(last);
+    if (!last) return;
+    const timer = window.setTimeout(() => setHistoryToast(null), 6000);
+    return () => window.clearTimeout(timer);
+  }, [historyStatus.last]);
+
+  // Runs a write started from a button or shortcut and shows why it failed,
+  // rather than leaving the rejection unhandled.
+  const runAction = async (action: () => Promise<unknown>) => {
+    setActionNotice(null);
+    try {
+      await action();
+    } catch (error) {
+      setActionNotice(
+        error instanceof Error ? error.message : 'Could not apply that change.'
+      );
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      if (event.key.toLowerCase() !== 'z' || isTextEntry(event.target)) return;
+      event.preventDefault();
+      runAction(event.shiftKey ? redo : undo);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const stopSync = startSync();
+    const unsubSync = subscribeSyncStatus(setSyncStatus);
+    getSyncSettings().then(setSyncSettings);
+    return () => {
+      unsubSync();
+      stopSync();
     };
   }, []);
 
   useEffect(() => {
-    localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(aiSettings));
-  }, [aiSettings]);
+    loadAiSettings().then((settings) => {
+      setAiSettings(settings);
+      setAiSettingsLoaded(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (aiSettingsLoaded) saveAiSettings(aiSettings);
+  }, [aiSettings, aiSettingsLoaded]);
 
   useEffect(() => {
     document.documentElement.dataset.theme = theme;
@@ -279,57 +897,157 @@ export default function App() {
 
   const statusCounts = useMemo(() => {
     const counts: Record<string, number> = { all: jobs.length };
-    statusOptions.forEach((option) => {
-      counts[option.value] = jobs.filter((job) => job.status === option.value).length;
+    pipeline.forEach((stage) => {
+      counts[stage.id] = jobs.filter((job) => job.status === stage.id).length;
     });
     return counts;
-  }, [jobs]);
+  }, [jobs, pipeline]);
+
+  const compiledFields = useMemo(() => compileFields(fields), [fields]);
+
+  const computedValues = useMemo(
+    () =>
+      new Map(
+        jobs.map((job) => [
+          job.id,
+          computeValues(job, fields, today, compiledFields)
+        ])
+      ),
+    [jobs, fields, today, compiledFields]
+  );
+
+  const filterFormula = useMemo(() => {
+    if (!formulaFilter.trim()) return null;
+    try {
+      return compileFormula(formulaFilter, fields);
+    } catch (error) {
+      return error instanceof Error ? error : new Error(String(error));
+    }
+  }, [formulaFilter, fields]);
 
   const filteredJobs = useMemo(() => {
       const query = searchQuery.trim().toLowerCase();
     return jobs.filter((job) => {
       if (statusFilter !== 'all' && job.status !== statusFilter) return false;
+      if (tagFilter && !hasTag(job, tagFilter)) return false;
+      if (
+        filterFormula &&
+        !(filterFormula instanceof Error) &&
+        !isTruthy(
+          evaluateFormula(
+            filterFormula,
+            job,
+            computedValues.get(job.id) ?? {},
+            today
+          )
+        )
+      ) {
+        return false;
+      }
       if (!query) return true;
       const haystack = [
         job.company,
         job.role,
-        job.notes?.join(' ') ?? ''
+        job.notes?.map((note) => note.body).join(' ') ?? '',
+        job.tags?.join(' ') ?? ''
       ]
         .join(' ')
         .toLowerCase();
       return haystack.includes(query);
     });
-  }, [jobs, statusFilter, searchQuery]);
+  }, [
+    jobs,
+    statusFilter,
+    tagFilter,
+    searchQuery,
+    filterFormula,
+    computedValues,
+    today
+  ]);
+
+  const allTags = useMemo(() => collectTags(jobs), [jobs]);
+
+  const duplicateGroups = useMemo(
+    () => findDuplicateGroups(jobs, dismissedDuplicates),
+    [jobs, dismissedDuplicates]
+  );
+
+  const inputFields = useMemo(
+    () => fields.filter((field) => field.type !== 'computed'),
+    [fields]
+  );
+
+  const orphanedFields = useMemo(
+    () => findOrphanedFields([...jobs, ...trashJobs], fields),
+    [jobs, trashJobs, fields]
+  );
 
   const jobCountLabel = useMemo(() => {
     const total = jobs.length;
-    const rejected = jobs.filter((job) => job.status === 'rejected').length;
+    const closed = jobs.filter(
+      (job) => findStage(pipeline, job.status)?.terminal
+    ).length;
     const isFiltering =
-      statusFilter !== 'all' || Boolean(searchQuery.trim());
+      statusFilter !== 'all' ||
+      Boolean(tagFilter) ||
+      Boolean(searchQuery.trim()) ||
+      Boolean(formulaFilter.trim());
     if (!isFiltering) {
-      return `${total} applications · ${rejected} rejected`;
+      return `${total} applications · ${closed} closed`;
     }
     const shown = filteredJobs.length;
     return `${shown} shown · ${total} total`;
-  }, [jobs, statusFilter, searchQuery, filteredJobs]);
+  }, [
+    jobs,
+    pipeline,
+    statusFilter,
+    tagFilter,
+    searchQuery,
+    formulaFilter,
+    filteredJobs
+  ]);
+
+  const upcoming = useMemo(() => upcomingInterviews(jobs).slice(0, 6), [jobs]);
+
+  const due = useMemo(() => dueTasks(jobs, today), [jobs, today]);
+
+  const resumeReport = useMemo(
+    () => documentPerformance(jobs, documents, pipeline),
+    [jobs, documents, pipeline]
+  );
+
+  // Re-checks once a minute so reminders fall due (and notify) without a
+  // reload, including after midnight.
+  useEffect(() => {
+    const timer = window.setInterval(() => setToday(localDate()), 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    notifyDueTasks(due, today);
+  }, [due, today, notificationState]);
 
   const sortedJobs = useMemo(() => {
     const items = [...filteredJobs];
-    const statusOrder = statusOptions.map((option) => option.value);
+    const stageOrder = (job: Job) =>
+      findStage(pipeline, job.status)?.order ?? pipeline.length;
     const getTime = (job: Job) =>
       new Date(job.updatedAt ?? job.createdAt ?? 0).getTime();
     const getApplied = (job: Job) =>
       job.appliedDate ? new Date(job.appliedDate).getTime() : 0;
 
+    if (sortMode.startsWith('field:')) {
+      const id = sortMode.slice('field:'.length);
+      const value = (job: Job) => computedValues.get(job.id)?.[id] ?? null;
+      return items.sort((a, b) => compareFormulaValues(value(a), value(b)));
+    }
+
     switch (sortMode) {
       case 'company':
         items.sort((a, b) => a.company.localeCompare(b.company));
         break;
       case 'status':
-        items.sort(
-          (a, b) =>
-            statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status)
-        );
+        items.sort((a, b) => stageOrder(a) - stageOrder(b));
         break;
       case 'appliedDate':
         items.sort((a, b) => getApplied(b) - getApplied(a));
@@ -340,78 +1058,506 @@ export default function App() {
         break;
     }
     return items;
-  }, [filteredJobs, sortMode]);
+  }, [filteredJobs, pipeline, sortMode, computedValues]);
 
-  const handleAddJob = async () => {
-    if (!formCompany.trim() || !formRole.trim()) return;
-    await addJob({
-      company: formCompany.trim(),
-      role: formRole.trim(),
-      status: formStatus,
-      appliedDate: formDate
+  // Only applications the current filter shows are acted on, so a hidden
+  // selection is never changed by accident.
+  const selectedJobs = useMemo(
+    () => sortedJobs.filter((job) => selectedIds.has(job.id)),
+    [sortedJobs, selectedIds]
+  );
+
+  const allShownSelected =
+    sortedJobs.length > 0 && selectedJobs.length === sortedJobs.length;
+
+  // Shift-click selects or clears everything between the last clicked card
+  // and this one, in the order the list shows them.
+  const handleSelectJob = (id: string, range: boolean) => {
+    const ids = sortedJobs.map((job) => job.id);
+    const anchor = lastSelectedRef.current
+      ? ids.indexOf(lastSelectedRef.current)
+      : -1;
+    const index = ids.indexOf(id);
+    const picked =
+      range && anchor !== -1
+        ? ids.slice(Math.min(anchor, index), Math.max(anchor, index) + 1)
+        : [id];
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      const checked = !current.has(id);
+      picked.forEach((item) => (checked ? next.add(item) : next.delete(item)));
+      return next;
     });
+    lastSelectedRef.current = id;
+  };
+
+  const handleSelectAll = () => {
+    setSelectedIds(
+      allShownSelected ? new Set() : new Set(sortedJobs.map((job) => job.id))
+    );
+    lastSelectedRef.current = null;
+  };
+
+  const runBulkAction = async (
+    action: (ids: string[]) => Promise<BulkResult>
+  ) => {
+    if (selectedJobs.length === 0) return;
+    try {
+      const { updated, skipped } = await action(
+        selectedJobs.map((job) => job.id)
+      );
+      const skippedSummary =
+        skipped.length > 0
+          ? ` Skipped ${skipped.length}: ${skipped
+              .map((item) => item.message)
+              .join(' ')}`
+          : '';
+      setBulkNotice(
+        `Updated ${updated} application${updated === 1 ? '' : 's'}.${skippedSummary}`
+      );
+    } catch (error) {
+      setBulkNotice(
+        error instanceof Error ? error.message : 'Could not update them.'
+      );
+    }
+  };
+
+  const handleBulkTag = async (remove: boolean) => {
+    const tag = bulkTag.trim();
+    if (!tag) return;
+    await runBulkAction((ids) =>
+      remove ? bulkRemoveTag(ids, tag) : bulkAddTag(ids, tag)
+    );
+    setBulkTag('');
+  };
+
+  const handleBulkValue = async () => {
+    if (!bulkFieldId) return;
+    await runBulkAction((ids) =>
+      bulkSetCustomFieldValue(ids, bulkFieldId, bulkValue)
+    );
+    setBulkValue('');
+  };
+
+  const handleBulkDelete = async () => {
+    await runBulkAction(bulkDelete);
+    setSelectedIds(new Set());
+    if (expandedId && selectedIds.has(expandedId)) setExpandedId(null);
+  };
+
+  // Asks first when the application looks like one already tracked;
+  // `confirmed` adds it anyway.
+  const handleAddJob = async (confirmed = false) => {
+    if (!formCompany.trim() || !formRole.trim()) return;
+    const input = { company: formCompany.trim(), role: formRole.trim() };
+    const matches = confirmed ? [] : findDuplicates(input, jobs);
+    if (matches.length > 0) {
+      setDuplicateWarning(matches);
+      return;
+    }
+    await addJob({ ...input, status: formStatus, appliedDate: formDate });
+    setDuplicateWarning(null);
     setFormCompany('');
     setFormRole('');
     setFormDate('');
   };
 
+  const handleMergeDuplicates = async (group: Job[]) => {
+    const keep = mergeTargets[group[0].id] ?? group[0].id;
+    await mergeJobs(
+      keep,
+      group.map((job) => job.id).filter((id) => id !== keep)
+    );
+  };
+
+  const handleDismissDuplicates = (group: Job[]) => {
+    dismissDuplicates(group.map((job) => job.id));
+    setDismissedDuplicates(loadDismissed());
+  };
+
   const handleAddField = async () => {
     if (!fieldName.trim()) return;
-    await upsertCustomField(fieldName.trim(), fieldType);
+    setFieldNotice(null);
+    if (findField(fields, fieldName)) {
+      setFieldNotice(`There is already a field called ${fieldName.trim()}.`);
+      return;
+    }
+    try {
+      await upsertCustomField(fieldName.trim(), fieldType, {
+        options: parseOptions(fieldOptions),
+        currency: fieldCurrency,
+        formula: fieldType === 'computed' ? fieldFormula : undefined
+      });
+    } catch (error) {
+      setFieldNotice(
+        error instanceof Error ? error.message : 'Could not add the field.'
+      );
+      return;
+    }
     setFieldName('');
+    setFieldOptions('');
+    setFieldFormula('');
   };
 
-  const handleSend = async () => {
-    setAiError(null);
-    setAiActionsApplied(null);
-    setAiResult(null);
-    if (!aiSettings.apiKey || !aiSettings.baseUrl || !aiSettings.model) {
-      setAiError('Please fill in API Key, Base URL, and Model.');
+  const handleUpdateField = async (
+    id: string,
+    changes: Parameters<typeof updateCustomField>[1]
+  ) => {
+    setFieldNotice(null);
+    try {
+      await updateCustomField(id, changes);
+    } catch (error) {
+      setFieldNotice(
+        error instanceof Error ? error.message : 'Could not update the field.'
+      );
+    }
+  };
+
+  // Moves a field into the place of the one it is dropped on, or by `offset`
+  // places when moved with the arrow buttons.
+  const handleMoveField = (id: string, target: string | number) => {
+    const from = fields.findIndex((field) => field.id === id);
+    const index =
+      typeof target === 'string'
+        ? fields.findIndex((field) => field.id === target)
+        : from + target;
+    if (from === -1 || index < 0 || index >= fields.length || index === from) {
+      return;
+    }
+    const ids = fields.map((field) => field.id).filter((item) => item !== id);
+    ids.splice(index, 0, id);
+    reorderCustomFields(ids);
+  };
+
+  const handleDeleteField = () =>
+    runAction(async () => {
+      if (!removingField) return;
+      await deleteCustomField(removingField.id, {
+        purgeValues: removingField.purgeValues
+      });
+      setRemovingField(null);
+    });
+
+  // Moves straight away unless the stage needs fields the application lacks,
+  // in which case the card asks for them first.
+  const handleStatusChange = async (job: Job, status: JobStatus) => {
+    if (missingFields(pipeline, fields, job, status).length > 0) {
+      setStatusPrompt({ jobId: job.id, status, values: {} });
       return;
     }
-    const input = aiInput.trim();
-    if (!input) return;
-    setAiInput('');
-    resizeComposer();
-    setAiLoading(true);
     try {
-      const result = await requestAiActions(
-        aiSettings,
-        jobs,
-        fields,
-        input
-      );
-      setAiResult(result);
-      if (result.actions?.length) {
-        const results = await applyAiActions(result.actions, fields);
-        setAiActionsApplied(results);
-        if (AI_DEBUG) {
-          console.info('[AI] applied', results);
-        }
-      }
+      await setStatus(job.id, status);
+      setStatusPrompt(null);
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'AI request failed';
-      setAiError(message);
-    } finally {
-      setAiLoading(false);
+      setStatusPrompt({
+        jobId: job.id,
+        status,
+        values: {},
+        error: error instanceof Error ? error.message : 'Could not move it.'
+      });
     }
   };
 
-  const handleImportFiles = async (fileList: FileList | null) => {
-    if (!fileList || fileList.length === 0) return;
-    const file = fileList[0];
-    setImportNotice(null);
+  const handleConfirmStatus = async (job: Job) => {
+    if (!statusPrompt) return;
     try {
-      const text = await file.text();
-      const extension = file.name.split('.').pop()?.toLowerCase();
+      await setStatus(job.id, statusPrompt.status, statusPrompt.values);
+      setStatusPrompt(null);
+    } catch (error) {
+      setStatusPrompt({
+        ...statusPrompt,
+        error: error instanceof Error ? error.message : 'Could not move it.'
+      });
+    }
+  };
+
+  const handleAddTag = async (job: Job) => {
+    const tags = parseTags(tagDrafts[job.id] ?? '');
+    for (const tag of tags) await addTag(job.id, tag);
+    setTagDrafts((prev) => ({ ...prev, [job.id]: '' }));
+  };
+
+  const handleRenameTag = async (from: string, to: string) => {
+    setTagNotice(null);
+    try {
+      await renameTag(from, to);
+      if (tagFilter === from) setTagFilter('');
+    } catch (error) {
+      setTagNotice(
+        error instanceof Error ? error.message : 'Could not rename the tag.'
+      );
+    }
+  };
+
+  const handleDeleteTag = async (tag: string) => {
+    await deleteTag(tag);
+    if (tagFilter === tag) setTagFilter('');
+  };
+
+  const handleSavePipeline = async (stages: PipelineStage[]) => {
+    setPipelineNotice(null);
+    try {
+      await savePipeline(stages);
+      return true;
+    } catch (error) {
+      setPipelineNotice(
+        error instanceof Error ? error.message : 'Could not save the pipeline.'
+      );
+      return false;
+    }
+  };
+
+  const handleUpdateStage = (id: JobStatus, patch: Partial<PipelineStage>) =>
+    handleSavePipeline(
+      pipeline.map((stage) => (stage.id === id ? { ...stage, ...patch } : stage))
+    );
+
+  const handleMoveStage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= pipeline.length) return;
+    const next = [...pipeline];
+    [next[index], next[target]] = [next[target], next[index]];
+    handleSavePipeline(next.map((stage, order) => ({ ...stage, order })));
+  };
+
+  const handleAddStage = async () => {
+    setPipelineNotice(null);
+    try {
+      const stage = createStage(stageName, pipeline);
+      if (await handleSavePipeline([...pipeline, stage])) setStageName('');
+    } catch (error) {
+      setPipelineNotice(
+        error instanceof Error ? error.message : 'Could not add the stage.'
+      );
+    }
+  };
+
+  const handleDeleteStage = async () => {
+    if (!removingStage) return;
+    setPipelineNotice(null);
+    try {
+      await deleteStage(removingStage.id, removingStage.moveTo);
+      setRemovingStage(null);
+    } catch (error) {
+      setPipelineNotice(
+        error instanceof Error ? error.message : 'Could not remove the stage.'
+      );
+    }
+  };
+
+  const handleSaveContact = async () => {
+    setContactNotice(null);
+    try {
+      if (editingContactId) {
+        await updateContact(editingContactId, contactDraft);
+      } else {
+        await addContact(contactDraft);
+      }
+      setContactDraft(EMPTY_CONTACT);
+      setEditingContactId(null);
+    } catch (error) {
+      setContactNotice(
+        error instanceof Error ? error.message : 'Could not save the contact.'
+      );
+    }
+  };
+
+  const handleEditContact = (contact: Contact) => {
+    setEditingContactId(contact.id);
+    setContactNotice(null);
+    setContactDraft({
+      name: contact.name,
+      email: contact.email ?? '',
+      phone: contact.phone ?? '',
+      linkedinUrl: contact.linkedinUrl ?? '',
+      company: contact.company ?? '',
+      role: contact.role
+    });
+  };
+
+  const handleDeleteContact = async (contact: Contact) => {
+    if (!window.confirm(`Delete ${contact.name}?`)) return;
+    await deleteContact(contact.id);
+    if (editingContactId === contact.id) {
+      setEditingContactId(null);
+      setContactDraft(EMPTY_CONTACT);
+    }
+  };
+
+  const handleAddJobContact = async (job: Job) => {
+    const draft = jobContactDrafts[job.id];
+    if (!draft?.name.trim()) return;
+    await addContact({
+      ...draft,
+      company: draft.company || job.company,
+      jobIds: [job.id]
+    });
+    setJobContactDrafts((prev) => {
+      const { [job.id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const describeContactJobs = (contact: Contact) =>
+    contact.jobIds
+      .flatMap((id) => {
+        const job = jobs.find((item) => item.id === id);
+        return job ? [job.company] : [];
+      })
+      .join(', ');
+
+  const handleAddNote = async (job: Job) => {
+    const body = noteDrafts[job.id]?.trim();
+    if (!body) return;
+    await addNote(job.id, body);
+    setNoteDrafts((prev) => {
+      const { [job.id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleSaveNote = async (job: Job) => {
+    if (!noteEditing?.body.trim()) return;
+    await updateNote(job.id, noteEditing.noteId, noteEditing.body);
+    setNoteEditing(null);
+  };
+
+  const handleAddEvent = async (job: Job) => {
+    const draft = eventDrafts[job.id];
+    if (!draft?.label.trim() || !draft.date) return;
+    await addTimelineEvent(job.id, draft);
+    setEventDrafts((prev) => {
+      const { [job.id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleSaveEvent = async (job: Job) => {
+    if (!eventEditing?.label.trim() || !eventEditing.date) return;
+    await updateTimelineEvent(job.id, eventEditing.eventId, eventEditing);
+    setEventEditing(null);
+  };
+
+  const handleAddTask = async (job: Job) => {
+    const draft = taskDrafts[job.id];
+    if (!draft?.title.trim() || !draft.dueDate) return;
+    await addTask(job.id, draft);
+    setTaskDrafts((prev) => {
+      const { [job.id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleUploadDocument = async () => {
+    const file = documentInputRef.current?.files?.[0];
+    if (!file) return;
+    setDocumentNotice(null);
+    try {
+      await addDocument({
+        name: file.name,
+        kind: documentKind,
+        versionLabel: documentVersion,
+        mimeType: file.type,
+        data: await file.arrayBuffer()
+      });
+      setDocumentVersion('');
+      if (documentInputRef.current) documentInputRef.current.value = '';
+    } catch (error) {
+      setDocumentNotice(
+        error instanceof Error ? error.message : 'Upload failed.'
+      );
+    }
+  };
+
+  const handleOpenDocument = async (
+    file: StoredDocument,
+    mode: 'preview' | 'download'
+  ) => {
+    try {
+      const blob = await readDocument(file.id);
+      if (mode === 'download') {
+        downloadFile(blob, file.name, file.mimeType);
+        return;
+      }
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank', 'noopener');
+      window.setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+    } catch (error) {
+      setDocumentNotice(
+        error instanceof Error ? error.message : 'Could not open the file.'
+      );
+    }
+  };
+
+  const handleDeleteDocument = async (file: StoredDocument) => {
+    if (!window.confirm(`Delete ${file.name}?`)) return;
+    await deleteDocument(file.id);
+  };
+
+  const describeDocument = (file: StoredDocument) =>
+    file.versionLabel
+      ? `${file.name} · ${file.versionLabel}`
+      : file.name;
+
+  const describeDue = (item: DueTask) =>
+    item.overdue ? `Overdue since ${item.task.dueDate}` : 'Due today';
+
+  const handleSend = async () => {
+    setAiError(null);
+    setAiActionsApplied(null);
+    setAiResult(null);
+    if (!aiSettings.apiKey || !aiSettings.baseUrl || !aiSettings.model) {
+      setAiError('Please fill in API Key, Base URL, and Model.');
+      return;
+    }
+    const input = aiInput.trim();
+    if (!input) return;
+    setAiInput('');
+    resizeComposer();
+    setAiLoading(true);
+    try {
+      const result = await requestAiActions(
+        aiSettings,
+        jobs,
+        fields,
+        pipeline,
+        input
+      );
+      setAiResult(result);
+      if (result.actions?.length) {
+        const results = await applyAiActions(result.actions, fields);
+        setAiActionsApplied(results);
+        if (AI_DEBUG) {
+          console.info('[AI] applied', results);
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'AI request failed';
+      setAiError(message);
+    } finally {
+      setAiLoading(false);
+    }
+  };
+
+  const handleImportFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    const file = fileList[0];
+    setImportNotice(null);
+    try {
+      const text = await file.text();
+      const extension = file.name.split('.').pop()?.toLowerCase();
+      await takeSnapshot('import');
+      let stages = pipeline;
+      let contactInputs: ContactInput[] = [];
       let inputs: Array<{
+        id?: string;
         company?: string;
         role?: string;
         status?: JobStatus;
         appliedDate?: string;
-        note?: string;
+        tags?: string[];
         notes?: string[];
-        custom?: Record<string, string | number | null>;
+        custom?: Record<string, unknown>;
       }> = [];
 
       if (extension === 'json') {
@@ -421,17 +1567,67 @@ export default function App() {
         if (!Array.isArray(rawJobs)) {
           throw new Error('JSON must be an array or contain a jobs array.');
         }
-        for (const field of rawFields) {
+        // Computed fields go last, so the fields their formulas use exist.
+        const computedLast = [...rawFields].sort(
+          (a, b) =>
+            Number(a?.type === 'computed') - Number(b?.type === 'computed')
+        );
+        for (const field of computedLast) {
           if (!field?.name || !field?.type) continue;
-          await upsertCustomField(field.name, field.type);
+          await upsertCustomField(
+            field.name,
+            isFieldType(field.type) ? field.type : 'text',
+            {
+              options: Array.isArray(field.options)
+                ? field.options.map(String)
+                : undefined,
+              currency:
+                typeof field.currency === 'string' ? field.currency : undefined,
+              formula:
+                typeof field.formula === 'string' ? field.formula : undefined
+            }
+          );
+        }
+        // Stages the file uses that this workspace lacks are added after
+        // its own.
+        if (Array.isArray(parsed?.pipeline)) {
+          const missing = parsed.pipeline.filter(
+            (stage: unknown) =>
+              isPipelineStage(stage) && !findStage(stages, stage.id)
+          );
+          if (missing.length > 0) {
+            stages = [
+              ...stages,
+              ...missing.map((stage: PipelineStage, index: number) => ({
+                ...stage,
+                order: stages.length + index
+              }))
+            ];
+            await savePipeline(stages);
+          }
+        }
+        if (parsed?.tagColors && typeof parsed.tagColors === 'object') {
+          for (const [tag, color] of Object.entries(parsed.tagColors)) {
+            if (typeof color === 'string' && !tagColors[tag]) {
+              await setTagColor(tag, color);
+            }
+          }
+        }
+        if (Array.isArray(parsed?.contacts)) {
+          contactInputs = parsed.contacts.flatMap((contact: unknown) => {
+            const input = readContactInput(contact);
+            return input ? [input] : [];
+          });
         }
         inputs = rawJobs.map((job: any) => ({
+          id: typeof job.id === 'string' ? job.id : undefined,
+          tags: readTags(job.tags),
           company: job.company ?? job.Company,
           role: job.role ?? job.Role,
-          status: normalizeStatus(job.status ?? job.Status),
+          status: normalizeStatus(job.status ?? job.Status, stages),
           appliedDate: job.appliedDate ?? job.applied_date ?? job.AppliedDate,
           notes: Array.isArray(job.notes)
-            ? job.notes
+            ? toNoteEntries(job.notes, '', '').map((note) => note.body)
             : job.note || job.Note
               ? [job.note ?? job.Note]
               : undefined,
@@ -439,45 +1635,60 @@ export default function App() {
             job.custom && typeof job.custom === 'object' ? job.custom : undefined
         }));
       } else if (extension === 'csv') {
-        const rows = parseCsv(text);
-        if (rows.length < 2) {
-          throw new Error('CSV must include a header and at least one row.');
-        }
-        const headers = rows[0].map((cell) => cell.trim().toLowerCase());
-        inputs = rows.slice(1).map((row) => {
-          const get = (name: string) => {
-            const index = headers.indexOf(name);
-            return index >= 0 ? row[index]?.trim() : '';
-          };
-          return {
-            company: get('company'),
-            role: get('role'),
-            status: normalizeStatus(get('status')),
-            appliedDate: get('applieddate') || get('applied_date'),
-            note: get('note')
-          };
-        });
+        inputs = readCsvJobs(text, fields, stages);
       } else {
         throw new Error('Please upload a CSV or JSON file.');
       }
 
       let added = 0;
+      const skipped: string[] = [];
+      const importedIds = new Map<string, string>();
       for (const input of inputs) {
         if (!input.company || !input.role) continue;
-        await addJob({
-          company: input.company,
-          role: input.role,
-          status: input.status,
-          appliedDate: input.appliedDate,
-          notes: input.notes ?? (input.note ? [input.note] : undefined),
-          custom: input.custom
-        });
+        if (
+          skipDuplicates &&
+          (await getDuplicates({ company: input.company, role: input.role }))
+            .length > 0
+        ) {
+          skipped.push(`${input.company} – ${input.role}`);
+          continue;
+        }
+        let id: string;
+        try {
+          id = await addJob({
+            company: input.company,
+            role: input.role,
+            status: input.status,
+            appliedDate: input.appliedDate,
+            tags: input.tags,
+            notes: input.notes,
+            source: 'import',
+            custom: input.custom
+          });
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : 'invalid';
+          throw new Error(`${input.company}: ${reason}`);
+        }
+        if (input.id) importedIds.set(input.id, id);
         added += 1;
       }
+      const contactCount =
+        contactInputs.length > 0
+          ? await importContacts(contactInputs, importedIds)
+          : 0;
+      const contactSummary =
+        contactCount > 0
+          ? ` and ${contactCount} contact${contactCount === 1 ? '' : 's'}`
+          : '';
+      const skippedSummary =
+        skipped.length > 0
+          ? ` Skipped ${skipped.length} that look already tracked: ` +
+            `${skipped.join(', ')}.`
+          : '';
       setImportNotice(
-        added > 0
-          ? `Imported ${added} application${added === 1 ? '' : 's'}.`
-          : 'No valid rows to import.'
+        added > 0 || contactCount > 0
+          ? `Imported ${added} application${added === 1 ? '' : 's'}${contactSummary}.${skippedSummary}`
+          : `No valid rows to import.${skippedSummary}`
       );
       if (importInputRef.current) {
         importInputRef.current.value = '';
@@ -492,7 +1703,10 @@ export default function App() {
   const handleExportJson = () => {
     const payload = {
       jobs,
-      fields
+      fields,
+      pipeline,
+      tagColors,
+      contacts
     };
     downloadFile(
       JSON.stringify(payload, null, 2),
@@ -501,24 +1715,216 @@ export default function App() {
     );
   };
 
+  const handleExportCsv = () => {
+    const csv = jobsToCsv(
+      exportShownOnly ? sortedJobs : jobs,
+      fields,
+      pipeline,
+      today
+    );
+    downloadFile(csv, 'application-tracker.csv', 'text/csv');
+  };
+
   const handleDownloadTemplate = () => {
-    const header = ['company', 'role', 'status', 'appliedDate', 'note'];
-    const csv = `${header.join(',')}\n`;
-    downloadFile(csv, 'application-tracker-template.csv', 'text/csv');
+    const header = csvHeader(
+      fields.filter((field) => field.type !== 'computed')
+    );
+    downloadFile(
+      toCsv([header]),
+      'application-tracker-template.csv',
+      'text/csv'
+    );
   };
 
-  const handleDeleteJob = async (id: string) => {
+  const handleDownloadRecovery = (entry: RecoveryEntry) => {
+    const stamp = entry.quarantinedAt.slice(0, 10);
+    downloadFile(
+      entry.raw,
+      `application-tracker-recovery-${entry.source}-${stamp}.json`,
+      'application/json'
+    );
+  };
+
+  const handleRestoreSnapshot = async (snapshot: Snapshot) => {
+    const confirmed = window.confirm(
+      `Restore your data to ${formatTimeline(snapshot.createdAt)}? ` +
+        'Applications added since then will be removed. A snapshot of the ' +
+        'current data is taken first.'
+    );
+    if (!confirmed) return;
+    try {
+      const changed = await restoreSnapshot(snapshot.id);
+      setSnapshotNotice(
+        changed > 0
+          ? `Restored ${changed} application${changed === 1 ? '' : 's'}.`
+          : 'Your data already matches this snapshot.'
+      );
+    } catch (error) {
+      setSnapshotNotice(
+        error instanceof Error ? error.message : 'Restore failed.'
+      );
+    }
+  };
+
+  const describeSyncStatus = (current: SyncStatus) => {
+    const pending =
+      current.pending > 0
+        ? ` · ${current.pending} change${current.pending === 1 ? '' : 's'} waiting`
+        : '';
+    const last = current.lastSyncedAt
+      ? ` · last synced ${formatTimeline(current.lastSyncedAt)}`
+      : '';
+    const labels: Record<SyncStatus['state'], string> = {
+      off: 'Sync is off',
+      idle: 'Up to date',
+      syncing: 'Syncing...',
+      offline: 'Offline',
+      error: 'Sync failed'
+    };
+    return `${labels[current.state]}${pending}${last}`;
+  };
+
+  const runWorkspaceTask = async (task: () => unknown) => {
+    setWorkspaceNotice(null);
+    try {
+      await task();
+    } catch (error) {
+      setWorkspaceNotice(
+        error instanceof Error ? error.message : 'Something went wrong.'
+      );
+    }
+  };
+
+  const handleCreateWorkspace = () =>
+    runWorkspaceTask(() => {
+      createWorkspace(workspaceName);
+      setWorkspaceName('');
+    });
+
+  const handleRenameWorkspace = (id: string, current: string) => {
+    const name = window.prompt('Rename workspace', current);
+    if (name === null) return;
+    runWorkspaceTask(() => renameWorkspace(id, name));
+  };
+
+  const handleDeleteWorkspace = (id: string, name: string) => {
     const confirmed = window.confirm(
-      'Delete this application? This cannot be undone.'
+      `Delete the workspace "${name}" and all of its applications? This cannot be undone.`
     );
     if (!confirmed) return;
+    runWorkspaceTask(() => deleteWorkspace(id));
+  };
+
+  const handleDeleteJob = async (id: string) => {
     await deleteJob(id);
     if (expandedId === id) {
       setExpandedId(null);
     }
-    if (noteEditingId === id) {
-      setNoteEditingId(null);
+    if (noteEditing?.jobId === id) {
+      setNoteEditing(null);
+    }
+  };
+
+  const handlePurgeJob = async (job: Job) => {
+    const confirmed = window.confirm(
+      `Permanently delete ${job.company}? It will no longer be restorable from the trash.`
+    );
+    if (!confirmed) return;
+    await purgeJob(job.id);
+  };
+
+  const handleEmptyTrash = async () => {
+    const confirmed = window.confirm(
+      `Permanently delete ${trashJobs.length} application${
+        trashJobs.length === 1 ? '' : 's'
+      } in the trash?`
+    );
+    if (!confirmed) return;
+    await emptyTrash();
+  };
+
+  const runSecurityTask = async (task: () => Promise<void>, done: string) => {
+    setSecurityBusy(true);
+    setSecurityNotice(null);
+    try {
+      await task();
+      setSecurityNotice(done);
+      setPassphrase('');
+      setPassphraseConfirm('');
+      setCurrentPassphrase('');
+    } catch (error) {
+      setSecurityNotice(
+        error instanceof Error ? error.message : 'Something went wrong.'
+      );
+    } finally {
+      setSecurityBusy(false);
+    }
+  };
+
+  const checkNewPassphrase = () => {
+    if (passphrase.length < 8) {
+      setSecurityNotice('Use a passphrase of at least 8 characters.');
+      return false;
+    }
+    if (passphrase !== passphraseConfirm) {
+      setSecurityNotice('The passphrases do not match.');
+      return false;
     }
+    return true;
+  };
+
+  const handleEnableLock = () => {
+    if (!checkNewPassphrase()) return;
+    runSecurityTask(
+      () => enableLock(passphrase),
+      'Your data is now encrypted with this passphrase.'
+    );
+  };
+
+  const handleChangePassphrase = () => {
+    if (!checkNewPassphrase()) return;
+    runSecurityTask(
+      () => changePassphrase(currentPassphrase, passphrase),
+      'Passphrase changed.'
+    );
+  };
+
+  const handleDisableLock = () => {
+    const confirmed = window.confirm(
+      'Remove the passphrase? Your data will be stored unencrypted.'
+    );
+    if (!confirmed) return;
+    runSecurityTask(
+      () => disableLock(currentPassphrase),
+      'Passphrase removed. Your data is no longer encrypted.'
+    );
+  };
+
+  const snapshotDiffs = useMemo(() => {
+    const current = [...jobs, ...trashJobs];
+    return new Map(
+      snapshots.map((snapshot) => [
+        snapshot.id,
+        diffSnapshot(snapshot, current, fields)
+      ])
+    );
+  }, [snapshots, jobs, trashJobs, fields]);
+
+  const describeSnapshotDiff = (snapshot: Snapshot) => {
+    const diff = snapshotDiffs.get(snapshot.id);
+    if (!diff) return '';
+    const parts = [
+      diff.added > 0 && `brings back ${diff.added}`,
+      diff.removed > 0 && `removes ${diff.removed}`,
+      diff.changed > 0 && `reverts ${diff.changed}`,
+      diff.fieldsChanged && 'resets custom fields'
+    ].filter(Boolean);
+    const count = `${diff.applications} application${
+      diff.applications === 1 ? '' : 's'
+    }`;
+    return parts.length > 0
+      ? `${count} · Restoring ${parts.join(', ')}`
+      : `${count} · Same as current data`;
   };
 
   const appliedSummary = useMemo(() => {
@@ -563,6 +1969,11 @@ export default function App() {
           </button>
         </div>
 
+        <div className="theme-row">
+          <span>Workspace</span>
+          <WorkspaceSwitcher workspaces={workspaces} activeId={activeId} />
+        </div>
+
         <div className="theme-row">
           <span>Dark mode</span>
           <label className="switch">
@@ -641,52 +2052,962 @@ export default function App() {
             </div>
           )}
 
-          {settingsSection === 'fields' && (
+          {settingsSection === 'pipeline' && (
             <div className="detail-section">
-              <h3>Custom Fields</h3>
+              <h3>Pipeline</h3>
+              <p className="muted">
+                The stages an application moves through. Final stages count as
+                closed.
+              </p>
               <div className="stack">
                 <input
-                  placeholder="Field name"
-                  value={fieldName}
-                  onChange={(event) => setFieldName(event.target.value)}
+                  placeholder="Stage name, e.g. Online assessment"
+                  value={stageName}
+                  onChange={(event) => setStageName(event.target.value)}
                 />
-                <select
-                  value={fieldType}
-                  onChange={(event) =>
-                    setFieldType(event.target.value as CustomFieldType)
-                  }
+                <button
+                  className="primary"
+                  disabled={!stageName.trim()}
+                  onClick={handleAddStage}
                 >
-                  {FIELD_TYPES.map((field) => (
-                    <option key={field.value} value={field.value}>
-                      {field.label}
-                    </option>
-                  ))}
-                </select>
-                <button className="primary" onClick={handleAddField}>
-                  Add field
+                  Add stage
                 </button>
               </div>
+              {pipelineNotice && <p className="muted">{pipelineNotice}</p>}
               <div className="field-list">
-                {fields.map((field) => (
-                  <div key={field.id} className="field-item">
-                    <div>
-                      <strong>{field.name}</strong>
-                      <p className="muted">{field.id}</p>
+                {pipeline.map((stage, index) => (
+                  <div key={stage.id} className="field-item stage-item">
+                    <div className="stage-fields">
+                      <input
+                        type="color"
+                        value={stage.color}
+                        aria-label={`${stage.label} color`}
+                        onChange={(event) =>
+                          handleUpdateStage(stage.id, {
+                            color: event.target.value,
+                            darkColor: undefined
+                          })
+                        }
+                      />
+                      <input
+                        key={stage.label}
+                        defaultValue={stage.label}
+                        aria-label="Stage name"
+                        onBlur={(event) => {
+                          const label = event.target.value.trim();
+                          if (label && label !== stage.label) {
+                            handleUpdateStage(stage.id, { label });
+                          }
+                        }}
+                      />
+                      <label className="inline">
+                        <input
+                          type="checkbox"
+                          checked={stage.terminal}
+                          onChange={(event) =>
+                            handleUpdateStage(stage.id, {
+                              terminal: event.target.checked
+                            })
+                          }
+                        />
+                        Final
+                      </label>
+                      <span className="muted">
+                        {statusCounts[stage.id] ?? 0} applications
+                      </span>
                     </div>
-                    <span className="pill">{field.type}</span>
-                  </div>
-                ))}
-                {fields.length === 0 && (
-                  <p className="muted">No custom fields yet.</p>
-                )}
-              </div>
-            </div>
-          )}
-
-          {settingsSection === 'data' && (
-            <div className="detail-section">
-              <h3>Import & Export</h3>
-              <div
+                    <div className="inline">
+                      <button
+                        className="ghost"
+                        disabled={index === 0}
+                        onClick={() => handleMoveStage(index, -1)}
+                        aria-label={`Move ${stage.label} up`}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        className="ghost"
+                        disabled={index === pipeline.length - 1}
+                        onClick={() => handleMoveStage(index, 1)}
+                        aria-label={`Move ${stage.label} down`}
+                      >
+                        ↓
+                      </button>
+                      <button
+                        className="icon-button icon-button--danger"
+                        disabled={pipeline.length === 1}
+                        onClick={() =>
+                          setRemovingStage({
+                            id: stage.id,
+                            moveTo: pipeline[index === 0 ? 1 : 0].id
+                          })
+                        }
+                        aria-label={`Delete ${stage.label}`}
+                      >
+                        <svg viewBox="0 0 24 24" aria-hidden="true">
+                          <path d="M9 3h6l1 2h4v2H4V5h4l1-2Zm1 6h2v8h-2V9Zm4 0h2v8h-2V9ZM7 9h2v8H7V9Zm-1 12h12a2 2 0 0 0 2-2V7H4v12a2 2 0 0 0 2 2Z" />
+                        </svg>
+                      </button>
+                    </div>
+                    <details className="stage-rules">
+                      <summary>Rules</summary>
+                      <p className="muted">Can move to</p>
+                      <label className="inline">
+                        <input
+                          type="checkbox"
+                          checked={!stage.next}
+                          onChange={(event) =>
+                            handleUpdateStage(stage.id, {
+                              next: event.target.checked
+                                ? undefined
+                                : pipeline
+                                    .filter((item) => item.id !== stage.id)
+                                    .map((item) => item.id)
+                            })
+                          }
+                        />
+                        Any stage
+                      </label>
+                      {stage.next &&
+                        pipeline
+                          .filter((item) => item.id !== stage.id)
+                          .map((item) => (
+                            <label key={item.id} className="inline">
+                              <input
+                                type="checkbox"
+                                checked={stage.next?.includes(item.id)}
+                                onChange={(event) =>
+                                  handleUpdateStage(stage.id, {
+                                    next: event.target.checked
+                                      ? [...(stage.next ?? []), item.id]
+                                      : stage.next?.filter(
+                                          (id) => id !== item.id
+                                        )
+                                  })
+                                }
+                              />
+                              {item.label}
+                            </label>
+                          ))}
+                      <p className="muted">Required to enter</p>
+                      {inputFields.map((field) => (
+                        <label key={field.id} className="inline">
+                          <input
+                            type="checkbox"
+                            checked={Boolean(
+                              stage.requiredFields?.includes(field.id)
+                            )}
+                            onChange={(event) => {
+                              const required = (
+                                stage.requiredFields ?? []
+                              ).filter((id) => id !== field.id);
+                              handleUpdateStage(stage.id, {
+                                requiredFields: event.target.checked
+                                  ? [...required, field.id]
+                                  : required
+                              });
+                            }}
+                          />
+                          {field.name}
+                        </label>
+                      ))}
+                      {inputFields.length === 0 && (
+                        <p className="muted">
+                          Add custom fields to require them here.
+                        </p>
+                      )}
+                    </details>
+                    {removingStage?.id === stage.id && (
+                      <div className="stack">
+                        <label>
+                          Move its applications to
+                          <select
+                            value={removingStage.moveTo}
+                            onChange={(event) =>
+                              setRemovingStage({
+                                id: stage.id,
+                                moveTo: event.target.value
+                              })
+                            }
+                          >
+                            {pipeline
+                              .filter((item) => item.id !== stage.id)
+                              .map((item) => (
+                                <option key={item.id} value={item.id}>
+                                  {item.label}
+                                </option>
+                              ))}
+                          </select>
+                        </label>
+                        <div className="inline">
+                          <button className="primary" onClick={handleDeleteStage}>
+                            Delete {stage.label}
+                          </button>
+                          <button
+                            className="ghost"
+                            onClick={() => setRemovingStage(null)}
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {settingsSection === 'tags' && (
+            <div className="detail-section">
+              <h3>Tags</h3>
+              <p className="muted">
+                Renaming a tag to one that already exists merges the two.
+              </p>
+              {tagNotice && <p className="muted">{tagNotice}</p>}
+              <div className="field-list">
+                {allTags.map((tag) => (
+                  <div key={tag.name} className="field-item">
+                    <div className="stage-fields">
+                      <input
+                        type="color"
+                        value={tagColor(tagColors, tag.name)}
+                        aria-label={`${tag.name} color`}
+                        onChange={(event) =>
+                          setTagColor(tag.name, event.target.value)
+                        }
+                      />
+                      <input
+                        key={tag.name}
+                        defaultValue={tag.name}
+                        aria-label="Tag name"
+                        onBlur={(event) => {
+                          const name = event.target.value.trim();
+                          if (name && name !== tag.name) {
+                            handleRenameTag(tag.name, name);
+                          }
+                        }}
+                      />
+                      <span className="muted">
+                        {tag.count} application{tag.count === 1 ? '' : 's'}
+                      </span>
+                    </div>
+                    <button
+                      className="icon-button icon-button--danger"
+                      onClick={() => handleDeleteTag(tag.name)}
+                      aria-label={`Delete tag ${tag.name}`}
+                    >
+                      <svg viewBox="0 0 24 24" aria-hidden="true">
+                        <path d="M9 3h6l1 2h4v2H4V5h4l1-2Zm1 6h2v8h-2V9Zm4 0h2v8h-2V9ZM7 9h2v8H7V9Zm-1 12h12a2 2 0 0 0 2-2V7H4v12a2 2 0 0 0 2 2Z" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+                {allTags.length === 0 && (
+                  <p className="muted">
+                    No tags yet. Add them from an application's details.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {settingsSection === 'fields' && (
+            <div className="detail-section">
+              <h3>Custom Fields</h3>
+              <div className="stack">
+                <input
+                  placeholder="Field name"
+                  value={fieldName}
+                  onChange={(event) => setFieldName(event.target.value)}
+                />
+                <select
+                  value={fieldType}
+                  onChange={(event) =>
+                    setFieldType(event.target.value as CustomFieldType)
+                  }
+                >
+                  {FIELD_TYPES.map((field) => (
+                    <option key={field.value} value={field.value}>
+                      {field.label}
+                    </option>
+                  ))}
+                </select>
+                {hasOptions(fieldType) && (
+                  <input
+                    placeholder="Options, separated by commas"
+                    value={fieldOptions}
+                    onChange={(event) => setFieldOptions(event.target.value)}
+                  />
+                )}
+                {fieldType === 'currency' && (
+                  <input
+                    placeholder="Currency code"
+                    maxLength={3}
+                    value={fieldCurrency}
+                    onChange={(event) => setFieldCurrency(event.target.value)}
+                  />
+                )}
+                {fieldType === 'computed' && (
+                  <>
+                    <input
+                      placeholder="Formula, e.g. days_since(appliedDate)"
+                      value={fieldFormula}
+                      onChange={(event) => setFieldFormula(event.target.value)}
+                    />
+                    <p className="muted">{FORMULA_HELP}</p>
+                  </>
+                )}
+                <button className="primary" onClick={handleAddField}>
+                  Add field
+                </button>
+              </div>
+              {fieldNotice && <p className="muted">{fieldNotice}</p>}
+              <div className="field-list">
+                {fields.map((field, index) => (
+                  <div
+                    key={field.id}
+                    className={`field-item stage-item ${
+                      draggingField === field.id ? 'dragging' : ''
+                    }`}
+                    onDragOver={(event) => {
+                      if (draggingField) event.preventDefault();
+                    }}
+                    onDrop={(event) => {
+                      event.preventDefault();
+                      if (draggingField) {
+                        handleMoveField(draggingField, field.id);
+                      }
+                      setDraggingField(null);
+                    }}
+                  >
+                    <div className="stage-fields">
+                      <span
+                        className="drag-handle"
+                        draggable
+                        title="Drag to reorder"
+                        onDragStart={(event) => {
+                          event.dataTransfer.effectAllowed = 'move';
+                          event.dataTransfer.setData('text/plain', field.id);
+                          setDraggingField(field.id);
+                        }}
+                        onDragEnd={() => setDraggingField(null)}
+                      >
+                        ⋮⋮
+                      </span>
+                      <input
+                        key={field.name}
+                        defaultValue={field.name}
+                        aria-label="Field name"
+                        onBlur={(event) => {
+                          const name = event.target.value.trim();
+                          if (name && name !== field.name) {
+                            handleUpdateField(field.id, { name });
+                          }
+                        }}
+                      />
+                      <span className="pill">
+                        {FIELD_TYPES.find((type) => type.value === field.type)
+                          ?.label ?? field.type}
+                      </span>
+                    </div>
+                    <div className="inline">
+                      <button
+                        className="ghost"
+                        disabled={index === 0}
+                        onClick={() => handleMoveField(field.id, -1)}
+                        aria-label={`Move ${field.name} up`}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        className="ghost"
+                        disabled={index === fields.length - 1}
+                        onClick={() => handleMoveField(field.id, 1)}
+                        aria-label={`Move ${field.name} down`}
+                      >
+                        ↓
+                      </button>
+                      <button
+                        className="icon-button icon-button--danger"
+                        onClick={() =>
+                          setRemovingField({ id: field.id, purgeValues: false })
+                        }
+                        aria-label={`Delete ${field.name}`}
+                      >
+                        <svg viewBox="0 0 24 24" aria-hidden="true">
+                          <path d="M9 3h6l1 2h4v2H4V5h4l1-2Zm1 6h2v8h-2V9Zm4 0h2v8h-2V9ZM7 9h2v8H7V9Zm-1 12h12a2 2 0 0 0 2-2V7H4v12a2 2 0 0 0 2 2Z" />
+                        </svg>
+                      </button>
+                    </div>
+                    {hasOptions(field.type) && (
+                      <input
+                        key={(field.options ?? []).join(',')}
+                        className="field-settings"
+                        aria-label={`${field.name} options`}
+                        placeholder="Options, separated by commas"
+                        defaultValue={(field.options ?? []).join(', ')}
+                        onBlur={(event) =>
+                          handleUpdateField(field.id, {
+                            options: parseOptions(event.target.value)
+                          })
+                        }
+                      />
+                    )}
+                    {field.type === 'computed' && (
+                      <div className="field-settings">
+                        <input
+                          key={field.formula}
+                          aria-label={`${field.name} formula`}
+                          placeholder="Formula"
+                          defaultValue={field.formula ?? ''}
+                          onBlur={(event) => {
+                            const formula = event.target.value.trim();
+                            if (formula && formula !== field.formula) {
+                              handleUpdateField(field.id, { formula });
+                            }
+                          }}
+                        />
+                        {compiledFields.get(field.id) instanceof Error && (
+                          <p className="field-error">
+                            {(compiledFields.get(field.id) as Error).message}
+                          </p>
+                        )}
+                      </div>
+                    )}
+                    {field.type === 'currency' && (
+                      <input
+                        key={field.currency}
+                        className="field-settings"
+                        aria-label={`${field.name} currency`}
+                        maxLength={3}
+                        defaultValue={field.currency ?? DEFAULT_CURRENCY}
+                        onBlur={(event) =>
+                          handleUpdateField(field.id, {
+                            currency: event.target.value
+                          })
+                        }
+                      />
+                    )}
+                    {removingField?.id === field.id && (
+                      <div className="stack">
+                        <label className="inline">
+                          <input
+                            type="checkbox"
+                            checked={removingField.purgeValues}
+                            onChange={(event) =>
+                              setRemovingField({
+                                id: field.id,
+                                purgeValues: event.target.checked
+                              })
+                            }
+                          />
+                          Also clear its values from every application
+                        </label>
+                        <div className="inline">
+                          <button
+                            className="primary"
+                            onClick={handleDeleteField}
+                          >
+                            Delete {field.name}
+                          </button>
+                          <button
+                            className="ghost"
+                            onClick={() => setRemovingField(null)}
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+                {fields.length === 0 && (
+                  <p className="muted">No custom fields yet.</p>
+                )}
+              </div>
+              {orphanedFields.length > 0 && (
+                <div className="stack">
+                  <p className="muted">
+                    Some applications still hold values for fields that no
+                    longer exist:{' '}
+                    {orphanedFields
+                      .map(
+                        (orphan) =>
+                          `${orphan.id} (${orphan.count} application${
+                            orphan.count === 1 ? '' : 's'
+                          })`
+                      )
+                      .join(', ')}
+                    .
+                  </p>
+                  <button
+                    className="ghost"
+                    onClick={() =>
+                      purgeOrphanedFields(
+                        orphanedFields.map((orphan) => orphan.id)
+                      )
+                    }
+                  >
+                    Clear unused values
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {settingsSection === 'duplicates' && (
+            <div className="detail-section">
+              <h3>Possible duplicates</h3>
+              <p className="muted">
+                Applications with the same company and a similar role. Merging
+                keeps the one you pick and adds the others' notes, tags,
+                custom values, interviews, reminders and timeline to it; the
+                rest move to the trash.
+              </p>
+              {duplicateGroups.length === 0 && (
+                <p className="muted">No likely duplicates.</p>
+              )}
+              <div className="field-list">
+                {duplicateGroups.map((group) => {
+                  const keep = mergeTargets[group[0].id] ?? group[0].id;
+                  return (
+                    <div key={group[0].id} className="field-item stage-item">
+                      <div className="stack">
+                        {group.map((job) => (
+                          <label key={job.id} className="inline">
+                            <input
+                              type="radio"
+                              name={`keep-${group[0].id}`}
+                              checked={keep === job.id}
+                              onChange={() =>
+                                setMergeTargets((prev) => ({
+                                  ...prev,
+                                  [group[0].id]: job.id
+                                }))
+                              }
+                            />
+                            <span>
+                              <strong>
+                                {job.company} – {job.role}
+                              </strong>
+                              <span className="muted">
+                                {' '}
+                                · {getStatusLabel(job.status)}
+                                {job.appliedDate
+                                  ? ` · applied ${job.appliedDate}`
+                                  : ''}
+                                {` · ${job.notes.length} note${
+                                  job.notes.length === 1 ? '' : 's'
+                                }`}
+                              </span>
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                      <div className="inline">
+                        <button
+                          className="primary"
+                          onClick={() => handleMergeDuplicates(group)}
+                        >
+                          Merge into selected
+                        </button>
+                        <button
+                          className="ghost"
+                          onClick={() => handleDismissDuplicates(group)}
+                        >
+                          Not duplicates
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {settingsSection === 'contacts' && (
+            <div className="detail-section">
+              <h3>Contacts</h3>
+              <p className="muted">
+                Recruiters, referrers and interviewers. Link them to
+                applications from the application details.
+              </p>
+              <div className="stack">
+                <input
+                  placeholder="Name"
+                  value={contactDraft.name}
+                  onChange={(event) =>
+                    setContactDraft((prev) => ({
+                      ...prev,
+                      name: event.target.value
+                    }))
+                  }
+                />
+                <select
+                  value={contactDraft.role}
+                  onChange={(event) =>
+                    setContactDraft((prev) => ({
+                      ...prev,
+                      role: event.target.value as ContactRole
+                    }))
+                  }
+                >
+                  {CONTACT_ROLES.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  placeholder="Company"
+                  value={contactDraft.company}
+                  onChange={(event) =>
+                    setContactDraft((prev) => ({
+                      ...prev,
+                      company: event.target.value
+                    }))
+                  }
+                />
+                <input
+                  type="email"
+                  placeholder="Email"
+                  value={contactDraft.email}
+                  onChange={(event) =>
+                    setContactDraft((prev) => ({
+                      ...prev,
+                      email: event.target.value
+                    }))
+                  }
+                />
+                <input
+                  type="tel"
+                  placeholder="Phone"
+                  value={contactDraft.phone}
+                  onChange={(event) =>
+                    setContactDraft((prev) => ({
+                      ...prev,
+                      phone: event.target.value
+                    }))
+                  }
+                />
+                <input
+                  type="url"
+                  placeholder="LinkedIn URL"
+                  value={contactDraft.linkedinUrl}
+                  onChange={(event) =>
+                    setContactDraft((prev) => ({
+                      ...prev,
+                      linkedinUrl: event.target.value
+                    }))
+                  }
+                />
+                <button
+                  className="primary"
+                  disabled={!contactDraft.name.trim()}
+                  onClick={handleSaveContact}
+                >
+                  {editingContactId ? 'Save contact' : 'Add contact'}
+                </button>
+                {editingContactId && (
+                  <button
+                    className="ghost"
+                    onClick={() => {
+                      setEditingContactId(null);
+                      setContactDraft(EMPTY_CONTACT);
+                    }}
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+              {contactNotice && <p className="muted">{contactNotice}</p>}
+              <div className="field-list">
+                {contacts.map((contact) => {
+                  const linked = describeContactJobs(contact);
+                  return (
+                    <div key={contact.id} className="field-item">
+                      <div>
+                        <strong>{contact.name}</strong>
+                        <p className="muted">
+                          {[
+                            contactRoleLabelMap[contact.role],
+                            contact.company,
+                            contact.email,
+                            contact.phone
+                          ]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </p>
+                        {contact.linkedinUrl && (
+                          <a
+                            href={contact.linkedinUrl}
+                            target="_blank"
+                            rel="noreferrer"
+                          >
+                            LinkedIn
+                          </a>
+                        )}
+                        {linked && <p className="muted">{linked}</p>}
+                      </div>
+                      <div className="inline">
+                        <button
+                          className="ghost"
+                          onClick={() => handleEditContact(contact)}
+                        >
+                          Edit
+                        </button>
+                        <button
+                          className="icon-button icon-button--danger"
+                          onClick={() => handleDeleteContact(contact)}
+                          aria-label={`Delete ${contact.name}`}
+                        >
+                          <svg viewBox="0 0 24 24" aria-hidden="true">
+                            <path d="M9 3h6l1 2h4v2H4V5h4l1-2Zm1 6h2v8h-2V9Zm4 0h2v8h-2V9ZM7 9h2v8H7V9Zm-1 12h12a2 2 0 0 0 2-2V7H4v12a2 2 0 0 0 2 2Z" />
+                          </svg>
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+                {contacts.length === 0 && (
+                  <p className="muted">No contacts yet.</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {settingsSection === 'documents' && (
+            <div className="detail-section">
+              <h3>Document Library</h3>
+              <p className="muted">
+                Keep each resume and cover letter version here and attach the
+                one you sent to the application.
+              </p>
+              <div className="stack">
+                <input ref={documentInputRef} type="file" />
+                <select
+                  value={documentKind}
+                  onChange={(event) =>
+                    setDocumentKind(event.target.value as DocumentKind)
+                  }
+                >
+                  {DOCUMENT_KINDS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  placeholder="Version label, e.g. Backend v3"
+                  value={documentVersion}
+                  onChange={(event) => setDocumentVersion(event.target.value)}
+                />
+                <button className="primary" onClick={handleUploadDocument}>
+                  Upload
+                </button>
+              </div>
+              {documentNotice && <p className="muted">{documentNotice}</p>}
+              <div className="field-list">
+                {documents.map((file) => (
+                  <div key={file.id} className="field-item">
+                    <div>
+                      <strong>{describeDocument(file)}</strong>
+                      <p className="muted">
+                        {formatFileSize(file.size)} · uploaded{' '}
+                        {formatTimeline(file.uploadedAt)}
+                      </p>
+                    </div>
+                    <div className="inline">
+                      <button
+                        className="ghost"
+                        onClick={() => handleOpenDocument(file, 'download')}
+                      >
+                        Download
+                      </button>
+                      <button
+                        className="icon-button icon-button--danger"
+                        onClick={() => handleDeleteDocument(file)}
+                        aria-label={`Delete ${file.name}`}
+                      >
+                        <svg viewBox="0 0 24 24" aria-hidden="true">
+                          <path d="M9 3h6l1 2h4v2H4V5h4l1-2Zm1 6h2v8h-2V9Zm4 0h2v8h-2V9ZM7 9h2v8H7V9Zm-1 12h12a2 2 0 0 0 2-2V7H4v12a2 2 0 0 0 2 2Z" />
+                        </svg>
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                {documents.length === 0 && (
+                  <p className="muted">No documents yet.</p>
+                )}
+              </div>
+              <h3>Resume Performance</h3>
+              {resumeReport.length === 0 ? (
+                <p className="muted">
+                  Attach resumes to applications to see which version gets the
+                  most interviews.
+                </p>
+              ) : (
+                <div className="field-list">
+                  {resumeReport.map((report) => (
+                    <div key={report.document.id} className="field-item">
+                      <div>
+                        <strong>{describeDocument(report.document)}</strong>
+                        <p className="muted">
+                          {report.interviews} interview
+                          {report.interviews === 1 ? '' : 's'} from{' '}
+                          {report.applications} application
+                          {report.applications === 1 ? '' : 's'}
+                        </p>
+                      </div>
+                      <span className="pill">
+                        {Math.round(report.rate * 100)}%
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {settingsSection === 'reminders' && (
+            <div className="detail-section">
+              <h3>Reminders</h3>
+              <label>
+                Add a follow-up reminder to new applications after (days)
+                <input
+                  type="number"
+                  min={0}
+                  value={followUpDays}
+                  onChange={(event) => {
+                    const days = Number(event.target.value);
+                    if (!Number.isFinite(days) || days < 0) return;
+                    setFollowUp(days);
+                    setFollowUpDays(days);
+                  }}
+                />
+              </label>
+              <p className="muted">
+                Counted from the applied date. Set to 0 to skip default
+                reminders.
+              </p>
+              <h3>Notifications</h3>
+              {notificationState === 'unsupported' && (
+                <p className="muted">
+                  This browser does not support notifications.
+                </p>
+              )}
+              {notificationState === 'granted' && (
+                <p className="muted">
+                  You will be notified about due reminders while the tracker is
+                  open.
+                </p>
+              )}
+              {notificationState === 'denied' && (
+                <p className="muted">
+                  Notifications are blocked. Allow them in your browser's site
+                  settings.
+                </p>
+              )}
+              {notificationState === 'default' && (
+                <button
+                  className="primary"
+                  onClick={async () =>
+                    setNotificationState(await requestNotifications())
+                  }
+                >
+                  Enable notifications
+                </button>
+              )}
+            </div>
+          )}
+
+          {settingsSection === 'workspaces' && (
+            <div className="detail-section">
+              <h3>Workspaces</h3>
+              <p className="muted">
+                Each workspace keeps its own applications, custom fields and AI
+                settings.
+              </p>
+              <div className="stack">
+                <input
+                  placeholder="Workspace name"
+                  value={workspaceName}
+                  onChange={(event) => setWorkspaceName(event.target.value)}
+                />
+                <button
+                  className="primary"
+                  disabled={!workspaceName.trim()}
+                  onClick={handleCreateWorkspace}
+                >
+                  Create workspace
+                </button>
+              </div>
+              {workspaceNotice && <p className="muted">{workspaceNotice}</p>}
+              <div className="field-list">
+                {workspaces.map((workspace) => (
+                  <div key={workspace.id} className="field-item">
+                    <div>
+                      <strong>{workspace.name}</strong>
+                      {workspace.id === activeId && (
+                        <p className="muted">Open now</p>
+                      )}
+                    </div>
+                    <div className="inline">
+                      {workspace.id !== activeId && (
+                        <button
+                          className="ghost"
+                          onClick={() =>
+                            runWorkspaceTask(() =>
+                              switchWorkspace(workspace.id)
+                            )
+                          }
+                        >
+                          Open
+                        </button>
+                      )}
+                      <button
+                        className="ghost"
+                        onClick={() =>
+                          handleRenameWorkspace(workspace.id, workspace.name)
+                        }
+                      >
+                        Rename
+                      </button>
+                      <button
+                        className="ghost"
+                        onClick={() =>
+                          runWorkspaceTask(() =>
+                            duplicateWorkspace(workspace.id)
+                          )
+                        }
+                      >
+                        Duplicate
+                      </button>
+                      {workspaces.length > 1 && (
+                        <button
+                          className="icon-button icon-button--danger"
+                          onClick={() =>
+                            handleDeleteWorkspace(workspace.id, workspace.name)
+                          }
+                          aria-label={`Delete ${workspace.name}`}
+                        >
+                          <svg viewBox="0 0 24 24" aria-hidden="true">
+                            <path d="M9 3h6l1 2h4v2H4V5h4l1-2Zm1 6h2v8h-2V9Zm4 0h2v8h-2V9ZM7 9h2v8H7V9Zm-1 12h12a2 2 0 0 0 2-2V7H4v12a2 2 0 0 0 2 2Z" />
+                          </svg>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {settingsSection === 'data' && (
+            <div className="detail-section">
+              <h3>Import & Export</h3>
+              <div
                 className={`dropzone ${dragActive ? 'active' : ''}`}
                 onDragOver={(event) => {
                   event.preventDefault();
@@ -701,27 +3022,362 @@ export default function App() {
                 onClick={() => importInputRef.current?.click()}
               >
                 <input
-                  ref={importInputRef}
-                  type="file"
-                  accept=".csv,application/json"
-                  onChange={(event) => handleImportFiles(event.target.files)}
+                  ref={importInputRef}
+                  type="file"
+                  accept=".csv,application/json"
+                  onChange={(event) => handleImportFiles(event.target.files)}
+                />
+                <p>
+                  Drop a CSV or JSON file here, or click to browse.
+                </p>
+                <span className="muted">
+                  Required columns: company, role. Optional: status, appliedDate,
+                  tags (separated by ;), notes, and one column per custom field.
+                </span>
+              </div>
+              <label className="inline">
+                <input
+                  type="checkbox"
+                  checked={skipDuplicates}
+                  onChange={(event) => setSkipDuplicates(event.target.checked)}
+                />
+                Skip rows that look like applications already tracked
+              </label>
+              {importNotice && <p className="muted">{importNotice}</p>}
+              <label className="inline">
+                <input
+                  type="checkbox"
+                  checked={exportShownOnly}
+                  onChange={(event) => setExportShownOnly(event.target.checked)}
+                />
+                Export only the applications the list shows, in its order
+              </label>
+              <div className="stack">
+                <button className="primary" onClick={handleExportJson}>
+                  Download JSON export
+                </button>
+                <button className="ghost" onClick={handleExportCsv}>
+                  Download CSV export
+                </button>
+                <button className="ghost" onClick={handleDownloadTemplate}>
+                  Download CSV template
+                </button>
+              </div>
+
+              <h3>Snapshots</h3>
+              <p className="muted">
+                Taken automatically every day and before imports and AI
+                changes.
+              </p>
+              {snapshotNotice && <p className="muted">{snapshotNotice}</p>}
+              {snapshots.length === 0 && (
+                <p className="muted">No snapshots yet.</p>
+              )}
+              <div className="field-list">
+                {snapshots.map((snapshot) => (
+                  <div key={snapshot.id} className="field-item">
+                    <div>
+                      <strong>{SNAPSHOT_LABELS[snapshot.reason]}</strong>
+                      <p className="muted">
+                        {formatTimeline(snapshot.createdAt)}
+                      </p>
+                      <p className="muted">{describeSnapshotDiff(snapshot)}</p>
+                    </div>
+                    <button
+                      className="ghost"
+                      onClick={() => handleRestoreSnapshot(snapshot)}
+                    >
+                      Restore
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <h3>Recovery</h3>
+              {recoveryEntries.length === 0 && (
+                <p className="muted">No damaged data found.</p>
+              )}
+              <div className="field-list">
+                {recoveryEntries.map((entry) => (
+                  <div key={entry.id} className="recovery-item">
+                    <div>
+                      <strong>
+                        {entry.source === 'jobs'
+                          ? 'Applications'
+                          : 'Custom fields'}
+                      </strong>
+                      <p className="muted">
+                        {entry.origin} · {formatTimeline(entry.quarantinedAt)}
+                      </p>
+                    </div>
+                    <p className="muted">
+                      {entry.source === 'jobs'
+                        ? `Salvaged ${entry.salvaged} application${
+                            entry.salvaged === 1 ? '' : 's'
+                          }. `
+                        : ''}
+                      {entry.problems.length} problem
+                      {entry.problems.length === 1 ? '' : 's'} found:
+                    </p>
+                    <ul className="recovery-problems">
+                      {entry.problems.map((problem, index) => (
+                        <li key={index}>{problem}</li>
+                      ))}
+                    </ul>
+                    <div className="inline">
+                      <button
+                        className="ghost"
+                        onClick={() => handleDownloadRecovery(entry)}
+                      >
+                        Download raw data
+                      </button>
+                      <button
+                        className="ghost"
+                        onClick={() => dismissRecoveryEntry(entry.id)}
+                      >
+                        Dismiss
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {settingsSection === 'sync' && (
+            <div className="detail-section">
+              <h3>Sync</h3>
+              <p className="muted">
+                Keep this workspace in step across devices through your own
+                sync server. See server/README.md for the protocol.
+              </p>
+              <label>
+                Server URL
+                <input
+                  placeholder="https://sync.example.com/my-search"
+                  value={syncSettings.endpoint}
+                  onChange={(event) =>
+                    setSyncSettings((prev) => ({
+                      ...prev,
+                      endpoint: event.target.value
+                    }))
+                  }
+                />
+              </label>
+              <label>
+                Access token
+                <input
+                  type="password"
+                  placeholder="Optional"
+                  value={syncSettings.token}
+                  onChange={(event) =>
+                    setSyncSettings((prev) => ({
+                      ...prev,
+                      token: event.target.value
+                    }))
+                  }
+                />
+              </label>
+              <div className="theme-row">
+                <span>Sync enabled</span>
+                <label className="switch">
+                  <input
+                    type="checkbox"
+                    checked={syncSettings.enabled}
+                    onChange={(event) =>
+                      setSyncSettings((prev) => ({
+                        ...prev,
+                        enabled: event.target.checked
+                      }))
+                    }
+                    aria-label="Toggle sync"
+                  />
+                  <span className="slider" />
+                </label>
+              </div>
+              <div className="stack">
+                <button
+                  className="primary"
+                  disabled={syncSettings.enabled && !syncSettings.endpoint.trim()}
+                  onClick={() => saveSyncSettings(syncSettings)}
+                >
+                  Save sync settings
+                </button>
+                <button
+                  className="ghost"
+                  disabled={syncStatus?.state === 'off'}
+                  onClick={() => syncNow()}
+                >
+                  Sync now
+                </button>
+              </div>
+              {syncStatus && (
+                <p className="muted">{describeSyncStatus(syncStatus)}</p>
+              )}
+              {syncStatus?.message && (
+                <p className="muted">{syncStatus.message}</p>
+              )}
+            </div>
+          )}
+
+          {settingsSection === 'security' && (
+            <div className="detail-section">
+              <h3>Workspace Lock</h3>
+              {lockState === 'disabled' ? (
+                <>
+                  <p className="muted">
+                    Encrypt your applications, custom fields and AI settings
+                    with a passphrase. It cannot be recovered if you forget it.
+                  </p>
+                  <input
+                    type="password"
+                    placeholder="New passphrase"
+                    value={passphrase}
+                    onChange={(event) => setPassphrase(event.target.value)}
+                  />
+                  <input
+                    type="password"
+                    placeholder="Repeat passphrase"
+                    value={passphraseConfirm}
+                    onChange={(event) =>
+                      setPassphraseConfirm(event.target.value)
+                    }
+                  />
+                  <button
+                    className="primary"
+                    disabled={securityBusy}
+                    onClick={handleEnableLock}
+                  >
+                    Lock with passphrase
+                  </button>
+                </>
+              ) : (
+                <>
+                  <p className="muted">
+                    Your data is encrypted. The tracker asks for the passphrase
+                    when it opens.
+                  </p>
+                  <button className="primary" onClick={lockWorkspace}>
+                    Lock now
+                  </button>
+                  <label>
+                    Lock after inactivity (minutes, 0 = never)
+                    <input
+                      type="number"
+                      min={0}
+                      value={autoLock}
+                      onChange={(event) => {
+                        const minutes = Number(event.target.value);
+                        if (!Number.isFinite(minutes) || minutes < 0) return;
+                        setAutoLock(minutes);
+                        setAutoLockMinutes(minutes);
+                      }}
+                    />
+                  </label>
+                  <h3>Change Passphrase</h3>
+                  <input
+                    type="password"
+                    placeholder="Current passphrase"
+                    value={currentPassphrase}
+                    onChange={(event) =>
+                      setCurrentPassphrase(event.target.value)
+                    }
+                  />
+                  <input
+                    type="password"
+                    placeholder="New passphrase"
+                    value={passphrase}
+                    onChange={(event) => setPassphrase(event.target.value)}
+                  />
+                  <input
+                    type="password"
+                    placeholder="Repeat new passphrase"
+                    value={passphraseConfirm}
+                    onChange={(event) =>
+                      setPassphraseConfirm(event.target.value)
+                    }
+                  />
+                  <div className="stack">
+                    <button
+                      className="primary"
+                      disabled={securityBusy}
+                      onClick={handleChangePassphrase}
+                    >
+                      Change passphrase
+                    </button>
+                    <button
+                      className="ghost"
+                      disabled={securityBusy || !currentPassphrase}
+                      onClick={handleDisableLock}
+                    >
+                      Remove passphrase
+                    </button>
+                  </div>
+                </>
+              )}
+              {securityNotice && <p className="muted">{securityNotice}</p>}
+            </div>
+          )}
+
+          {settingsSection === 'trash' && (
+            <div className="detail-section">
+              <h3>Trash</h3>
+              <label>
+                Keep deleted applications for (days)
+                <input
+                  type="number"
+                  min={1}
+                  value={trashRetention}
+                  onChange={(event) => {
+                    const days = Number(event.target.value);
+                    if (!Number.isFinite(days) || days < 1) return;
+                    setTrashRetention(days);
+                    setTrashRetentionDays(days);
+                  }}
                 />
-                <p>
-                  Drop a CSV or JSON file here, or click to browse.
-                </p>
-                <span className="muted">
-                  Required columns: company, role. Optional: status, appliedDate, note.
-                </span>
+              </label>
+              <p className="muted">
+                Applications older than this are removed for good the next time
+                the tracker opens.
+              </p>
+              <div className="field-list">
+                {trashJobs.map((job) => (
+                  <div key={job.id} className="field-item">
+                    <div>
+                      <strong>{job.company}</strong>
+                      <p className="muted">
+                        {job.role} · deleted{' '}
+                        {formatTimeline(job.deletedAt ?? '')}
+                      </p>
+                    </div>
+                    <div className="inline">
+                      <button
+                        className="ghost"
+                        onClick={() => restoreJob(job.id)}
+                      >
+                        Restore
+                      </button>
+                      <button
+                        className="icon-button icon-button--danger"
+                        onClick={() => handlePurgeJob(job)}
+                        aria-label="Delete permanently"
+                      >
+                        <svg viewBox="0 0 24 24" aria-hidden="true">
+                          <path d="M9 3h6l1 2h4v2H4V5h4l1-2Zm1 6h2v8h-2V9Zm4 0h2v8h-2V9ZM7 9h2v8H7V9Zm-1 12h12a2 2 0 0 0 2-2V7H4v12a2 2 0 0 0 2 2Z" />
+                        </svg>
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                {trashJobs.length === 0 && (
+                  <p className="muted">Trash is empty.</p>
+                )}
               </div>
-              {importNotice && <p className="muted">{importNotice}</p>}
-              <div className="stack">
-                <button className="primary" onClick={handleExportJson}>
-                  Download JSON export
-                </button>
-                <button className="ghost" onClick={handleDownloadTemplate}>
-                  Download CSV template
+              {trashJobs.length > 0 && (
+                <button className="ghost" onClick={handleEmptyTrash}>
+                  Empty trash
                 </button>
-              </div>
+              )}
             </div>
           )}
 
@@ -811,9 +3467,121 @@ export default function App() {
               <div>
                 <h2>Applications</h2>
                 <p className="muted">{jobCountLabel}</p>
+                {recoveryEntries.length > 0 && (
+                  <button
+                    className="link-button"
+                    onClick={() => {
+                      setSettingsSection('data');
+                      setSidebarOpen(true);
+                    }}
+                  >
+                    Some saved data was damaged. Review recovery.
+                  </button>
+                )}
               </div>
             </div>
 
+            {upcoming.length > 0 && (
+              <div className="upcoming-strip" aria-label="Upcoming interviews">
+                {upcoming.map(({ job, round }) => (
+                  <button
+                    key={round.id}
+                    className="upcoming-item"
+                    data-status={job.status}
+                    style={getStatusStyle(job.status)}
+                    onClick={() => setExpandedId(job.id)}
+                  >
+                    <span className="upcoming-time">
+                      {formatInterviewTime(round.scheduledAt ?? '')}
+                    </span>
+                    <strong>{job.company}</strong>
+                    <span className="muted">
+                      {interviewTypeLabel(round.type)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {due.length > 0 && (
+              <div className="due-list" aria-label="Due today and overdue">
+                <h3>Due today / overdue</h3>
+                {due.map((item) => (
+                  <div
+                    key={item.task.id}
+                    className="due-item"
+                    data-overdue={item.overdue ? 'true' : 'false'}
+                  >
+                    <button
+                      className="link-button"
+                      onClick={() => setExpandedId(item.job.id)}
+                    >
+                      <strong>{item.job.company}</strong> · {item.task.title}
+                    </button>
+                    <span className="muted">{describeDue(item)}</span>
+                    <div className="inline">
+                      <button
+                        className="ghost"
+                        onClick={() =>
+                          runAction(() =>
+                            completeTask(item.job.id, item.task.id)
+                          )
+                        }
+                      >
+                        Done
+                      </button>
+                      <select
+                        value=""
+                        aria-label="Snooze"
+                        onChange={(event) => {
+                          const days = Number(event.target.value);
+                          if (days > 0) {
+                            runAction(() =>
+                              snoozeTask(item.job.id, item.task.id, days, today)
+                            );
+                          }
+                        }}
+                      >
+                        <option value="">Snooze...</option>
+                        {SNOOZE_OPTIONS.map((option) => (
+                          <option key={option.days} value={option.days}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {conflicts.length > 0 && (
+              <div className="conflict-list">
+                {conflicts.map((conflict, index) => (
+                  <div key={`${conflict.id}-${index}`} className="conflict-item">
+                    <span>{describeConflict(conflict)}</span>
+                    <button
+                      className="icon-button"
+                      onClick={() =>
+                        setConflicts((prev) =>
+                          prev.filter((_, position) => position !== index)
+                        )
+                      }
+                      aria-label="Dismiss"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <datalist id="tag-options">
+              {allTags.map((tag) => (
+                <option key={tag.name} value={tag.name} />
+              ))}
+            </datalist>
+
             <div className="filter-row">
               <div className="filter-chips">
                 <button
@@ -826,18 +3594,19 @@ export default function App() {
                   All
                   <span className="chip-count">{statusCounts.all}</span>
                 </button>
-                {statusOptions.map((option) => (
+                {pipeline.map((stage) => (
                   <button
-                    key={option.value}
+                    key={stage.id}
                     className={`filter-chip ${
-                      statusFilter === option.value ? 'active' : ''
+                      statusFilter === stage.id ? 'active' : ''
                     }`}
-                    data-status={option.value}
-                    onClick={() => setStatusFilter(option.value)}
+                    data-status={stage.id}
+                    style={getStatusStyle(stage.id)}
+                    onClick={() => setStatusFilter(stage.id)}
                   >
                     <span className="status-dot" />
-                    {option.label}
-                    <span className="chip-count">{statusCounts[option.value]}</span>
+                    {stage.label}
+                    <span className="chip-count">{statusCounts[stage.id]}</span>
                   </button>
                 ))}
               </div>
@@ -853,6 +3622,22 @@ export default function App() {
                     onChange={(event) => setSearchQuery(event.target.value)}
                   />
                 </label>
+                {allTags.length > 0 && (
+                  <div className="sort-select">
+                    <span>Tag</span>
+                    <select
+                      value={tagFilter}
+                      onChange={(event) => setTagFilter(event.target.value)}
+                    >
+                      <option value="">All</option>
+                      {allTags.map((tag) => (
+                        <option key={tag.name} value={tag.name}>
+                          {tag.name} ({tag.count})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
                 <div className="sort-select">
                   <span>Sort</span>
                   <select
@@ -866,8 +3651,31 @@ export default function App() {
                         {option.label}
                       </option>
                     ))}
+                    {fields
+                      .filter((field) => field.type === 'computed')
+                      .map((field) => (
+                        <option key={field.id} value={`field:${field.id}`}>
+                          {field.name}
+                        </option>
+                      ))}
                   </select>
                 </div>
+                <label
+                  className={`sort-select ${
+                    filterFormula instanceof Error ? 'invalid' : ''
+                  }`}
+                >
+                  <span>Where</span>
+                  <input
+                    placeholder="days_since(appliedDate) > 14"
+                    aria-label="Filter by formula"
+                    value={formulaFilter}
+                    onChange={(event) => setFormulaFilter(event.target.value)}
+                  />
+                </label>
+                {filterFormula instanceof Error && (
+                  <span className="field-error">{filterFormula.message}</span>
+                )}
               </div>
             </div>
 
@@ -882,7 +3690,11 @@ export default function App() {
                 value={formRole}
                 onChange={(event) => setFormRole(event.target.value)}
               />
-              <div className="status-select" data-status={formStatus}>
+              <div
+                className="status-select"
+                data-status={formStatus}
+                style={getStatusStyle(formStatus)}
+              >
                 <span className="status-dot" />
                 <span className="status-label">{getStatusLabel(formStatus)}</span>
                 <select
@@ -891,9 +3703,9 @@ export default function App() {
                     setFormStatus(event.target.value as JobStatus)
                   }
                 >
-                  {statusOptions.map((option) => (
-                    <option key={option.value} value={option.value}>
-                      {option.label}
+                  {pipeline.map((stage) => (
+                    <option key={stage.id} value={stage.id}>
+                      {stage.label}
                     </option>
                   ))}
                 </select>
@@ -903,10 +3715,158 @@ export default function App() {
                 value={formDate}
                 onChange={(event) => setFormDate(event.target.value)}
               />
-              <button className="primary" onClick={handleAddJob}>
+              <button className="primary" onClick={() => handleAddJob()}>
                 Add
               </button>
             </div>
+            {duplicateWarning && (
+              <div className="status-prompt">
+                <p>
+                  This looks like{' '}
+                  {duplicateWarning
+                    .map(
+                      (job) =>
+                        `${job.company} – ${job.role} (${getStatusLabel(
+                          job.status
+                        )})`
+                    )
+                    .join(', ')}
+                  , which you already track.
+                </p>
+                <div className="inline">
+                  <button
+                    className="primary"
+                    onClick={() => handleAddJob(true)}
+                  >
+                    Add anyway
+                  </button>
+                  <button
+                    className="ghost"
+                    onClick={() => {
+                      setExpandedId(duplicateWarning[0].id);
+                      setDuplicateWarning(null);
+                    }}
+                  >
+                    Open existing
+                  </button>
+                  <button
+                    className="ghost"
+                    onClick={() => setDuplicateWarning(null)}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {sortedJobs.length > 0 && (
+              <div className="bulk-bar">
+                <label className="inline">
+                  <input
+                    type="checkbox"
+                    checked={allShownSelected}
+                    onChange={handleSelectAll}
+                  />
+                  {selectedJobs.length > 0
+                    ? `${selectedJobs.length} selected`
+                    : `Select all ${sortedJobs.length} shown`}
+                </label>
+                {selectedJobs.length > 0 && (
+                  <div className="bulk-actions">
+                    <select
+                      aria-label="Set status"
+                      value=""
+                      onChange={(event) => {
+                        const status = event.target.value;
+                        void runBulkAction((ids) =>
+                          bulkSetStatus(ids, status)
+                        );
+                      }}
+                    >
+                      <option value="">Set status…</option>
+                      {pipeline.map((stage) => (
+                        <option key={stage.id} value={stage.id}>
+                          {stage.label}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="inline">
+                      <input
+                        placeholder="Tag"
+                        list="bulk-tags"
+                        value={bulkTag}
+                        onChange={(event) => setBulkTag(event.target.value)}
+                      />
+                      <datalist id="bulk-tags">
+                        {allTags.map((tag) => (
+                          <option key={tag.name} value={tag.name} />
+                        ))}
+                      </datalist>
+                      <button
+                        className="ghost"
+                        onClick={() => handleBulkTag(false)}
+                      >
+                        Add tag
+                      </button>
+                      <button
+                        className="ghost"
+                        onClick={() => handleBulkTag(true)}
+                      >
+                        Remove tag
+                      </button>
+                    </div>
+                    {inputFields.length > 0 && (
+                      <div className="inline">
+                        <select
+                          aria-label="Field"
+                          value={bulkFieldId}
+                          onChange={(event) =>
+                            setBulkFieldId(event.target.value)
+                          }
+                        >
+                          <option value="">Set field…</option>
+                          {inputFields.map((field) => (
+                            <option key={field.id} value={field.id}>
+                              {field.name}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          placeholder="Value (blank clears it)"
+                          value={bulkValue}
+                          onChange={(event) => setBulkValue(event.target.value)}
+                        />
+                        <button
+                          className="ghost"
+                          disabled={!bulkFieldId}
+                          onClick={handleBulkValue}
+                        >
+                          Apply
+                        </button>
+                      </div>
+                    )}
+                    {archiveStage(pipeline) && (
+                      <button
+                        className="ghost"
+                        onClick={() => runBulkAction(bulkArchive)}
+                      >
+                        Archive
+                      </button>
+                    )}
+                    <button className="ghost" onClick={handleBulkDelete}>
+                      Move to trash
+                    </button>
+                    <button
+                      className="ghost"
+                      onClick={() => setSelectedIds(new Set())}
+                    >
+                      Clear selection
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+            {bulkNotice && <p className="muted">{bulkNotice}</p>}
 
             <div className="job-list">
               {sortedJobs.map((job) => {
@@ -919,25 +3879,72 @@ export default function App() {
                       new Date(a.createdAt).getTime()
                   )
                   .slice(0, 8);
-                const latestNote =
-                  job.notes && job.notes.length > 0
-                    ? job.notes[job.notes.length - 1]
-                    : '';
+                const jobTasks = openTasks(job);
+                const eventDraft = eventDrafts[job.id] ?? {
+                  label: '',
+                  date: today
+                };
+                const taskDraft = taskDrafts[job.id] ?? {
+                  title: '',
+                  dueDate: addDays(today, 7)
+                };
+                const jobDocuments = documentsForJob(documents, job);
+                const otherDocuments = documents.filter(
+                  (file) => !job.documentIds?.includes(file.id)
+                );
+                const jobContacts = contactsForJob(contacts, job.id);
+                const otherContacts = contacts.filter(
+                  (contact) => !contact.jobIds.includes(job.id)
+                );
+                const contactDraftForJob = jobContactDrafts[job.id] ?? EMPTY_CONTACT;
 
                 return (
                   <div
                     key={job.id}
                     className="job-card"
                     data-status={job.status}
+                    style={getStatusStyle(job.status)}
                     data-open={isOpen ? 'true' : 'false'}
+                    data-selected={selectedIds.has(job.id) ? 'true' : 'false'}
                   >
                     <div className="job-main">
-                      <div>
-                        <div className="job-company">{job.company}</div>
-                        <div className="job-role">{job.role}</div>
+                      <div className="job-heading">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${job.company}`}
+                          checked={selectedIds.has(job.id)}
+                          onChange={(event) =>
+                            handleSelectJob(
+                              job.id,
+                              (event.nativeEvent as MouseEvent).shiftKey
+                            )
+                          }
+                        />
+                        <div>
+                          <div className="job-company">{job.company}</div>
+                          <div className="job-role">{job.role}</div>
+                          {job.tags.length > 0 && (
+                            <div className="chips">
+                              {job.tags.map((tag) => (
+                                <button
+                                  key={tag}
+                                  className="chip tag-chip"
+                                  style={getTagStyle(tag)}
+                                  onClick={() => setTagFilter(tag)}
+                                >
+                                  {tag}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
                       </div>
                       <div className="job-controls">
-                        <div className="status-select" data-status={job.status}>
+                        <div
+                          className="status-select"
+                          data-status={job.status}
+                          style={getStatusStyle(job.status)}
+                        >
                           <span className="status-dot" />
                           <span className="status-label">
                             {getStatusLabel(job.status)}
@@ -945,14 +3952,18 @@ export default function App() {
                           <select
                             value={job.status}
                             onChange={(event) =>
-                              setStatus(job.id, event.target.value as JobStatus)
+                              handleStatusChange(job, event.target.value)
                             }
                           >
-                            {statusOptions.map((option) => (
-                              <option key={option.value} value={option.value}>
-                                {option.label}
-                              </option>
-                            ))}
+                            {pipeline
+                              .filter((stage) =>
+                                canMoveTo(pipeline, job.status, stage.id)
+                              )
+                              .map((stage) => (
+                                <option key={stage.id} value={stage.id}>
+                                  {stage.label}
+                                </option>
+                              ))}
                           </select>
                         </div>
                         <input
@@ -964,30 +3975,77 @@ export default function App() {
                         />
                         <button
                           className="ghost"
-                          onClick={() =>
-                            {
-                              setExpandedId(
-                                expandedId === job.id ? null : job.id
-                              );
-                              setNoteEditingId(null);
-                            }
-                          }
+                          onClick={() => {
+                            setExpandedId(
+                              expandedId === job.id ? null : job.id
+                            );
+                            setNoteEditing(null);
+                          }}
                         >
                           {expandedId === job.id ? 'Hide' : 'Details'}
                         </button>
                       </div>
                     </div>
 
+                    {statusPrompt?.jobId === job.id && (
+                      <form
+                        className="status-prompt"
+                        onSubmit={(event) => {
+                          event.preventDefault();
+                          handleConfirmStatus(job);
+                        }}
+                      >
+                        {missingFields(
+                          pipeline,
+                          fields,
+                          job,
+                          statusPrompt.status
+                        ).map((field) => (
+                          <div key={field.id} className="custom-field">
+                            <span>{field.name}</span>
+                            <CustomFieldInput
+                              field={field}
+                              value={statusPrompt.values[field.id]}
+                              onChange={(value) =>
+                                setStatusPrompt({
+                                  ...statusPrompt,
+                                  values: {
+                                    ...statusPrompt.values,
+                                    [field.id]: value
+                                  }
+                                })
+                              }
+                            />
+                          </div>
+                        ))}
+                        {statusPrompt.error && (
+                          <p className="muted">{statusPrompt.error}</p>
+                        )}
+                        <div className="inline">
+                          <button className="primary" type="submit">
+                            Move to {getStatusLabel(statusPrompt.status)}
+                          </button>
+                          <button
+                            className="ghost"
+                            type="button"
+                            onClick={() => setStatusPrompt(null)}
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </form>
+                    )}
+
                     <div className="job-details">
                       <div className="detail-toolbar">
                         <p className="muted">
                           Last updated{' '}
-                          {formatTimeline(job.updatedAt ?? job.createdAt)}
+                          {formatTimeline(job.updatedAt ?? job.createdAt ?? '')}
                         </p>
                         <button
                           className="icon-button icon-button--danger"
                           onClick={() => handleDeleteJob(job.id)}
-                          aria-label="Delete application"
+                          aria-label="Move application to trash"
                         >
                           <svg viewBox="0 0 24 24" aria-hidden="true">
                             <path d="M9 3h6l1 2h4v2H4V5h4l1-2Zm1 6h2v8h-2V9Zm4 0h2v8h-2V9ZM7 9h2v8H7V9Zm-1 12h12a2 2 0 0 0 2-2V7H4v12a2 2 0 0 0 2 2Z" />
@@ -998,84 +4056,723 @@ export default function App() {
                         <div className="details-left">
                           <div className="note-panel">
                             <div className="note-header">
-                              <h3>Note</h3>
-                              {latestNote ? (
-                                <span className="muted">Tap to edit</span>
-                              ) : (
-                                <span className="muted">Add a note</span>
-                              )}
+                              <h3>Notes</h3>
+                              <span className="muted">Markdown supported</span>
+                            </div>
+                            <textarea
+                              rows={3}
+                              value={noteDrafts[job.id] ?? ''}
+                              placeholder="Write a note..."
+                              onChange={(event) =>
+                                setNoteDrafts((prev) => ({
+                                  ...prev,
+                                  [job.id]: event.target.value
+                                }))
+                              }
+                            />
+                            <div className="note-actions">
+                              <button
+                                className="primary"
+                                onClick={() => handleAddNote(job)}
+                              >
+                                Add note
+                              </button>
+                            </div>
+                            {job.notes.length > 0 && (
+                              <div className="notes">
+                                {sortNotes(job.notes).map((note) =>
+                                  noteEditing?.noteId === note.id ? (
+                                    <div key={note.id} className="note">
+                                      <textarea
+                                        rows={4}
+                                        value={noteEditing.body}
+                                        onChange={(event) =>
+                                          setNoteEditing({
+                                            ...noteEditing,
+                                            body: event.target.value
+                                          })
+                                        }
+                                      />
+                                      <div className="note-actions">
+                                        <button
+                                          className="primary"
+                                          onClick={() => handleSaveNote(job)}
+                                        >
+                                          Save
+                                        </button>
+                                        <button
+                                          className="ghost"
+                                          onClick={() => setNoteEditing(null)}
+                                        >
+                                          Cancel
+                                        </button>
+                                      </div>
+                                    </div>
+                                  ) : (
+                                    <div
+                                      key={note.id}
+                                      className="note"
+                                      data-pinned={
+                                        note.pinned ? 'true' : 'false'
+                                      }
+                                    >
+                                      <div className="note-header">
+                                        <span className="muted">
+                                          {note.pinned ? 'Pinned · ' : ''}
+                                          {SOURCE_LABELS[note.source]}
+                                          {' · '}
+                                          {formatTimeline(note.createdAt)}
+                                          {note.updatedAt !== note.createdAt
+                                            ? ' · edited'
+                                            : ''}
+                                        </span>
+                                        <div className="note-actions">
+                                          <button
+                                            className="ghost"
+                                            onClick={() =>
+                                              pinNote(
+                                                job.id,
+                                                note.id,
+                                                !note.pinned
+                                              )
+                                            }
+                                          >
+                                            {note.pinned ? 'Unpin' : 'Pin'}
+                                          </button>
+                                          <button
+                                            className="ghost"
+                                            onClick={() =>
+                                              setNoteEditing({
+                                                jobId: job.id,
+                                                noteId: note.id,
+                                                body: note.body
+                                              })
+                                            }
+                                          >
+                                            Edit
+                                          </button>
+                                          <button
+                                            className="ghost"
+                                            onClick={() =>
+                                              deleteNote(job.id, note.id)
+                                            }
+                                          >
+                                            Delete
+                                          </button>
+                                        </div>
+                                      </div>
+                                      <div
+                                        className="note-body"
+                                        dangerouslySetInnerHTML={{
+                                          __html: renderMarkdown(note.body)
+                                        }}
+                                      />
+                                    </div>
+                                  )
+                                )}
+                              </div>
+                            )}
+                          </div>
+
+                          <div className="detail-block tag-panel">
+                            <h3>Tags</h3>
+                            {job.tags.length > 0 && (
+                              <div className="chips">
+                                {job.tags.map((tag) => (
+                                  <span
+                                    key={tag}
+                                    className="chip tag-chip"
+                                    style={getTagStyle(tag)}
+                                  >
+                                    {tag}
+                                    <button
+                                      className="icon-button"
+                                      onClick={() => removeTag(job.id, tag)}
+                                      aria-label={`Remove tag ${tag}`}
+                                    >
+                                      ×
+                                    </button>
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+                            <form
+                              className="inline"
+                              onSubmit={(event) => {
+                                event.preventDefault();
+                                handleAddTag(job);
+                              }}
+                            >
+                              <input
+                                list="tag-options"
+                                placeholder="remote, referral..."
+                                value={tagDrafts[job.id] ?? ''}
+                                onChange={(event) =>
+                                  setTagDrafts((prev) => ({
+                                    ...prev,
+                                    [job.id]: event.target.value
+                                  }))
+                                }
+                              />
+                              <button
+                                className="ghost"
+                                type="submit"
+                                disabled={!tagDrafts[job.id]?.trim()}
+                              >
+                                Add
+                              </button>
+                            </form>
+                          </div>
+
+                          <div className="detail-block task-panel">
+                            <h3>Reminders</h3>
+                            {jobTasks.length === 0 && (
+                              <p className="muted">No open reminders.</p>
+                            )}
+                            {jobTasks.map((task) => (
+                              <div
+                                key={task.id}
+                                className="contact-item"
+                                data-overdue={
+                                  task.dueDate < today ? 'true' : 'false'
+                                }
+                              >
+                                <div>
+                                  <strong>{task.title}</strong>
+                                  <p className="muted">Due {task.dueDate}</p>
+                                </div>
+                                <div className="inline">
+                                  <button
+                                    className="ghost"
+                                    onClick={() =>
+                                      runAction(() =>
+                                        completeTask(job.id, task.id)
+                                      )
+                                    }
+                                  >
+                                    Done
+                                  </button>
+                                  <button
+                                    className="ghost"
+                                    onClick={() =>
+                                      runAction(() =>
+                                        snoozeTask(job.id, task.id, 1, today)
+                                      )
+                                    }
+                                  >
+                                    Snooze
+                                  </button>
+                                  <button
+                                    className="icon-button"
+                                    onClick={() =>
+                                      runAction(() =>
+                                        deleteTask(job.id, task.id)
+                                      )
+                                    }
+                                    aria-label={`Remove ${task.title}`}
+                                  >
+                                    ×
+                                  </button>
+                                </div>
+                              </div>
+                            ))}
+                            <div className="inline">
+                              <input
+                                placeholder="Send thank-you note..."
+                                value={taskDraft.title}
+                                onChange={(event) =>
+                                  setTaskDrafts((prev) => ({
+                                    ...prev,
+                                    [job.id]: {
+                                      ...taskDraft,
+                                      title: event.target.value
+                                    }
+                                  }))
+                                }
+                              />
+                              <input
+                                type="date"
+                                value={taskDraft.dueDate}
+                                onChange={(event) =>
+                                  setTaskDrafts((prev) => ({
+                                    ...prev,
+                                    [job.id]: {
+                                      ...taskDraft,
+                                      dueDate: event.target.value
+                                    }
+                                  }))
+                                }
+                              />
+                              <button
+                                className="ghost"
+                                disabled={
+                                  !taskDraft.title.trim() || !taskDraft.dueDate
+                                }
+                                onClick={() => handleAddTask(job)}
+                              >
+                                Add
+                              </button>
+                            </div>
+                          </div>
+
+                          <div className="detail-block interview-panel">
+                            <div className="note-header">
+                              <h3>Interviews</h3>
+                              <button
+                                className="ghost"
+                                onClick={() =>
+                                  addInterview(job.id, { type: 'phone_screen' })
+                                }
+                              >
+                                Add round
+                              </button>
                             </div>
-                            {noteEditingId === job.id ? (
-                              <>
+                            {(job.interviews ?? []).length === 0 && (
+                              <p className="muted">No interview rounds yet.</p>
+                            )}
+                            {(job.interviews ?? []).map((round) => (
+                              <div
+                                key={`${round.id}-${round.updatedAt}`}
+                                className="interview-round"
+                                data-outcome={round.outcome}
+                              >
+                                <div className="inline">
+                                  <select
+                                    value={round.type}
+                                    onChange={(event) =>
+                                      updateInterview(job.id, round.id, {
+                                        type: event.target
+                                          .value as InterviewType
+                                      })
+                                    }
+                                  >
+                                    {INTERVIEW_TYPES.map((option) => (
+                                      <option
+                                        key={option.value}
+                                        value={option.value}
+                                      >
+                                        {option.label}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <select
+                                    value={round.outcome}
+                                    onChange={(event) =>
+                                      updateInterview(job.id, round.id, {
+                                        outcome: event.target
+                                          .value as InterviewOutcome
+                                      })
+                                    }
+                                  >
+                                    {INTERVIEW_OUTCOMES.map((option) => (
+                                      <option
+                                        key={option.value}
+                                        value={option.value}
+                                      >
+                                        {option.label}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <button
+                                    className="icon-button"
+                                    onClick={() =>
+                                      deleteInterview(job.id, round.id)
+                                    }
+                                    aria-label="Remove interview round"
+                                  >
+                                    ×
+                                  </button>
+                                </div>
+                                <div className="inline">
+                                  <input
+                                    type="datetime-local"
+                                    defaultValue={toDateTimeInput(
+                                      round.scheduledAt
+                                    )}
+                                    onBlur={(event) => {
+                                      const value = event.target.value;
+                                      if (
+                                        value !==
+                                        toDateTimeInput(round.scheduledAt)
+                                      ) {
+                                        updateInterview(job.id, round.id, {
+                                          scheduledAt: value || null
+                                        });
+                                      }
+                                    }}
+                                  />
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    placeholder="Minutes"
+                                    defaultValue={round.durationMinutes ?? ''}
+                                    onBlur={(event) => {
+                                      const raw = event.target.value;
+                                      const minutes = raw ? Number(raw) : null;
+                                      if (
+                                        minutes !==
+                                        (round.durationMinutes ?? null)
+                                      ) {
+                                        updateInterview(job.id, round.id, {
+                                          durationMinutes: minutes
+                                        });
+                                      }
+                                    }}
+                                  />
+                                </div>
+                                <input
+                                  placeholder="Interviewers, comma separated"
+                                  defaultValue={round.interviewers.join(', ')}
+                                  onBlur={(event) => {
+                                    const names = event.target.value
+                                      .split(',')
+                                      .map((name) => name.trim())
+                                      .filter(Boolean);
+                                    if (
+                                      names.join(',') !==
+                                      round.interviewers.join(',')
+                                    ) {
+                                      updateInterview(job.id, round.id, {
+                                        interviewers: names
+                                      });
+                                    }
+                                  }}
+                                />
                                 <textarea
-                                  rows={4}
-                                  value={noteDrafts[job.id] ?? ''}
-                                  placeholder="Write a short note..."
-                                  onChange={(event) =>
-                                    setNoteDrafts((prev) => ({
-                                      ...prev,
-                                      [job.id]: event.target.value
-                                    }))
-                                  }
+                                  rows={2}
+                                  placeholder="Prep notes"
+                                  defaultValue={round.prepNotes ?? ''}
+                                  onBlur={(event) => {
+                                    if (
+                                      event.target.value.trim() !==
+                                      (round.prepNotes ?? '')
+                                    ) {
+                                      updateInterview(job.id, round.id, {
+                                        prepNotes: event.target.value
+                                      });
+                                    }
+                                  }}
                                 />
-                                <div className="note-actions">
+                                <textarea
+                                  rows={2}
+                                  placeholder="Feedback"
+                                  defaultValue={round.feedback ?? ''}
+                                  onBlur={(event) => {
+                                    if (
+                                      event.target.value.trim() !==
+                                      (round.feedback ?? '')
+                                    ) {
+                                      updateInterview(job.id, round.id, {
+                                        feedback: event.target.value
+                                      });
+                                    }
+                                  }}
+                                />
+                              </div>
+                            ))}
+                          </div>
+
+                          <div className="detail-block contact-panel">
+                            <h3>Documents</h3>
+                            {jobDocuments.length === 0 && (
+                              <p className="muted">No documents attached.</p>
+                            )}
+                            {jobDocuments.map((file) => (
+                              <div key={file.id} className="contact-item">
+                                <div>
+                                  <strong>{describeDocument(file)}</strong>
+                                  <p className="muted">
+                                    {DOCUMENT_KINDS.find(
+                                      (option) => option.value === file.kind
+                                    )?.label ?? file.kind}
+                                  </p>
+                                </div>
+                                <div className="inline">
                                   <button
-                                    className="primary"
-                                    onClick={async () => {
-                                      const value =
-                                        noteDrafts[job.id]?.trim() ?? '';
-                                      await setNote(job.id, value || null);
-                                      setNoteEditingId(null);
-                                    }}
+                                    className="ghost"
+                                    onClick={() =>
+                                      handleOpenDocument(file, 'preview')
+                                    }
                                   >
-                                    Save
+                                    Preview
                                   </button>
                                   <button
                                     className="ghost"
-                                    onClick={() => setNoteEditingId(null)}
+                                    onClick={() =>
+                                      handleOpenDocument(file, 'download')
+                                    }
                                   >
-                                    Cancel
+                                    Download
+                                  </button>
+                                  <button
+                                    className="icon-button"
+                                    onClick={() =>
+                                      unlinkDocument(job.id, file.id)
+                                    }
+                                    aria-label={`Detach ${file.name}`}
+                                  >
+                                    ×
                                   </button>
                                 </div>
-                              </>
+                              </div>
+                            ))}
+                            {otherDocuments.length > 0 ? (
+                              <select
+                                value=""
+                                onChange={(event) => {
+                                  if (event.target.value) {
+                                    linkDocument(job.id, event.target.value);
+                                  }
+                                }}
+                              >
+                                <option value="">Attach a document...</option>
+                                {otherDocuments.map((file) => (
+                                  <option key={file.id} value={file.id}>
+                                    {describeDocument(file)}
+                                  </option>
+                                ))}
+                              </select>
                             ) : (
-                              <button
-                                className={`note-display ${
-                                  latestNote ? '' : 'empty'
-                                }`}
-                                onClick={() => {
-                                  setNoteEditingId(job.id);
-                                  setNoteDrafts((prev) => ({
-                                    ...prev,
-                                    [job.id]: latestNote
-                                  }));
+                              documents.length === 0 && (
+                                <button
+                                  className="link-button"
+                                  onClick={() => {
+                                    setSettingsSection('documents');
+                                    setSidebarOpen(true);
+                                  }}
+                                >
+                                  Upload resumes and cover letters
+                                </button>
+                              )
+                            )}
+                          </div>
+
+                          <div className="detail-block contact-panel">
+                            <h3>Contacts</h3>
+                            {jobContacts.length === 0 && (
+                              <p className="muted">No contacts linked.</p>
+                            )}
+                            {jobContacts.map((contact) => (
+                              <div key={contact.id} className="contact-item">
+                                <div>
+                                  <strong>{contact.name}</strong>
+                                  <p className="muted">
+                                    {[
+                                      contactRoleLabelMap[contact.role],
+                                      contact.email,
+                                      contact.phone
+                                    ]
+                                      .filter(Boolean)
+                                      .join(' · ')}
+                                  </p>
+                                </div>
+                                <button
+                                  className="icon-button"
+                                  onClick={() =>
+                                    unlinkContact(contact.id, job.id)
+                                  }
+                                  aria-label={`Unlink ${contact.name}`}
+                                >
+                                  ×
+                                </button>
+                              </div>
+                            ))}
+                            {otherContacts.length > 0 && (
+                              <select
+                                value=""
+                                onChange={(event) => {
+                                  if (event.target.value) {
+                                    linkContact(event.target.value, job.id);
+                                  }
                                 }}
                               >
-                                {latestNote
-                                  ? latestNote
-                                  : 'Click to add a note...'}
-                              </button>
+                                <option value="">Link a contact...</option>
+                                {otherContacts.map((contact) => (
+                                  <option key={contact.id} value={contact.id}>
+                                    {contact.name}
+                                    {contact.company
+                                      ? ` (${contact.company})`
+                                      : ''}
+                                  </option>
+                                ))}
+                              </select>
                             )}
+                            <div className="inline">
+                              <input
+                                placeholder="New contact name"
+                                value={contactDraftForJob.name}
+                                onChange={(event) =>
+                                  setJobContactDrafts((prev) => ({
+                                    ...prev,
+                                    [job.id]: {
+                                      ...contactDraftForJob,
+                                      name: event.target.value
+                                    }
+                                  }))
+                                }
+                              />
+                              <select
+                                value={contactDraftForJob.role}
+                                onChange={(event) =>
+                                  setJobContactDrafts((prev) => ({
+                                    ...prev,
+                                    [job.id]: {
+                                      ...contactDraftForJob,
+                                      role: event.target.value as ContactRole
+                                    }
+                                  }))
+                                }
+                              >
+                                {CONTACT_ROLES.map((option) => (
+                                  <option key={option.value} value={option.value}>
+                                    {option.label}
+                                  </option>
+                                ))}
+                              </select>
+                              <button
+                                className="ghost"
+                                disabled={!contactDraftForJob.name.trim()}
+                                onClick={() => handleAddJobContact(job)}
+                              >
+                                Add
+                              </button>
+                            </div>
                           </div>
                         </div>
 
                         <div className="details-right">
                           <h3>Timeline</h3>
+                          <div className="inline timeline-add">
+                            <input
+                              value={eventDraft.label}
+                              placeholder="e.g. Recruiter call"
+                              onChange={(event) =>
+                                setEventDrafts((prev) => ({
+                                  ...prev,
+                                  [job.id]: {
+                                    ...eventDraft,
+                                    label: event.target.value
+                                  }
+                                }))
+                              }
+                            />
+                            <input
+                              type="date"
+                              value={eventDraft.date}
+                              max={today}
+                              onChange={(event) =>
+                                setEventDrafts((prev) => ({
+                                  ...prev,
+                                  [job.id]: {
+                                    ...eventDraft,
+                                    date: event.target.value
+                                  }
+                                }))
+                              }
+                            />
+                            <button
+                              className="ghost"
+                              disabled={
+                                !eventDraft.label.trim() || !eventDraft.date
+                              }
+                              onClick={() => handleAddEvent(job)}
+                            >
+                              Add
+                            </button>
+                          </div>
                           {timelineItems.length === 0 && (
                             <p className="muted">No activity yet.</p>
                           )}
                           <div className="timeline">
-                            {timelineItems.map((item) => (
-                              <div key={item.id} className="timeline-item">
-                                <div className="timeline-dot" />
-                                <div>
-                                  <p className="timeline-label">{item.label}</p>
-                                  <p className="timeline-time">
-                                    {formatTimeline(item.createdAt)}
-                                  </p>
+                            {timelineItems.map((item) =>
+                              eventEditing?.eventId === item.id ? (
+                                <div key={item.id} className="timeline-item">
+                                  <div className="timeline-dot" />
+                                  <input
+                                    value={eventEditing.label}
+                                    onChange={(event) =>
+                                      setEventEditing({
+                                        ...eventEditing,
+                                        label: event.target.value
+                                      })
+                                    }
+                                  />
+                                  <input
+                                    type="date"
+                                    value={eventEditing.date}
+                                    max={today}
+                                    onChange={(event) =>
+                                      setEventEditing({
+                                        ...eventEditing,
+                                        date: event.target.value
+                                      })
+                                    }
+                                  />
+                                  <div className="note-actions">
+                                    <button
+                                      className="primary"
+                                      onClick={() => handleSaveEvent(job)}
+                                    >
+                                      Save
+                                    </button>
+                                    <button
+                                      className="ghost"
+                                      onClick={() => setEventEditing(null)}
+                                    >
+                                      Cancel
+                                    </button>
+                                  </div>
                                 </div>
-                              </div>
-                            ))}
+                              ) : (
+                                <div
+                                  key={item.id}
+                                  className="timeline-item"
+                                  data-type={item.type}
+                                >
+                                  <div className="timeline-dot" />
+                                  <div>
+                                    <p className="timeline-label">
+                                      {describeEvent(item, fields, pipeline)}
+                                    </p>
+                                    <p className="timeline-time">
+                                      {formatTimeline(
+                                        item.createdAt,
+                                        !isManualEvent(item)
+                                      )}
+                                      {item.source && item.source !== 'manual'
+                                        ? ` · ${SOURCE_LABELS[item.source]}`
+                                        : ''}
+                                    </p>
+                                    {isManualEvent(item) && (
+                                      <div className="note-actions">
+                                        <button
+                                          className="ghost"
+                                          onClick={() =>
+                                            setEventEditing({
+                                              eventId: item.id,
+                                              label: item.label,
+                                              date: localDate(
+                                                new Date(item.createdAt)
+                                              )
+                                            })
+                                          }
+                                        >
+                                          Edit
+                                        </button>
+                                        <button
+                                          className="ghost"
+                                          onClick={() =>
+                                            deleteTimelineEvent(job.id, item.id)
+                                          }
+                                        >
+                                          Delete
+                                        </button>
+                                      </div>
+                                    )}
+                                  </div>
+                                </div>
+                              )
+                            )}
                           </div>
 
                           {fields.length > 0 && (
@@ -1083,38 +4780,33 @@ export default function App() {
                               <h3>Custom fields</h3>
                               <div className="custom-grid">
                                 {fields.map((field) => (
-                                  <label key={field.id} className="custom-field">
+                                  <div key={field.id} className="custom-field">
                                     <span>{field.name}</span>
-                                    <input
-                                      key={`${job.id}-${field.id}-${String(
-                                        job.custom?.[field.id] ?? ''
-                                      )}`}
-                                      defaultValue={String(
-                                        job.custom?.[field.id] ?? ''
-                                      )}
-                                      type={
-                                        field.type === 'number'
-                                          ? 'number'
-                                          : field.type === 'date'
-                                            ? 'date'
-                                            : field.type === 'url'
-                                              ? 'url'
-                                              : 'text'
-                                      }
-                                      onBlur={(event) => {
-                                        const raw = event.target.value;
-                                        const parsed =
-                                          field.type === 'number'
-                                            ? Number(raw)
-                                            : raw;
-                                        setCustomFieldValue(
-                                          job.id,
-                                          field.id,
-                                          raw === '' ? null : parsed
-                                        );
-                                      }}
-                                    />
-                                  </label>
+                                    {field.type === 'computed' ? (
+                                      <span
+                                        className="computed-value"
+                                        title={field.formula}
+                                      >
+                                        {formatFormulaValue(
+                                          computedValues.get(job.id)?.[
+                                            field.id
+                                          ] ?? null
+                                        ) || '—'}
+                                      </span>
+                                    ) : (
+                                      <CustomFieldInput
+                                        field={field}
+                                        value={job.custom?.[field.id]}
+                                        onChange={(value) =>
+                                          setCustomFieldValue(
+                                            job.id,
+                                            field.id,
+                                            value
+                                          )
+                                        }
+                                      />
+                                    )}
+                                  </div>
                                 ))}
                               </div>
                             </div>
@@ -1137,6 +4829,54 @@ export default function App() {
           </section>
         </div>
       </main>
+
+      {actionNotice && (
+        <div className="toast" role="alert">
+          <span className="toast-label">{actionNotice}</span>
+          <button
+            className="icon-button"
+            onClick={() => setActionNotice(null)}
+            aria-label="Dismiss"
+          >
+            ×
+          </button>
+        </div>
+      )}
+      {!actionNotice && historyToast && (
+        <div className="toast" role="status">
+          <span className="toast-label">
+            {historyToast.kind === 'undo'
+              ? `Undid: ${historyToast.label}`
+              : historyToast.kind === 'redo'
+                ? `Redid: ${historyToast.label}`
+                : historyToast.label}
+          </span>
+          {historyToast.kind === 'undo' ? (
+            <button
+              className="ghost"
+              onClick={() => runAction(redo)}
+              disabled={!historyStatus.redoLabel}
+            >
+              Redo
+            </button>
+          ) : (
+            <button
+              className="ghost"
+              onClick={() => runAction(undo)}
+              disabled={!historyStatus.undoLabel}
+            >
+              Undo
+            </button>
+          )}
+          <button
+            className="icon-button"
+            onClick={() => setHistoryToast(null)}
+            aria-label="Dismiss"
+          >
+            ×
+          </button>
+        </div>
+      )}
     </div>
   );
 }
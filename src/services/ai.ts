@@ -1,4 +1,13 @@
-import type { CustomField, Job, JobStatus } from '../types';
+import type {
+  CustomField,
+  CustomValue,
+  Job,
+  JobStatus,
+  PipelineStage
+} from '../types';
+import { normalizeStatus, sortStages } from './pipeline';
+import { isCustomValue, isFieldType } from './schema';
+import { normalizeTag } from './tags';
 
 export type AiSettings = {
   apiKey: string;
@@ -14,7 +23,7 @@ export type AiAction =
       status?: JobStatus;
       appliedDate?: string;
       notes?: string[];
-      custom?: Record<string, string | number | null>;
+      custom?: Record<string, CustomValue>;
     }
   | {
       type: 'update_job';
@@ -24,11 +33,19 @@ export type AiAction =
       status?: JobStatus;
       appliedDate?: string;
       notes?: string[];
-      custom?: Record<string, string | number | null>;
+      custom?: Record<string, CustomValue>;
     }
   | { type: 'set_status'; id: string; status: JobStatus }
   | { type: 'add_note'; id: string; note: string }
-  | { type: 'add_custom_field'; name: string; fieldType: CustomField['type'] }
+  | { type: 'add_tag'; id: string; tag: string }
+  | { type: 'remove_tag'; id: string; tag: string }
+  | {
+      type: 'add_custom_field';
+      name: string;
+      fieldType: CustomField['type'];
+      options?: string[];
+      currency?: string;
+    }
   | { type: 'delete_job'; id: string };
 
 export type AiResponse = {
@@ -54,38 +71,46 @@ const ACTION_TYPES = new Set<AiAction['type']>([
   'update_job',
   'set_status',
   'add_note',
+  'add_tag',
+  'remove_tag',
   'add_custom_field',
   'delete_job'
 ]);
 
-const STATUS_TYPES = new Set<JobStatus>([
-  'applied',
-  'rejected',
-  'interviewed',
-  'offer',
-  'accepted',
-  'archived'
-]);
-
-const FIELD_TYPES = new Set<CustomField['type']>([
-  'text',
-  'number',
-  'date',
-  'url'
-]);
-
-export function buildAiPrompt(jobs: Job[], fields: CustomField[], input: string) {
+export function buildAiPrompt(
+  jobs: Job[],
+  fields: CustomField[],
+  pipeline: PipelineStage[],
+  input: string
+) {
   const jobLines = jobs.map(
     (job) =>
-      `- id: ${job.id}, company: ${job.company}, role: ${job.role}, status: ${job.status}, appliedDate: ${job.appliedDate ?? ''}`
-  );
-  const fieldLines = fields.map(
-    (field) => `- ${field.name} (id: ${field.id}, type: ${field.type})`
+      `- id: ${job.id}, company: ${job.company}, role: ${job.role}, status: ${job.status}, appliedDate: ${job.appliedDate ?? ''}, tags: ${(job.tags ?? []).join('; ')}`
   );
+  // Computed fields are left out, since their values cannot be set.
+  const fieldLines = fields
+    .filter((field) => field.type !== 'computed')
+    .map((field) => {
+      const details = [`id: ${field.id}`, `type: ${field.type}`];
+      if (field.options) details.push(`options: ${field.options.join(', ')}`);
+      if (field.currency) details.push(`currency: ${field.currency}`);
+      return `- ${field.name} (${details.join(', ')})`;
+    });
+  const stageLines = sortStages(pipeline).map((stage) => {
+    const details = [stage.label];
+    if (stage.terminal) details.push('final');
+    if (stage.next) {
+      details.push(`can move to: ${stage.next.join(', ') || 'nothing'}`);
+    }
+    if (stage.requiredFields?.length) {
+      details.push(`requires custom: ${stage.requiredFields.join(', ')}`);
+    }
+    return `- ${stage.id} (${details.join('; ')})`;
+  });
 
-  const system = `You are a resume tracker assistant. Output JSON only, no Markdown or explanations.\n\nThe user input may be a pasted email or webpage. Detect what it is and extract actionable info. Common intents:\n- rejection email -> set_status to rejected\n- interview invitation -> set_status to interviewed\n- offer email -> set_status to offer\n- acceptance/offer accepted -> set_status to accepted\n\nIf the input contains a company and role that match an existing job, update that job. If you cannot confidently match a job id, do not output actions.\n\nReturn the structure:\n{\n  \"summary\": \"short summary\",\n  \"actions\": [\n    { \"type\": \"add_job\", ... },\n    { \"type\": \"set_status\", ... }\n  ]\n}\n\nAllowed actions:\n- add_job: { type, company, role, status, appliedDate, notes, custom }\n- update_job: { type, id, company, role, status, appliedDate, notes, custom }\n- set_status: { type, id, status }\n- add_note: { type, id, note }\n- add_custom_field: { type, name, fieldType }\n- delete_job: { type, id }\n\nRules:\n1) Each action must have a top-level \"type\" field. Do not nest actions under keys like \"add_job\".\n2) status must be one of applied / rejected / interviewed / offer / accepted / archived\n3) custom keys must match existing field ids or field names (or add_custom_field first)\n4) If you cannot determine the id, do not output that action\n5) actions can be an empty array`;
+  const system = `You are a resume tracker assistant. Output JSON only, no Markdown or explanations.\n\nThe user input may be a pasted email or webpage. Detect what it is and extract actionable info. Common intents:\n- rejection email, interview invitation, assessment, offer or acceptance -> set_status to the stage that matches it\n\nIf the input contains a company and role that match an existing job, update that job. If you cannot confidently match a job id, do not output actions.\n\nReturn the structure:\n{\n  \"summary\": \"short summary\",\n  \"actions\": [\n    { \"type\": \"add_job\", ... },\n    { \"type\": \"set_status\", ... }\n  ]\n}\n\nAllowed actions:\n- add_job: { type, company, role, status, appliedDate, notes, custom }\n- update_job: { type, id, company, role, status, appliedDate, notes, custom }\n- set_status: { type, id, status }\n- add_note: { type, id, note }\n- add_tag: { type, id, tag }\n- remove_tag: { type, id, tag }\n- add_custom_field: { type, name, fieldType, options, currency }\n- delete_job: { type, id }\n\nRules:\n1) Each action must have a top-level \"type\" field. Do not nest actions under keys like \"add_job\".\n2) status must be one of the stage ids listed under Pipeline stages and allowed from the job's current stage; when a stage requires custom fields, use update_job with both status and those custom values\n3) custom keys must match existing field ids or field names (or add_custom_field first). Values must fit the field type: number -> a number, currency -> { currency, min, max } (max only for ranges), boolean -> true or false, select -> one of its options, multi_select -> a list of its options, date -> YYYY-MM-DD, others -> text. fieldType is one of text, long_text, number, currency, date, url, boolean, select, multi_select; select and multi_select fields need options\n4) If you cannot determine the id, do not output that action\n5) actions can be an empty array`;
 
-  const user = `Current jobs:\n${jobLines.length ? jobLines.join('\n') : '- (none)'}\n\nCustom fields:\n${fieldLines.length ? fieldLines.join('\n') : '- (none)'}\n\nUser input:\n${input}`;
+  const user = `Current jobs:\n${jobLines.length ? jobLines.join('\n') : '- (none)'}\n\nCustom fields:\n${fieldLines.length ? fieldLines.join('\n') : '- (none)'}\n\nPipeline stages:\n${stageLines.join('\n')}\n\nUser input:\n${input}`;
 
   return { system, user };
 }
@@ -94,9 +119,10 @@ export async function requestAiActions(
   settings: AiSettings,
   jobs: Job[],
   fields: CustomField[],
+  pipeline: PipelineStage[],
   input: string
 ): Promise<AiResponse> {
-  const { system, user } = buildAiPrompt(jobs, fields, input);
+  const { system, user } = buildAiPrompt(jobs, fields, pipeline, input);
   debugLog('request', { model: settings.model, baseUrl: settings.baseUrl });
   debugLog('prompt', { system, user });
 
@@ -132,7 +158,7 @@ export async function requestAiActions(
     throw new Error('AI output is not valid JSON');
   }
 
-  const result = normalizeAiResponse(parsed);
+  const result = normalizeAiResponse(parsed, pipeline);
   debugLog('parsed', result);
   return result;
 }
@@ -154,7 +180,10 @@ function safeParseJson(text: string) {
   }
 }
 
-function normalizeAiResponse(raw: unknown): AiResponse {
+function normalizeAiResponse(
+  raw: unknown,
+  pipeline: PipelineStage[]
+): AiResponse {
   if (!raw || typeof raw !== 'object') {
     return { actions: [] };
   }
@@ -162,21 +191,27 @@ function normalizeAiResponse(raw: unknown): AiResponse {
   const summary = typeof record.summary === 'string' ? record.summary : undefined;
   const rawActions = Array.isArray(record.actions) ? record.actions : [];
   const actions = rawActions
-    .map(normalizeAction)
+    .map((action) => normalizeAction(action, pipeline))
     .filter((action): action is AiAction => Boolean(action));
   return { summary, actions };
 }
 
-function normalizeAction(raw: unknown): AiAction | null {
+function normalizeAction(
+  raw: unknown,
+  pipeline: PipelineStage[]
+): AiAction | null {
   if (!raw || typeof raw !== 'object') return null;
   const record = raw as Record<string, unknown>;
   const directType = typeof record.type === 'string' ? record.type : null;
 
   if (directType && ACTION_TYPES.has(directType as AiAction['type'])) {
-    return sanitizeAction({
-      ...(record as Record<string, unknown>),
-      type: directType
-    } as AiAction);
+    return sanitizeAction(
+      {
+        ...(record as Record<string, unknown>),
+        type: directType
+      } as AiAction,
+      pipeline
+    );
   }
 
   const keys = Object.keys(record);
@@ -184,16 +219,22 @@ function normalizeAction(raw: unknown): AiAction | null {
     const payload = record[keys[0]];
     if (!payload || typeof payload !== 'object') return null;
     const { type: _ignored, ...rest } = payload as Record<string, unknown>;
-    return sanitizeAction({
-      type: keys[0] as AiAction['type'],
-      ...(rest as Record<string, unknown>)
-    } as AiAction);
+    return sanitizeAction(
+      {
+        type: keys[0] as AiAction['type'],
+        ...(rest as Record<string, unknown>)
+      } as AiAction,
+      pipeline
+    );
   }
 
   return null;
 }
 
-function sanitizeAction(action: AiAction): AiAction | null {
+function sanitizeAction(
+  action: AiAction,
+  pipeline: PipelineStage[]
+): AiAction | null {
   switch (action.type) {
     case 'add_job': {
       const company = toText(action.company);
@@ -203,7 +244,7 @@ function sanitizeAction(action: AiAction): AiAction | null {
         type: 'add_job',
         company,
         role,
-        status: toStatus(action.status),
+        status: normalizeStatus(action.status, pipeline),
         appliedDate: toOptionalText(action.appliedDate),
         notes: toStringArray(action.notes),
         custom: toCustom(action.custom)
@@ -217,7 +258,7 @@ function sanitizeAction(action: AiAction): AiAction | null {
         id,
         company: toOptionalText(action.company),
         role: toOptionalText(action.role),
-        status: toStatus(action.status),
+        status: normalizeStatus(action.status, pipeline),
         appliedDate: toOptionalText(action.appliedDate),
         notes: toStringArray(action.notes),
         custom: toCustom(action.custom)
@@ -225,7 +266,7 @@ function sanitizeAction(action: AiAction): AiAction | null {
     }
     case 'set_status': {
       const id = toText(action.id);
-      const status = toStatus(action.status);
+      const status = normalizeStatus(action.status, pipeline);
       if (!id || !status) return null;
       return { type: 'set_status', id, status };
     }
@@ -235,13 +276,27 @@ function sanitizeAction(action: AiAction): AiAction | null {
       if (!id || !note) return null;
       return { type: 'add_note', id, note };
     }
+    case 'add_tag':
+    case 'remove_tag': {
+      const id = toText(action.id);
+      const tag = typeof action.tag === 'string' ? normalizeTag(action.tag) : '';
+      if (!id || !tag) return null;
+      return { type: action.type, id, tag };
+    }
     case 'add_custom_field': {
       const name = toText(action.name);
       if (!name) return null;
-      const fieldType = FIELD_TYPES.has(action.fieldType)
-        ? action.fieldType
-        : 'text';
-      return { type: 'add_custom_field', name, fieldType };
+      const fieldType =
+        isFieldType(action.fieldType) && action.fieldType !== 'computed'
+          ? action.fieldType
+          : 'text';
+      return {
+        type: 'add_custom_field',
+        name,
+        fieldType,
+        options: toStringArray(action.options),
+        currency: toOptionalText(action.currency)
+      };
     }
     case 'delete_job': {
       const id = toText(action.id);
@@ -265,11 +320,6 @@ function toOptionalText(value: unknown): string | undefined {
   return trimmed ? trimmed : undefined;
 }
 
-function toStatus(value: unknown): JobStatus | undefined {
-  if (typeof value !== 'string') return undefined;
-  return STATUS_TYPES.has(value as JobStatus) ? (value as JobStatus) : undefined;
-}
-
 function toStringArray(value: unknown): string[] | undefined {
   if (Array.isArray(value)) {
     return value.map((item) => String(item)).filter((item) => item.trim());
@@ -281,15 +331,12 @@ function toStringArray(value: unknown): string[] | undefined {
   return undefined;
 }
 
-function toCustom(
-  value: unknown
-): Record<string, string | number | null> | undefined {
+// Values are checked against each field's type when the action is applied.
+function toCustom(value: unknown): Record<string, CustomValue> | undefined {
   if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
-  const result: Record<string, string | number | null> = {};
+  const result: Record<string, CustomValue> = {};
   for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
-    if (entry === null || typeof entry === 'string' || typeof entry === 'number') {
-      result[key] = entry;
-    }
+    if (isCustomValue(entry)) result[key] = entry;
   }
   return Object.keys(result).length ? result : undefined;
 }
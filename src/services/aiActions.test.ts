@@ -1,37 +1,37 @@
+import { IDBFactory } from 'fake-indexeddb';
 import { beforeEach, describe, expect, it } from 'vitest';
-import type { Job } from '../types';
+import type { CustomField, Job } from '../types';
 import { applyAiActions } from './aiActions';
-
-const JOBS_KEY = 'resumeTracker.jobs';
-const SCHEMA_KEY = 'resumeTracker.schema';
+import { setRepository } from './jobs';
+import { createIndexedDbRepository } from './storage';
 
 type SchemaPayload = {
-  customFields: Array<{ id: string; name: string; type: 'text' | 'number' | 'date' | 'url' }>;
+  customFields: CustomField[];
 };
 
-function readJobs(): Job[] {
-  const raw = localStorage.getItem(JOBS_KEY);
-  if (!raw) return [];
+async function readJobs(): Promise<Job[]> {
+  const repository = createIndexedDbRepository();
   try {
-    return JSON.parse(raw) as Job[];
-  } catch {
-    return [];
+    return await repository.loadJobs();
+  } finally {
+    repository.close();
   }
 }
 
-function readSchema(): SchemaPayload {
-  const raw = localStorage.getItem(SCHEMA_KEY);
-  if (!raw) return { customFields: [] };
+async function readSchema(): Promise<SchemaPayload> {
+  const repository = createIndexedDbRepository();
   try {
-    return JSON.parse(raw) as SchemaPayload;
-  } catch {
-    return { customFields: [] };
+    return { customFields: await repository.loadSchema() };
+  } finally {
+    repository.close();
   }
 }
 
 describe('applyAiActions', () => {
   beforeEach(() => {
     localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
   });
 
   it('executes all action types successfully', async () => {
@@ -41,7 +41,7 @@ describe('applyAiActions', () => {
     );
     expect(results[0].ok).toBe(true);
 
-    const schema = readSchema();
+    const schema = await readSchema();
     expect(schema.customFields.length).toBe(1);
     const fieldId = schema.customFields[0].id;
 
@@ -60,7 +60,7 @@ describe('applyAiActions', () => {
     );
     expect(results[0].ok).toBe(true);
 
-    let jobs = readJobs();
+    let jobs = await readJobs();
     expect(jobs.length).toBe(1);
     const jobId = jobs[0].id;
 
@@ -96,7 +96,8 @@ describe('applyAiActions', () => {
     );
     expect(results[0].ok).toBe(true);
 
-    jobs = readJobs();
-    expect(jobs.length).toBe(0);
+    jobs = await readJobs();
+    expect(jobs.length).toBe(1);
+    expect(jobs[0].deletedAt).toBeTruthy();
   });
 });
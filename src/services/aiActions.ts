@@ -1,13 +1,19 @@
-import type { CustomField, JobStatus } from '../types';
+import type { CustomField } from '../types';
 import type { AiAction } from './ai';
 import {
   addJob,
   addNote,
+  addTag,
   deleteJob,
+  getDuplicates,
+  getPipeline,
+  removeTag,
   setStatus,
+  takeSnapshot,
   updateJob,
   upsertCustomField
 } from './jobs';
+import { normalizeStatus } from './pipeline';
 import { normalizeCustomValues } from './schema';
 
 export type ActionResult = {
@@ -16,20 +22,13 @@ export type ActionResult = {
   message: string;
 };
 
-const allowedStatuses: JobStatus[] = [
-  'applied',
-  'rejected',
-  'interviewed',
-  'offer',
-  'accepted',
-  'archived'
-];
-
 export async function applyAiActions(
   actions: AiAction[],
   fields: CustomField[]
 ): Promise<ActionResult[]> {
   const results: ActionResult[] = [];
+  const pipeline = await getPipeline();
+  if (actions.length > 0) await takeSnapshot('ai');
   for (const action of actions) {
     try {
       switch (action.type) {
@@ -37,15 +36,26 @@ export async function applyAiActions(
           if (!action.company || !action.role) {
             throw new Error('Missing company or role');
           }
+          const [existing] = await getDuplicates({
+            company: action.company,
+            role: action.role
+          });
+          if (existing) {
+            throw new Error(
+              `Looks like ${existing.company} – ${existing.role}, which ` +
+                'is already tracked; update that application instead'
+            );
+          }
           const custom = action.custom
             ? normalizeCustomValues(action.custom, fields)
             : undefined;
           await addJob({
             company: action.company,
             role: action.role,
-            status: normalizeStatus(action.status),
+            status: normalizeStatus(action.status, pipeline),
             appliedDate: action.appliedDate,
             notes: action.notes,
+            source: 'ai',
             custom
           });
           results.push({ action, ok: true, message: 'Job added' });
@@ -61,9 +71,10 @@ export async function applyAiActions(
           await updateJob(action.id, {
             company: action.company,
             role: action.role,
-            status: normalizeStatus(action.status),
+            status: normalizeStatus(action.status, pipeline),
             appliedDate: action.appliedDate,
             notes: action.notes,
+            source: 'ai',
             custom
           });
           results.push({ action, ok: true, message: 'Job updated' });
@@ -73,11 +84,11 @@ export async function applyAiActions(
           if (!action.id || !action.status) {
             throw new Error('Missing id or status');
           }
-          const normalized = normalizeStatus(action.status);
+          const normalized = normalizeStatus(action.status, pipeline);
           if (!normalized) {
-            throw new Error('Invalid status');
+            throw new Error(`Unknown status: ${action.status}`);
           }
-          await setStatus(action.id, normalized);
+          await setStatus(action.id, normalized, undefined, 'ai');
           results.push({ action, ok: true, message: 'Status updated' });
           break;
         }
@@ -85,15 +96,34 @@ export async function applyAiActions(
           if (!action.id || !action.note) {
             throw new Error('Missing id or note');
           }
-          await addNote(action.id, action.note);
+          await addNote(action.id, action.note, 'ai');
           results.push({ action, ok: true, message: 'Note added' });
           break;
         }
+        case 'add_tag': {
+          if (!action.id || !action.tag) {
+            throw new Error('Missing id or tag');
+          }
+          await addTag(action.id, action.tag, 'ai');
+          results.push({ action, ok: true, message: 'Tag added' });
+          break;
+        }
+        case 'remove_tag': {
+          if (!action.id || !action.tag) {
+            throw new Error('Missing id or tag');
+          }
+          await removeTag(action.id, action.tag, 'ai');
+          results.push({ action, ok: true, message: 'Tag removed' });
+          break;
+        }
         case 'add_custom_field': {
           if (!action.name || !action.fieldType) {
             throw new Error('Missing name or fieldType');
           }
-          await upsertCustomField(action.name, action.fieldType);
+          await upsertCustomField(action.name, action.fieldType, {
+            options: action.options,
+            currency: action.currency
+          });
           results.push({ action, ok: true, message: 'Field added' });
           break;
         }
@@ -102,7 +132,7 @@ export async function applyAiActions(
             throw new Error('Missing id');
           }
           await deleteJob(action.id);
-          results.push({ action, ok: true, message: 'Job deleted' });
+          results.push({ action, ok: true, message: 'Moved to trash' });
           break;
         }
         default: {
@@ -120,8 +150,3 @@ export async function applyAiActions(
   }
   return results;
 }
-
-function normalizeStatus(status?: JobStatus): JobStatus | undefined {
-  if (!status) return undefined;
-  return allowedStatuses.includes(status) ? status : undefined;
-}
@@ -0,0 +1,154 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Job } from '../types';
+import {
+  addJob,
+  bulkAddTag,
+  bulkArchive,
+  bulkDelete,
+  bulkRemoveTag,
+  bulkSetCustomFieldValue,
+  bulkSetStatus,
+  savePipeline,
+  setRepository,
+  subscribeHistory,
+  subscribeTrash,
+  undo,
+  upsertCustomField
+} from './jobs';
+import type { HistoryStatus } from './history';
+import { DEFAULT_PIPELINE } from './pipeline';
+import { createIndexedDbRepository } from './storage';
+import { currentJobs, firstValue } from './testUtils';
+
+async function jobsByCompany() {
+  const jobs = await currentJobs();
+  return [...jobs].sort((a, b) => a.company.localeCompare(b.company));
+}
+
+describe('bulk actions', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('changes every selected application in one undo step', async () => {
+    const ids = [
+      await addJob({ company: 'Acme', role: 'Engineer' }),
+      await addJob({ company: 'Globex', role: 'Analyst', tags: ['Remote'] }),
+      await addJob({ company: 'Initech', role: 'Developer' })
+    ];
+    const level = await upsertCustomField('Level', 'select', {
+      options: ['Junior', 'Senior']
+    });
+    const before = await jobsByCompany();
+
+    const tagged = await bulkAddTag(ids.slice(0, 2), 'remote');
+    expect(tagged).toEqual({ updated: 1, skipped: [] });
+    await bulkSetCustomFieldValue(ids, level, 'senior');
+    let jobs = await jobsByCompany();
+    expect(jobs.map((job) => job.tags)).toEqual([
+      ['remote'],
+      ['Remote'],
+      []
+    ]);
+    expect(jobs.map((job) => job.custom[level])).toEqual([
+      'Senior',
+      'Senior',
+      'Senior'
+    ]);
+    // Acme was tagged and given a level; the others only got the level.
+    jobs.forEach((job, index) => {
+      const added =
+        (job.timeline ?? []).length - (before[index].timeline ?? []).length;
+      expect(added).toBe(index === 0 ? 2 : 1);
+    });
+    await expect(
+      bulkSetCustomFieldValue(ids, level, 'Principal')
+    ).rejects.toThrow('Level must be one of Junior, Senior.');
+
+    await bulkRemoveTag(ids, 'REMOTE');
+    expect((await jobsByCompany()).map((job) => job.tags)).toEqual([
+      [],
+      [],
+      []
+    ]);
+    const history = await firstValue<HistoryStatus>(subscribeHistory);
+    expect(history.undoLabel).toBe('Removed REMOTE from 2 applications');
+    await undo();
+    jobs = await jobsByCompany();
+    expect(jobs.map((job) => job.tags)).toEqual([['remote'], ['Remote'], []]);
+
+    await bulkDelete(ids.slice(1));
+    expect(await firstValue<Job[]>(subscribeTrash)).toHaveLength(2);
+    await undo();
+    expect(await jobsByCompany()).toHaveLength(3);
+  });
+
+  it('skips applications the pipeline will not move', async () => {
+    const salary = await upsertCustomField('Salary', 'number');
+    await savePipeline(
+      DEFAULT_PIPELINE.map((stage) =>
+        stage.id === 'offer' ? { ...stage, requiredFields: [salary] } : stage
+      )
+    );
+    const ready = await addJob({
+      company: 'Acme',
+      role: 'Engineer',
+      custom: { Salary: 100000 }
+    });
+    const missing = await addJob({ company: 'Globex', role: 'Analyst' });
+
+    const result = await bulkSetStatus([ready, missing], 'offer');
+    expect(result).toEqual({
+      updated: 1,
+      skipped: [
+        {
+          id: missing,
+          message: 'Fill in Salary before moving Globex to Offer.'
+        }
+      ]
+    });
+    const [acme, globex] = await jobsByCompany();
+    expect(acme.status).toBe('offer');
+    expect(globex.status).toBe('applied');
+    expect(acme.timeline?.[acme.timeline.length - 1]).toMatchObject({
+      type: 'status_changed',
+      from: 'applied',
+      to: 'offer'
+    });
+
+    // Without an Archived stage, the last final stage takes its place.
+    await savePipeline(
+      DEFAULT_PIPELINE.filter((stage) => stage.id !== 'archived')
+    );
+    await bulkArchive([missing]);
+    expect((await jobsByCompany())[1].status).toBe('rejected');
+    await savePipeline(
+      DEFAULT_PIPELINE.map((stage) => ({ ...stage, terminal: false }))
+    );
+    await expect(bulkArchive([missing])).rejects.toThrow(
+      'This pipeline has no final stage to archive to.'
+    );
+
+    // Offers may only be accepted or rejected, so Acme cannot be archived.
+    await savePipeline(
+      DEFAULT_PIPELINE.map((stage) =>
+        stage.id === 'offer'
+          ? { ...stage, next: ['accepted', 'rejected'] }
+          : stage
+      )
+    );
+    expect(await bulkArchive([ready, missing])).toEqual({
+      updated: 1,
+      skipped: [
+        { id: ready, message: 'Acme cannot move from Offer to Archived.' }
+      ]
+    });
+    expect((await jobsByCompany()).map((job) => job.status)).toEqual([
+      'offer',
+      'archived'
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Contact } from '../types';
+import { buildContact, contactsForJob, readContactInput } from './contacts';
+import {
+  addContact,
+  addJob,
+  importContacts,
+  linkContact,
+  setRepository,
+  subscribeContacts,
+  unlinkContact,
+  updateContact
+} from './jobs';
+import { createIndexedDbRepository } from './storage';
+
+function currentContacts() {
+  return new Promise<Contact[]>((resolve) => {
+    const unsubscribe = subscribeContacts((contacts) => {
+      unsubscribe();
+      resolve(contacts);
+    });
+  });
+}
+
+describe('contacts', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('trims input and drops empty optional fields', () => {
+    const contact = buildContact(
+      {
+        name: ' Dana ',
+        email: ' dana@acme.io ',
+        phone: ' ',
+        role: 'recruiter'
+      },
+      { id: 'c1', createdAt: '2024-01-01T00:00:00.000Z' },
+      '2024-01-02T00:00:00.000Z'
+    );
+    expect(contact).toEqual({
+      id: 'c1',
+      name: 'Dana',
+      email: 'dana@acme.io',
+      role: 'recruiter',
+      jobIds: [],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-02T00:00:00.000Z'
+    });
+    expect(() =>
+      buildContact({ name: '  ' }, { id: 'c2', createdAt: '' }, '')
+    ).toThrow('Give the contact a name.');
+    expect(
+      readContactInput({ name: 'Lee', role: 'boss', jobIds: [1, 'a'] })
+    ).toEqual({ name: 'Lee', role: 'other', jobIds: ['a'] });
+    expect(readContactInput({ email: 'x@y.z' })).toBeNull();
+  });
+
+  it('links contacts to applications and keeps them stored', async () => {
+    const jobId = await addJob({ company: 'Acme', role: 'Engineer' });
+    const id = await addContact({ name: 'Dana', role: 'recruiter' });
+    await linkContact(id, jobId);
+    await updateContact(id, { email: 'dana@acme.io' });
+
+    const repository = createIndexedDbRepository();
+    const [stored] = await repository.loadContacts();
+    repository.close();
+    expect(stored).toMatchObject({
+      name: 'Dana',
+      email: 'dana@acme.io',
+      jobIds: [jobId]
+    });
+    expect(contactsForJob(await currentContacts(), jobId)).toHaveLength(1);
+
+    await unlinkContact(id, jobId);
+    expect(contactsForJob(await currentContacts(), jobId)).toEqual([]);
+  });
+
+  it('maps imported links onto the applications created for them', async () => {
+    const jobId = await addJob({ company: 'Acme', role: 'Engineer' });
+    await importContacts(
+      [{ name: 'Dana', jobIds: ['old-acme', 'old-missing'] }],
+      new Map([['old-acme', jobId]])
+    );
+    const [contact] = await currentContacts();
+    expect(contact.jobIds).toEqual([jobId]);
+  });
+});
@@ -0,0 +1,78 @@
+import type { Contact, ContactRole } from '../types';
+
+export type ContactInput = {
+  name: string;
+  email?: string;
+  phone?: string;
+  linkedinUrl?: string;
+  company?: string;
+  role?: ContactRole;
+  jobIds?: string[];
+};
+
+export const CONTACT_ROLES: { label: string; value: ContactRole }[] = [
+  { label: 'Recruiter', value: 'recruiter' },
+  { label: 'Referrer', value: 'referrer' },
+  { label: 'Interviewer', value: 'interviewer' },
+  { label: 'Hiring manager', value: 'hiring_manager' },
+  { label: 'Other', value: 'other' }
+];
+
+const OPTIONAL_FIELDS = ['email', 'phone', 'linkedinUrl', 'company'] as const;
+
+// Builds the stored contact from user input, trimming text and dropping
+// empty optional fields so they read back as missing rather than blank.
+export function buildContact(
+  input: ContactInput,
+  existing: Pick<Contact, 'id' | 'createdAt'>,
+  now: string
+): Contact {
+  const name = input.name.trim();
+  if (!name) throw new Error('Give the contact a name.');
+  const contact: Contact = {
+    id: existing.id,
+    name,
+    role: isContactRole(input.role) ? input.role : 'other',
+    jobIds: Array.from(new Set(input.jobIds ?? [])),
+    createdAt: existing.createdAt,
+    updatedAt: now
+  };
+  OPTIONAL_FIELDS.forEach((field) => {
+    const value = input[field]?.trim();
+    if (value) contact[field] = value;
+  });
+  return contact;
+}
+
+// Reads a contact from an imported file, accepting the shape this app
+// exports. Returns null when there is no usable name.
+export function readContactInput(value: unknown): ContactInput | null {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  if (typeof record.name !== 'string' || !record.name.trim()) return null;
+  const input: ContactInput = {
+    name: record.name,
+    role: isContactRole(record.role) ? record.role : 'other',
+    jobIds: Array.isArray(record.jobIds)
+      ? record.jobIds.filter((id): id is string => typeof id === 'string')
+      : []
+  };
+  OPTIONAL_FIELDS.forEach((field) => {
+    if (typeof record[field] === 'string') input[field] = record[field];
+  });
+  return input;
+}
+
+export function contactsForJob(contacts: Contact[], jobId: string) {
+  return contacts.filter((contact) => contact.jobIds.includes(jobId));
+}
+
+export function sortContacts(contacts: Contact[]) {
+  return [...contacts].sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
+  );
+}
+
+function isContactRole(value: unknown): value is ContactRole {
+  return CONTACT_ROLES.some((option) => option.value === value);
+}
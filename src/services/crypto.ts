@@ -0,0 +1,95 @@
+export type Sealed = {
+  iv: string;
+  data: string;
+};
+
+export type VaultLock = {
+  salt: string;
+  iterations: number;
+  check: Sealed;
+};
+
+const PBKDF2_ITERATIONS = 310000;
+const CHECK_VALUE = 'resumeTracker.vault';
+
+export async function createLock(
+  passphrase: string
+): Promise<{ lock: VaultLock; key: CryptoKey }> {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const check = await seal(key, CHECK_VALUE);
+  return { lock: { salt, iterations: PBKDF2_ITERATIONS, check }, key };
+}
+
+// Derives the key for an existing lock and proves it against the stored check
+// value, so a wrong passphrase is rejected before any record is touched.
+export async function openLock(
+  lock: VaultLock,
+  passphrase: string
+): Promise<CryptoKey> {
+  const key = await deriveKey(passphrase, lock.salt, lock.iterations);
+  try {
+    if ((await unseal(key, lock.check)) === CHECK_VALUE) return key;
+  } catch {
+    // AES-GCM rejects ciphertext sealed under a different key.
+  }
+  throw new Error('Incorrect passphrase.');
+}
+
+export async function seal(key: CryptoKey, value: unknown): Promise<Sealed> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plain = new TextEncoder().encode(JSON.stringify(value));
+  const cipher = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    plain
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(cipher)) };
+}
+
+export async function unseal<T = unknown>(
+  key: CryptoKey,
+  sealed: Sealed
+): Promise<T> {
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(sealed.iv) },
+    key,
+    fromBase64(sealed.data)
+  );
+  return JSON.parse(new TextDecoder().decode(plain)) as T;
+}
+
+export function isSealed(value: unknown): value is Sealed {
+  if (!value || typeof value !== 'object') return false;
+  const record = value as Record<string, unknown>;
+  return typeof record.iv === 'string' && typeof record.data === 'string';
+}
+
+async function deriveKey(passphrase: string, salt: string, iterations: number) {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export function toBase64(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+export function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
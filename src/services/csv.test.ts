@@ -0,0 +1,266 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { CustomField, Job } from '../types';
+import { jobsToCsv, parseCsv, readCsvJobs } from './csv';
+import {
+  addJob,
+  addNote,
+  setRepository,
+  subscribeJobs,
+  subscribeSchema,
+  upsertCustomField
+} from './jobs';
+import { DEFAULT_PIPELINE } from './pipeline';
+import { createIndexedDbRepository } from './storage';
+import { firstValue } from './testUtils';
+
+// What an export keeps of an application, with values keyed by field name
+// since ids differ between workspaces.
+function summarize(job: Job, fields: CustomField[]) {
+  return {
+    company: job.company,
+    role: job.role,
+    status: job.status,
+    appliedDate: job.appliedDate,
+    tags: job.tags,
+    notes: job.notes.map((note) => note.body).sort(),
+    custom: Object.fromEntries(
+      Object.entries(job.custom).map(([id, value]) => [
+        fields.find((field) => field.id === id)?.name ?? id,
+        value
+      ])
+    )
+  };
+}
+
+describe('csv', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('writes one row per job with a column per field', async () => {
+    await upsertCustomField('Salary', 'currency', { currency: 'USD' });
+    await upsertCustomField('Double', 'computed', {
+      formula: '{Salary} * 2'
+    });
+    const id = await addJob({
+      company: 'Acme, Inc.',
+      role: 'Engineer',
+      status: 'interviewed',
+      appliedDate: '2024-03-01',
+      tags: ['remote', 'referral'],
+      custom: { Salary: 'USD 100000-120000' }
+    });
+    await addNote(id, 'Said "call me"\nafter lunch');
+    const jobs = await firstValue<Job[]>(subscribeJobs);
+    const fields = await firstValue<CustomField[]>(subscribeSchema);
+
+    const rows = parseCsv(jobsToCsv(jobs, fields, DEFAULT_PIPELINE));
+    expect(rows).toEqual([
+      [
+        'company',
+        'role',
+        'status',
+        'appliedDate',
+        'tags',
+        'notes',
+        'Salary',
+        'Double'
+      ],
+      [
+        'Acme, Inc.',
+        'Engineer',
+        'Interviewing',
+        '2024-03-01',
+        'remote; referral',
+        '["Said \\"call me\\"\\nafter lunch"]',
+        'USD 100,000–120,000',
+        '200,000'
+      ]
+    ]);
+  });
+
+  it('reads back what it exports', async () => {
+    await upsertCustomField('Level', 'multi_select', {
+      options: ['Junior', 'Senior']
+    });
+    await upsertCustomField('Remote', 'boolean');
+    await upsertCustomField('Salary', 'currency', { currency: 'EUR' });
+    await upsertCustomField('Headcount', 'number');
+    const first = await addJob({
+      company: 'Acme',
+      role: 'Engineer',
+      status: 'offer',
+      appliedDate: '2024-03-01',
+      tags: ['Remote', 'fintech'],
+      notes: ['First call, went well', 'Send "thanks"'],
+      custom: {
+        Level: 'Junior, Senior',
+        Remote: 'yes',
+        Salary: 'EUR 1,500.50',
+        Headcount: '1200'
+      }
+    });
+    await addNote(first, 'Multi\nline\r\nnote, with, commas');
+    await addJob({ company: 'Globex', role: 'Analyst' });
+    const jobs = await firstValue<Job[]>(subscribeJobs);
+    const fields = await firstValue<CustomField[]>(subscribeSchema);
+    const csv = jobsToCsv(jobs, fields, DEFAULT_PIPELINE);
+
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+    for (const field of fields) {
+      await upsertCustomField(field.name, field.type, field);
+    }
+    const schema = await firstValue<CustomField[]>(subscribeSchema);
+    for (const input of readCsvJobs(csv, schema, DEFAULT_PIPELINE)) {
+      await addJob({ ...input, source: 'import' });
+    }
+    const imported = await firstValue<Job[]>(subscribeJobs);
+    const byName = (a: Job, b: Job) => a.company.localeCompare(b.company);
+    expect(
+      [...imported].sort(byName).map((job) => summarize(job, schema))
+    ).toEqual([...jobs].sort(byName).map((job) => summarize(job, fields)));
+  });
+
+  it('keeps cells from running as spreadsheet formulas', async () => {
+    await upsertCustomField('Delta', 'number');
+    await addJob({
+      company: '=SUM(A1:A2)',
+      role: '+Engineer',
+      tags: ['@home'],
+      custom: { Delta: -5 }
+    });
+    const jobs = await firstValue<Job[]>(subscribeJobs);
+    const fields = await firstValue<CustomField[]>(subscribeSchema);
+    const csv = jobsToCsv(jobs, fields, DEFAULT_PIPELINE);
+
+    const [, row] = parseCsv(csv);
+    expect([row[0], row[1], row[4], row[6]]).toEqual([
+      "'=SUM(A1:A2)",
+      "'+Engineer",
+      "'@home",
+      "'-5"
+    ]);
+    expect(readCsvJobs(csv, fields, DEFAULT_PIPELINE)).toMatchObject([
+      {
+        company: '=SUM(A1:A2)',
+        role: '+Engineer',
+        tags: ['@home'],
+        custom: { [fields[0].id]: '-5' }
+      }
+    ]);
+  });
+
+  it('keeps fields named after a core column apart from it', async () => {
+    await upsertCustomField('Status', 'text');
+    await upsertCustomField('Tags', 'text');
+    await upsertCustomField('Company', 'text');
+    await addJob({
+      company: 'Acme',
+      role: 'Engineer',
+      status: 'offer',
+      tags: ['remote'],
+      custom: { Status: 'Waiting on visa', Tags: 'n/a', Company: 'Parent' }
+    });
+    const jobs = await firstValue<Job[]>(subscribeJobs);
+    const fields = await firstValue<CustomField[]>(subscribeSchema);
+    const csv = jobsToCsv(jobs, fields, DEFAULT_PIPELINE);
+
+    expect(readCsvJobs(csv, fields, DEFAULT_PIPELINE)).toEqual([
+      {
+        company: 'Acme',
+        role: 'Engineer',
+        status: 'offer',
+        appliedDate: jobs[0].appliedDate,
+        tags: ['remote'],
+        notes: undefined,
+        custom: {
+          [fields[0].id]: 'Waiting on visa',
+          [fields[1].id]: 'n/a',
+          [fields[2].id]: 'Parent'
+        }
+      }
+    ]);
+  });
+
+  it('round-trips tags that contain a separator', async () => {
+    await addJob({
+      company: 'Acme',
+      role: 'Engineer',
+      tags: ['Remote, EU only', 'on;site', 'fintech']
+    });
+    const jobs = await firstValue<Job[]>(subscribeJobs);
+    const csv = jobsToCsv(jobs, [], DEFAULT_PIPELINE);
+
+    expect(parseCsv(csv)[1][4]).toBe('["Remote, EU only","on;site","fintech"]');
+    expect(readCsvJobs(csv, [], DEFAULT_PIPELINE)[0].tags).toEqual([
+      'Remote, EU only',
+      'on;site',
+      'fintech'
+    ]);
+  });
+
+  it('round-trips options that contain a separator', async () => {
+    const options = ['Remote, US', 'Berlin; Munich', 'London'];
+    await upsertCustomField('Location', 'multi_select', { options });
+    await addJob({
+      company: 'Acme',
+      role: 'Engineer',
+      custom: { Location: ['Remote, US', 'London'] }
+    });
+    await addJob({
+      company: 'Globex',
+      role: 'Analyst',
+      custom: { Location: ['London'] }
+    });
+    const jobs = await firstValue<Job[]>(subscribeJobs);
+    const fields = await firstValue<CustomField[]>(subscribeSchema);
+    const csv = jobsToCsv(jobs, fields, DEFAULT_PIPELINE);
+    expect(parseCsv(csv).map((row) => row[6])).toEqual(
+      expect.arrayContaining(['["Remote, US","London"]', 'London'])
+    );
+
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+    await upsertCustomField('Location', 'multi_select', { options });
+    const schema = await firstValue<CustomField[]>(subscribeSchema);
+    for (const input of readCsvJobs(csv, schema, DEFAULT_PIPELINE)) {
+      await addJob(input);
+    }
+    const imported = await firstValue<Job[]>(subscribeJobs);
+    const byName = (a: Job, b: Job) => a.company.localeCompare(b.company);
+    expect(
+      [...imported].sort(byName).map((job) => summarize(job, schema).custom)
+    ).toEqual(
+      [...jobs].sort(byName).map((job) => summarize(job, fields).custom)
+    );
+  });
+
+  it('accepts hand-made files', () => {
+    const fields: CustomField[] = [
+      { id: 'salary', name: 'Salary', type: 'text' }
+    ];
+    const csv =
+      'Company,ROLE,Status,applied_date,Tags,Note,salary\r\n' +
+      'Acme,Engineer,Offer,2024-03-01,"remote, fintech",[not a list],100k\r\n';
+    expect(readCsvJobs(csv, fields, DEFAULT_PIPELINE)).toEqual([
+      {
+        company: 'Acme',
+        role: 'Engineer',
+        status: 'offer',
+        appliedDate: '2024-03-01',
+        tags: ['remote', 'fintech'],
+        notes: ['[not a list]'],
+        custom: { salary: '100k' }
+      }
+    ]);
+    expect(() => readCsvJobs('company,role\n', fields, [])).toThrow(
+      'CSV must include a header and at least one row.'
+    );
+  });
+});
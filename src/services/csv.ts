@@ -0,0 +1,233 @@
+import type { CustomField, Job, JobStatus, PipelineStage } from '../types';
+import { compileFields, computeValues, formatFormulaValue } from './formula';
+import { normalizeStatus, stageLabel } from './pipeline';
+import { formatCustomValue } from './schema';
+import { readTags } from './tags';
+
+// An application read from a CSV row, before it is checked and added.
+export type CsvJobInput = {
+  company: string;
+  role: string;
+  status?: JobStatus;
+  appliedDate: string;
+  tags: string[];
+  notes?: string[];
+  // Keyed by field id. Multi-select values written as a JSON list are read
+  // back as one.
+  custom: Record<string, string | string[]>;
+};
+
+// The columns every file has, ahead of one per custom field.
+export const CSV_COLUMNS = [
+  'company',
+  'role',
+  'status',
+  'appliedDate',
+  'tags',
+  'notes'
+];
+
+// What a spreadsheet reads as the start of a formula.
+const FORMULA_START = /^[=+\-@\t]/;
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let current = '';
+  let row: string[] = [];
+  let inQuotes = false;
+
+  const flushCell = () => {
+    row.push(current);
+    current = '';
+  };
+
+  const flushRow = () => {
+    if (row.length > 0 || current.length > 0) {
+      flushCell();
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    const next = text[i + 1];
+    if (char === '"') {
+      if (inQuotes && next === '"') {
+        current += '"';
+        i += 1;
+      } else {
+        inQuotes = !inQuotes;
+      }
+      continue;
+    }
+    if (char === '\n' && !inQuotes) {
+      flushRow();
+      continue;
+    }
+    if (char === '\r' && !inQuotes) {
+      if (next === '\n') {
+        i += 1;
+      }
+      flushRow();
+      continue;
+    }
+    if (char === ',' && !inQuotes) {
+      flushCell();
+      continue;
+    }
+    current += char;
+  }
+  flushRow();
+  return rows;
+}
+
+// Cells a spreadsheet would run as a formula get a leading apostrophe, which
+// readCsvJobs() strips again.
+export function toCsv(rows: string[][]) {
+  return (
+    rows
+      .map((row) => row.map((cell) => quoteCell(escapeFormula(cell))).join(','))
+      .join('\n') + '\n'
+  );
+}
+
+export function csvHeader(fields: CustomField[]) {
+  return [...CSV_COLUMNS, ...fields.map((field) => field.name)];
+}
+
+// One row per application, in the order given. Tags and multi-select values
+// are separated by semicolons and commas, or written as a JSON list when one
+// of them contains a separator, and notes are always a JSON list, so
+// readCsvJobs() gets back what was exported. Computed fields are exported as
+// their current values and ignored on the way back in.
+export function jobsToCsv(
+  jobs: Job[],
+  fields: CustomField[],
+  stages: PipelineStage[],
+  today?: string
+) {
+  const compiled = compileFields(fields);
+  const rows = jobs.map((job) => {
+    const computed = computeValues(job, fields, today, compiled);
+    return [
+      job.company,
+      job.role,
+      stageLabel(stages, job.status),
+      job.appliedDate ?? '',
+      writeList(job.tags, '; '),
+      job.notes.length > 0
+        ? JSON.stringify(job.notes.map((note) => note.body))
+        : '',
+      ...fields.map((field) => {
+        const value = job.custom[field.id];
+        if (field.type === 'computed') {
+          return formatFormulaValue(computed[field.id] ?? null);
+        }
+        return Array.isArray(value)
+          ? writeList(value, ', ')
+          : formatCustomValue(value);
+      })
+    ];
+  });
+  return toCsv([csvHeader(fields), ...rows]);
+}
+
+// Reads an exported or hand-made file. Headers are matched without regard
+// to case; columns named after a custom field fill in its value where the
+// cell is not empty, and a `note` column is accepted in place of `notes`.
+// Each column is read once, core columns first, so a field named after one
+// of them takes the next column of that name.
+export function readCsvJobs(
+  text: string,
+  fields: CustomField[],
+  stages: PipelineStage[]
+): CsvJobInput[] {
+  const rows = parseCsv(text);
+  if (rows.length < 2) {
+    throw new Error('CSV must include a header and at least one row.');
+  }
+  const headers = rows[0].map((cell) => readCell(cell).toLowerCase());
+  const taken = new Set<number>();
+  const column = (...names: string[]) => {
+    const index = headers.findIndex(
+      (header, i) => names.includes(header) && !taken.has(i)
+    );
+    if (index >= 0) taken.add(index);
+    return index;
+  };
+  const company = column('company');
+  const role = column('role');
+  const status = column('status');
+  const appliedDate = column('applieddate', 'applied_date');
+  const tags = column('tags');
+  const notes = column('notes', 'note');
+  const custom = fields.map(
+    (field) => [field, column(field.name.toLowerCase())] as const
+  );
+  return rows.slice(1).map((row) => {
+    const get = (index: number) =>
+      index >= 0 ? readCell(row[index] ?? '') : '';
+    return {
+      company: get(company),
+      role: get(role),
+      status: normalizeStatus(get(status), stages),
+      appliedDate: get(appliedDate),
+      tags: readTags(readList(get(tags)) ?? get(tags)) ?? [],
+      notes: readNotes(get(notes)),
+      custom: Object.fromEntries(
+        custom
+          .filter(([, index]) => get(index))
+          .map(([field, index]) => [
+            field.id,
+            field.type === 'multi_select'
+              ? (readList(get(index)) ?? get(index))
+              : get(index)
+          ])
+      )
+    };
+  });
+}
+
+// Joined with `separator`, or a JSON list when an item contains one.
+function writeList(items: string[], separator: string) {
+  return items.some((item) => /[;,]/.test(item))
+    ? JSON.stringify(items)
+    : items.join(separator);
+}
+
+function escapeFormula(value: string) {
+  return FORMULA_START.test(value) ? `'${value}` : value;
+}
+
+function readCell(value: string) {
+  const cell = value.trim();
+  return cell.startsWith("'") && FORMULA_START.test(cell.slice(1))
+    ? cell.slice(1)
+    : cell;
+}
+
+function quoteCell(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// A JSON list as exported, or any other text as a single note.
+function readNotes(value: string) {
+  if (!value) return undefined;
+  return readList(value) ?? [value];
+}
+
+function readList(value: string) {
+  if (!value.startsWith('[')) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) {
+      return parsed.filter(
+        (item): item is string => typeof item === 'string' && !!item.trim()
+      );
+    }
+  } catch {
+    // Not a list after all.
+  }
+  return undefined;
+}
@@ -0,0 +1,140 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Job, StoredDocument } from '../types';
+import { documentPerformance } from './documents';
+import {
+  addDocument,
+  addJob,
+  deleteDocument,
+  linkDocument,
+  readDocument,
+  setRepository,
+  subscribeDocuments,
+  subscribeJobs
+} from './jobs';
+import { createStage, DEFAULT_PIPELINE } from './pipeline';
+import { createIndexedDbRepository } from './storage';
+import { firstValue } from './testUtils';
+
+function resume(id: string, versionLabel: string): StoredDocument {
+  return {
+    id,
+    name: 'resume.pdf',
+    kind: 'resume',
+    versionLabel,
+    mimeType: 'application/pdf',
+    size: 1,
+    uploadedAt: '2024-01-01T00:00:00.000Z'
+  };
+}
+
+describe('documents', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('stores files and attaches them to applications', async () => {
+    const bytes = new TextEncoder().encode('%PDF-1.4 tailored');
+    const id = await addDocument({
+      name: ' resume.pdf ',
+      kind: 'resume',
+      versionLabel: 'Backend v3',
+      mimeType: 'application/pdf',
+      data: bytes.buffer
+    });
+    const jobId = await addJob({ company: 'Acme', role: 'Engineer' });
+    await linkDocument(jobId, id);
+
+    const [document] = await firstValue(subscribeDocuments);
+    expect(document).toMatchObject({
+      name: 'resume.pdf',
+      versionLabel: 'Backend v3',
+      size: bytes.byteLength
+    });
+    const [job] = await firstValue<Job[]>(subscribeJobs);
+    expect(job.documentIds).toEqual([id]);
+    const blob = await readDocument(id);
+    expect(blob.type).toBe('application/pdf');
+    expect(blob.size).toBe(bytes.byteLength);
+
+    await deleteDocument(id);
+    expect(await firstValue(subscribeDocuments)).toEqual([]);
+    await expect(readDocument(id)).rejects.toThrow('no longer exists');
+  });
+
+  it('ranks resume versions by interviews', () => {
+    const job = (id: string, documentIds: string[], status: Job['status']) =>
+      ({
+        id,
+        company: id,
+        role: 'Engineer',
+        status,
+        tags: [],
+        notes: [],
+        custom: {},
+        documentIds
+      }) as Job;
+    const report = documentPerformance(
+      [
+        job('a', ['v1'], 'rejected'),
+        job('b', ['v1'], 'applied'),
+        job('c', ['v2'], 'interviewed'),
+        job('d', ['v2'], 'offer'),
+        job('e', ['v1'], 'interviewed')
+      ],
+      [resume('v1', 'Generic'), resume('v2', 'Backend'), resume('v3', 'Old')],
+      DEFAULT_PIPELINE
+    );
+    const rows = report.map((item) => [
+      item.document.id,
+      item.interviews,
+      item.applications
+    ]);
+    expect(rows).toEqual([
+      ['v2', 2, 2],
+      ['v1', 1, 3]
+    ]);
+  });
+
+  it('counts custom stages after the interview stage', () => {
+    const job = (id: string, status: Job['status']) =>
+      ({
+        id,
+        company: id,
+        role: 'Engineer',
+        status,
+        tags: [],
+        notes: [],
+        custom: {},
+        documentIds: ['v1']
+      }) as Job;
+    const jobs = [
+      job('a', 'screening'),
+      job('b', 'onsite'),
+      job('c', 'rejected'),
+      job('d', 'applied')
+    ];
+    // Screening comes before Interviewing and Onsite after it.
+    const stages = [
+      { ...createStage('Screening', DEFAULT_PIPELINE), order: 0.5 },
+      { ...createStage('Onsite', DEFAULT_PIPELINE), order: 1.5 },
+      ...DEFAULT_PIPELINE
+    ];
+    const [report] = documentPerformance(
+      jobs,
+      [resume('v1', 'Generic')],
+      stages
+    );
+    expect(report.interviews).toBe(1);
+
+    // Without an interview stage, the one after the first takes its place.
+    const [withoutInterview] = documentPerformance(
+      jobs,
+      [resume('v1', 'Generic')],
+      stages.filter((stage) => stage.id !== 'interviewed')
+    );
+    expect(withoutInterview.interviews).toBe(2);
+  });
+});
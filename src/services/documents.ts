@@ -0,0 +1,94 @@
+import type {
+  DocumentKind,
+  Job,
+  JobStatus,
+  PipelineStage,
+  StoredDocument
+} from '../types';
+import { sortStages } from './pipeline';
+
+export type DocumentInput = {
+  name: string;
+  kind: DocumentKind;
+  versionLabel: string;
+  mimeType: string;
+  data: ArrayBuffer;
+};
+
+export type DocumentReport = {
+  document: StoredDocument;
+  applications: number;
+  interviews: number;
+  rate: number;
+};
+
+export const DOCUMENT_KINDS: { label: string; value: DocumentKind }[] = [
+  { label: 'Resume', value: 'resume' },
+  { label: 'Cover letter', value: 'cover_letter' },
+  { label: 'Other', value: 'other' }
+];
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+const INTERVIEW_STAGE: JobStatus = 'interviewed';
+// Stages an application can end up in without ever being interviewed.
+const CLOSED_STAGES: JobStatus[] = ['rejected', 'archived'];
+
+export function documentsForJob(documents: StoredDocument[], job: Job) {
+  const linked = new Set(job.documentIds ?? []);
+  return documents.filter((document) => linked.has(document.id));
+}
+
+// An application counts as having reached an interview once it has a round
+// on record or has been moved to the interview stage or one after it.
+export function reachedInterview(job: Job, stages: PipelineStage[]) {
+  return (
+    interviewStages(stages).includes(job.status) ||
+    (job.interviews ?? []).length > 0 ||
+    (job.timeline ?? []).some((event) => event.type === 'interview_scheduled')
+  );
+}
+
+// How many applications each document of `kind` was sent with and how many
+// of those led to an interview, best performing first.
+export function documentPerformance(
+  jobs: Job[],
+  documents: StoredDocument[],
+  stages: PipelineStage[],
+  kind: DocumentKind = 'resume'
+): DocumentReport[] {
+  const interviewed = (job: Job) => reachedInterview(job, stages);
+  return documents
+    .filter((document) => document.kind === kind)
+    .map((document) => {
+      const sent = jobs.filter((job) =>
+        (job.documentIds ?? []).includes(document.id)
+      );
+      const interviews = sent.filter(interviewed).length;
+      return {
+        document,
+        applications: sent.length,
+        interviews,
+        rate: sent.length > 0 ? interviews / sent.length : 0
+      };
+    })
+    .filter((report) => report.applications > 0)
+    .sort((a, b) => b.interviews - a.interviews || b.rate - a.rate);
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// The interview stage and every stage after it other than the closed ones.
+// Without an interview stage, the one after the first stands in for it.
+function interviewStages(stages: PipelineStage[]) {
+  const ordered = sortStages(stages);
+  const start = ordered.findIndex((stage) => stage.id === INTERVIEW_STAGE);
+  return ordered
+    .slice(start >= 0 ? start : 1)
+    .map((stage) => stage.id)
+    .filter((id) => !CLOSED_STAGES.includes(id));
+}
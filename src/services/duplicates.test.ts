@@ -0,0 +1,151 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Job } from '../types';
+import { applyAiActions } from './aiActions';
+import {
+  dismissDuplicates,
+  findDuplicateGroups,
+  isLikelyDuplicate,
+  normalizeCompany
+} from './duplicates';
+import {
+  addContact,
+  addJob,
+  addNote,
+  addTag,
+  mergeJobs,
+  setRepository,
+  subscribeContacts,
+  subscribeJobs,
+  subscribeTrash,
+  undo
+} from './jobs';
+import { createIndexedDbRepository } from './storage';
+import { firstValue } from './testUtils';
+
+function job(id: string, company: string, role: string): Job {
+  return {
+    id,
+    company,
+    role,
+    status: 'applied',
+    tags: [],
+    notes: [],
+    custom: {},
+    createdAt: `2024-01-0${id.slice(-1)}T00:00:00.000Z`
+  };
+}
+
+describe('duplicates', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('matches company and role loosely', () => {
+    expect(normalizeCompany('The Acme, Inc.')).toBe('acme');
+    expect(normalizeCompany('Société Générale S.A.')).toBe(
+      'societe generale'
+    );
+    expect(
+      isLikelyDuplicate(
+        { company: 'Google LLC', role: 'SWE Intern' },
+        { company: 'google', role: 'Software Engineering Intern' }
+      )
+    ).toBe(true);
+    expect(
+      isLikelyDuplicate(
+        { company: 'Google', role: 'Software Engineer' },
+        { company: 'Google', role: 'Product Designer' }
+      )
+    ).toBe(false);
+    expect(normalizeCompany('腾讯 控股')).toBe('腾讯 控股');
+    expect(
+      isLikelyDuplicate(
+        { company: '腾讯', role: 'Software Engineer' },
+        { company: '阿里巴巴', role: 'Software Engineer' }
+      )
+    ).toBe(false);
+    expect(
+      isLikelyDuplicate(
+        { company: 'Яндекс', role: 'Разработчик' },
+        { company: 'яндекс', role: 'разработчик' }
+      )
+    ).toBe(true);
+    expect(
+      isLikelyDuplicate(
+        { company: '...', role: '' },
+        { company: '!!', role: '' }
+      )
+    ).toBe(false);
+
+    const jobs = [
+      job('job-1', 'Google', 'SWE Intern'),
+      job('job-2', 'Globex', 'Analyst'),
+      job('job-3', 'Google Inc.', 'Software Engineer Intern'),
+      { ...job('job-4', 'Google', 'swe intern'), deletedAt: '2024-02-01' }
+    ];
+    expect(
+      findDuplicateGroups(jobs).map((group) => group.map((item) => item.id))
+    ).toEqual([['job-1', 'job-3']]);
+    expect(
+      findDuplicateGroups([
+        job('job-5', '腾讯', 'Software Engineer'),
+        job('job-6', '阿里巴巴', 'Software Engineer')
+      ])
+    ).toEqual([]);
+    dismissDuplicates(['job-1', 'job-3']);
+    expect(findDuplicateGroups(jobs)).toEqual([]);
+  });
+
+  it('merges notes, tags, values and timelines into one', async () => {
+    const first = await addJob({
+      company: 'Google',
+      role: 'SWE Intern',
+      custom: { salary: 100 }
+    });
+    const second = await addJob({
+      company: 'Google LLC',
+      role: 'Software Engineer Intern',
+      appliedDate: '2024-01-15',
+      tags: ['referral'],
+      custom: { salary: 90, level: 'L3' }
+    });
+    await addNote(second, 'Recruiter called');
+    await addTag(first, 'Referral');
+    const contactId = await addContact({
+      name: 'Sam',
+      role: 'recruiter',
+      jobIds: [second]
+    });
+
+    await mergeJobs(first, [second]);
+    const [merged] = await firstValue<Job[]>(subscribeJobs);
+    expect(merged.id).toBe(first);
+    expect(merged.appliedDate).toBe('2024-01-15');
+    expect(merged.tags).toEqual(['Referral']);
+    expect(merged.notes.map((note) => note.body)).toEqual(['Recruiter called']);
+    expect(merged.custom).toEqual({ salary: 100, level: 'L3' });
+    expect(merged.timeline?.map((event) => event.type)).toContain('merged');
+    const trashed = await firstValue<Job[]>(subscribeTrash);
+    expect(trashed.map((item) => item.id)).toEqual([second]);
+    const [contact] = await firstValue(subscribeContacts);
+    expect(contact.id).toBe(contactId);
+    expect(contact.jobIds).toEqual([second, first]);
+
+    await undo();
+    expect(await firstValue<Job[]>(subscribeJobs)).toHaveLength(2);
+  });
+
+  it('stops the AI from adding an application twice', async () => {
+    await addJob({ company: 'Acme Corp', role: 'Engineer' });
+    const results = await applyAiActions(
+      [{ type: 'add_job', company: 'ACME', role: 'engineer' }],
+      []
+    );
+    expect(results[0].ok).toBe(false);
+    expect(results[0].message).toContain('Acme Corp – Engineer');
+    expect(await firstValue<Job[]>(subscribeJobs)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,228 @@
+import type { CustomValue, Job } from '../types';
+import { isEmptyValue } from './schema';
+import { dedupeTags } from './tags';
+
+export type DuplicateInput = Pick<Job, 'company' | 'role'>;
+
+const DISMISSED_KEY = 'resumeTracker.dismissedDuplicates';
+const COMPANY_THRESHOLD = 0.9;
+const ROLE_THRESHOLD = 0.85;
+
+// Legal suffixes dropped from the end of company names.
+const COMPANY_SUFFIXES = new Set([
+  'inc',
+  'incorporated',
+  'llc',
+  'llp',
+  'ltd',
+  'limited',
+  'corp',
+  'corporation',
+  'co',
+  'company',
+  'gmbh',
+  'plc',
+  'ag',
+  'sa',
+  'bv',
+  'pty'
+]);
+
+const ROLE_ABBREVIATIONS: Record<string, string> = {
+  swe: 'software engineer',
+  sde: 'software development engineer',
+  sr: 'senior',
+  jr: 'junior',
+  eng: 'engineer',
+  engr: 'engineer',
+  dev: 'developer',
+  mgr: 'manager',
+  pm: 'product manager',
+  ml: 'machine learning',
+  qa: 'quality assurance'
+};
+
+export function normalizeCompany(name: string) {
+  // Dots are dropped rather than split on, so "S.A." reads as "sa".
+  const words = toWords(name.replace(/&/g, ' and ').replace(/\./g, ''));
+  if (words[0] === 'the' && words.length > 1) words.shift();
+  while (words.length > 1 && COMPANY_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+  return words.join(' ');
+}
+
+export function normalizeRole(role: string) {
+  return toWords(role)
+    .map((word) => ROLE_ABBREVIATIONS[word] ?? word)
+    .join(' ');
+}
+
+// How alike two strings are, from 0 to 1, by the letter pairs they share
+// (the Sørensen–Dice coefficient). An empty name matches nothing.
+export function similarity(a: string, b: string) {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const pairs = new Map<string, number>();
+  for (let index = 0; index < a.length - 1; index += 1) {
+    const pair = a.slice(index, index + 2);
+    pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+  }
+  let shared = 0;
+  for (let index = 0; index < b.length - 1; index += 1) {
+    const pair = b.slice(index, index + 2);
+    const count = pairs.get(pair) ?? 0;
+    if (count > 0) {
+      pairs.set(pair, count - 1);
+      shared += 1;
+    }
+  }
+  return (2 * shared) / (a.length + b.length - 2);
+}
+
+export function isLikelyDuplicate(a: DuplicateInput, b: DuplicateInput) {
+  return (
+    similarity(normalizeCompany(a.company), normalizeCompany(b.company)) >=
+      COMPANY_THRESHOLD &&
+    similarity(normalizeRole(a.role), normalizeRole(b.role)) >= ROLE_THRESHOLD
+  );
+}
+
+// Applications outside the trash that `input` would likely duplicate.
+export function findDuplicates(
+  input: DuplicateInput,
+  jobs: Job[],
+  excludeId?: string
+) {
+  return jobs.filter(
+    (job) =>
+      !job.deletedAt && job.id !== excludeId && isLikelyDuplicate(input, job)
+  );
+}
+
+// Sets of applications that look like the same one, oldest first in each.
+// Pairs marked as not duplicates are left apart.
+export function findDuplicateGroups(
+  jobs: Job[],
+  dismissed: string[] = loadDismissed()
+): Job[][] {
+  const active = jobs.filter((job) => !job.deletedAt);
+  const keys = active.map((job) => ({
+    company: normalizeCompany(job.company),
+    role: normalizeRole(job.role)
+  }));
+  const skip = new Set(dismissed);
+  const groupOf = active.map((_job, index) => index);
+  const root = (index: number): number =>
+    groupOf[index] === index ? index : root(groupOf[index]);
+  active.forEach((job, i) => {
+    for (let j = i + 1; j < active.length; j += 1) {
+      if (skip.has(pairKey(job.id, active[j].id))) continue;
+      if (
+        similarity(keys[i].company, keys[j].company) >= COMPANY_THRESHOLD &&
+        similarity(keys[i].role, keys[j].role) >= ROLE_THRESHOLD
+      ) {
+        groupOf[root(j)] = root(i);
+      }
+    }
+  });
+  const groups = new Map<number, Job[]>();
+  active.forEach((job, index) => {
+    const group = groups.get(root(index)) ?? [];
+    group.push(job);
+    groups.set(root(index), group);
+  });
+  return [...groups.values()]
+    .filter((group) => group.length > 1)
+    .map((group) =>
+      group.sort((a, b) =>
+        (a.createdAt ?? '').localeCompare(b.createdAt ?? '')
+      )
+    )
+    .sort((a, b) => a[0].company.localeCompare(b[0].company));
+}
+
+// `target` with everything from `others` folded in: their notes, tags,
+// interviews, tasks, documents and timelines are added, custom values fill
+// in the ones `target` lacks, and the earliest applied date wins.
+export function combineJobs(target: Job, others: Job[]): Job {
+  const all = [target, ...others];
+  const custom: Record<string, CustomValue> = {};
+  all.forEach((job) => {
+    Object.entries(job.custom).forEach(([key, value]) => {
+      if (isEmptyValue(custom[key]) && !isEmptyValue(value)) {
+        custom[key] = value;
+      }
+    });
+  });
+  const applied = all
+    .map((job) => job.appliedDate)
+    .filter((date): date is string => Boolean(date))
+    .sort()[0];
+  return {
+    ...target,
+    appliedDate: applied ?? target.appliedDate,
+    tags: dedupeTags(all.flatMap((job) => job.tags)),
+    notes: uniqueById(all.flatMap((job) => job.notes)),
+    custom: { ...target.custom, ...custom },
+    timeline: uniqueById(all.flatMap((job) => job.timeline ?? [])).sort(
+      (a, b) => a.createdAt.localeCompare(b.createdAt)
+    ),
+    interviews: nonEmpty(
+      uniqueById(all.flatMap((job) => job.interviews ?? []))
+    ),
+    tasks: nonEmpty(uniqueById(all.flatMap((job) => job.tasks ?? []))),
+    documentIds: nonEmpty([
+      ...new Set(all.flatMap((job) => job.documentIds ?? []))
+    ])
+  };
+}
+
+export function loadDismissed(): string[] {
+  const raw = localStorage.getItem(DISMISSED_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter((key): key is string => typeof key === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// Remembers that the applications in `ids` are not duplicates of each other.
+export function dismissDuplicates(ids: string[]) {
+  const dismissed = new Set(loadDismissed());
+  ids.forEach((a, index) =>
+    ids.slice(index + 1).forEach((b) => dismissed.add(pairKey(a, b)))
+  );
+  localStorage.setItem(DISMISSED_KEY, JSON.stringify([...dismissed]));
+}
+
+function pairKey(a: string, b: string) {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function toWords(value: string) {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function uniqueById<T extends { id: string }>(items: T[]) {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    if (seen.has(item.id)) return false;
+    seen.add(item.id);
+    return true;
+  });
+}
+
+function nonEmpty<T>(items: T[]) {
+  return items.length > 0 ? items : undefined;
+}
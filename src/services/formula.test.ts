@@ -0,0 +1,154 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { CustomField, Job } from '../types';
+import {
+  compareFormulaValues,
+  compileFormula,
+  computeValues,
+  evaluateFormula,
+  renameFieldReferences
+} from './formula';
+import {
+  setRepository,
+  subscribeSchema,
+  updateCustomField,
+  upsertCustomField
+} from './jobs';
+import { createIndexedDbRepository } from './storage';
+
+const fields: CustomField[] = [
+  { id: 'base', name: 'Base', type: 'currency', currency: 'USD' },
+  { id: 'bonus', name: 'Bonus', type: 'number' },
+  { id: 'total', name: 'Total comp', type: 'computed', formula: '' },
+  {
+    id: 'waiting',
+    name: 'Days waiting',
+    type: 'computed',
+    formula: 'days_since(statusChangedAt)'
+  }
+];
+
+const job: Job = {
+  id: 'job-1',
+  company: 'Acme',
+  role: 'Engineer',
+  status: 'offer',
+  appliedDate: '2024-03-01',
+  tags: [],
+  notes: [],
+  custom: { base: { currency: 'USD', min: 100000, max: 120000 }, bonus: 5000 },
+  timeline: [
+    {
+      id: 'event-1',
+      type: 'status_changed',
+      label: 'Offer',
+      createdAt: '2024-03-10T12:00:00.000Z'
+    }
+  ]
+};
+
+function withTotal(formula: string) {
+  return fields.map((field) =>
+    field.id === 'total' ? { ...field, formula } : field
+  );
+}
+
+function run(formula: string, schema: CustomField[] = fields) {
+  const values = computeValues(job, schema, '2024-03-20');
+  return evaluateFormula(
+    compileFormula(formula, schema),
+    job,
+    values,
+    '2024-03-20'
+  );
+}
+
+describe('formulas', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('computes values from fields and built-ins', () => {
+    const schema = withTotal('{Base} + coalesce({bonus}, 0)');
+    expect(computeValues(job, schema, '2024-03-20')).toEqual({
+      total: 105000,
+      waiting: 10
+    });
+    expect(run('{Total comp} / 1000 > 100', schema)).toBe(true);
+    expect(run('days_between(appliedDate, today)')).toBe(19);
+    expect(run('if(status = "Offer", company + " – " + role, "no")')).toBe(
+      'Acme – Engineer'
+    );
+    expect(run('round(10 / 3, 2) * -1')).toBe(-3.33);
+    expect(run('{Bonus} / 0')).toBeNull();
+    expect(run('not contains(role, "manager") and {Days waiting} >= 10')).toBe(
+      true
+    );
+  });
+
+  it('explains formulas it cannot run', () => {
+    const error = (formula: string, selfId?: string) => {
+      try {
+        compileFormula(formula, fields, selfId);
+        return null;
+      } catch (caught) {
+        return (caught as Error).message;
+      }
+    };
+    expect(error('{Salary} * 2')).toBe('Unknown field {Salary}.');
+    expect(error('constructor')).toBe(
+      'Unknown name constructor. ' +
+        'Put custom fields in braces, like {constructor}.'
+    );
+    expect(error('alert(1)')).toBe('Unknown function alert.');
+    expect(error('days_since()')).toBe('days_since takes 1 value.');
+    expect(error('(1 + 2')).toBe('Add the missing ")".');
+    expect(error('1 + ; 2')).toBe('Unexpected ";" at character 5.');
+    expect(error('{Total comp} + 1', 'total')).toBe(
+      'A formula cannot use its own field.'
+    );
+    const looped = withTotal('{Days waiting}').map((field) =>
+      field.id === 'waiting' ? { ...field, formula: '{Total comp}' } : field
+    );
+    expect(() => compileFormula('{Days waiting}', looped, 'total')).toThrow(
+      '{Days waiting} already depends on this field.'
+    );
+  });
+
+  it('sorts numbers first and empty values last', () => {
+    const values = [null, 'b', 3, true, 1, 'a'];
+    expect(values.sort(compareFormulaValues)).toEqual([
+      1,
+      3,
+      'a',
+      'b',
+      true,
+      null
+    ]);
+  });
+
+  it('keeps formulas working when fields are renamed', async () => {
+    expect(renameFieldReferences('{base} + {Base2}', 'Base', 'Salary')).toBe(
+      '{Salary} + {Base2}'
+    );
+    const base = await upsertCustomField('Base', 'number');
+    await upsertCustomField('Double', 'computed', { formula: '{Base} * 2' });
+    await expect(
+      upsertCustomField('Broken', 'computed', { formula: '{Missing}' })
+    ).rejects.toThrow('Unknown field {Missing}.');
+
+    await updateCustomField(base, { name: 'Base salary' });
+    const schema = await new Promise<CustomField[]>((resolve) => {
+      const unsubscribe = subscribeSchema((value) => {
+        unsubscribe();
+        resolve(value);
+      });
+    });
+    expect(schema.map((field) => field.formula)).toEqual([
+      undefined,
+      '{Base salary} * 2'
+    ]);
+  });
+});
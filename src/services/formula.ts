@@ -0,0 +1,656 @@
+import type { CustomField, CustomValue, Job } from '../types';
+import { findField } from './schema';
+import { localDate } from './tasks';
+
+// Formulas are parsed into a small tree and evaluated by walking it, so they
+// can only read the application they run on and call the functions below.
+
+export type FormulaValue = number | string | boolean | null;
+
+export type Formula = {
+  node: FormulaNode;
+  fieldIds: string[];
+};
+
+export type CompiledFields = Map<string, Formula | Error>;
+
+export const MAX_FORMULA_LENGTH = 500;
+
+// Built-in names a formula can use besides custom fields in braces.
+export const FORMULA_NAMES = [
+  'today',
+  'company',
+  'role',
+  'status',
+  'appliedDate',
+  'createdAt',
+  'updatedAt',
+  'statusChangedAt',
+  'lastActivityAt'
+] as const;
+
+type FormulaName = (typeof FORMULA_NAMES)[number];
+
+type BinaryOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '%'
+  | '='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'and'
+  | 'or';
+
+type FormulaNode =
+  | { kind: 'literal'; value: FormulaValue }
+  | { kind: 'field'; id: string }
+  | { kind: 'name'; name: FormulaName }
+  | { kind: 'not' | 'negate'; operand: FormulaNode }
+  | {
+      kind: 'binary';
+      operator: BinaryOperator;
+      left: FormulaNode;
+      right: FormulaNode;
+    }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+type Token = {
+  type: 'number' | 'string' | 'field' | 'word' | 'operator' | 'end';
+  text: string;
+  start: number;
+  end: number;
+};
+
+type FormulaFunction = {
+  args: [number, number];
+  run: (args: FormulaValue[], today: string) => FormulaValue;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})/;
+const OPERATORS = ['<=', '>=', '!=', '<>', '==', '&&', '||'];
+const SINGLE_OPERATORS = '+-*/%(),<>=!';
+const COMPARISONS: Record<string, BinaryOperator> = {
+  '=': '=',
+  '==': '=',
+  '!=': '!=',
+  '<>': '!=',
+  '<': '<',
+  '<=': '<=',
+  '>': '>',
+  '>=': '>='
+};
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  // `if` is evaluated lazily in evaluate(); this entry only checks arity.
+  if: { args: [2, 3], run: () => null },
+  days_between: {
+    args: [2, 2],
+    run: ([from, to]) => daysBetween(from, to)
+  },
+  days_since: {
+    args: [1, 1],
+    run: ([from], today) => daysBetween(from, today)
+  },
+  round: {
+    args: [1, 2],
+    run: ([value, digits]) => {
+      if (typeof value !== 'number') return null;
+      const scale = 10 ** (typeof digits === 'number' ? digits : 0);
+      return Math.round(value * scale) / scale;
+    }
+  },
+  floor: { args: [1, 1], run: ([value]) => numeric(value, Math.floor) },
+  ceil: { args: [1, 1], run: ([value]) => numeric(value, Math.ceil) },
+  abs: { args: [1, 1], run: ([value]) => numeric(value, Math.abs) },
+  min: {
+    args: [1, Infinity],
+    run: (values) => extreme(values, Math.min)
+  },
+  max: {
+    args: [1, Infinity],
+    run: (values) => extreme(values, Math.max)
+  },
+  coalesce: {
+    args: [1, Infinity],
+    run: (values) => values.find((value) => !isBlank(value)) ?? null
+  },
+  contains: {
+    args: [2, 2],
+    run: ([text, part]) =>
+      typeof text === 'string' && !isBlank(part)
+        ? text.toLowerCase().includes(String(part).toLowerCase())
+        : false
+  }
+};
+
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTIONS);
+
+// Parses `source` and checks every field, name and function it uses against
+// `fields`. `selfId` is the computed field the formula belongs to, which it
+// must not depend on.
+export function compileFormula(
+  source: string,
+  fields: CustomField[],
+  selfId?: string
+): Formula {
+  const text = source.trim();
+  if (!text) throw new Error('Write a formula.');
+  if (text.length > MAX_FORMULA_LENGTH) {
+    throw new Error(`Keep formulas under ${MAX_FORMULA_LENGTH} characters.`);
+  }
+  const fieldIds: string[] = [];
+  const node = parse(tokenize(text), (name) => {
+    const field =
+      fields.find((item) => item.id === name.trim()) ??
+      findField(fields, name);
+    if (!field) throw new Error(`Unknown field {${name.trim()}}.`);
+    if (!fieldIds.includes(field.id)) fieldIds.push(field.id);
+    return field.id;
+  });
+  if (selfId) {
+    const loop = fieldIds.find((id) => dependsOn(id, selfId, fields));
+    if (loop) {
+      const name = fields.find((field) => field.id === loop)?.name;
+      throw new Error(
+        loop === selfId
+          ? 'A formula cannot use its own field.'
+          : `{${name}} already depends on this field.`
+      );
+    }
+  }
+  return { node, fieldIds };
+}
+
+export function compileFields(fields: CustomField[]): CompiledFields {
+  const compiled: CompiledFields = new Map();
+  fields
+    .filter((field) => field.type === 'computed')
+    .forEach((field) => {
+      try {
+        compiled.set(
+          field.id,
+          compileFormula(field.formula ?? '', fields, field.id)
+        );
+      } catch (error) {
+        compiled.set(
+          field.id,
+          error instanceof Error ? error : new Error(String(error))
+        );
+      }
+    });
+  return compiled;
+}
+
+// The value of every computed field on `job`. Fields whose formula is
+// broken, or that hit a value of the wrong kind, come out empty.
+export function computeValues(
+  job: Job,
+  fields: CustomField[],
+  today: string = localDate(),
+  compiled: CompiledFields = compileFields(fields)
+): Record<string, FormulaValue> {
+  const values: Record<string, FormulaValue> = {};
+  const pending = new Set<string>();
+  const resolve = (id: string): FormulaValue => {
+    const formula = compiled.get(id);
+    if (!formula) return toFormulaValue(job.custom[id]);
+    if (id in values) return values[id];
+    if (formula instanceof Error || pending.has(id)) return null;
+    pending.add(id);
+    values[id] = evaluate(formula.node, job, today, resolve);
+    pending.delete(id);
+    return values[id];
+  };
+  compiled.forEach((_formula, id) => resolve(id));
+  return values;
+}
+
+// Runs a formula that is not stored on a field, such as a filter, given the
+// computed values of `job` from computeValues().
+export function evaluateFormula(
+  formula: Formula,
+  job: Job,
+  computed: Record<string, FormulaValue>,
+  today: string = localDate()
+): FormulaValue {
+  return evaluate(formula.node, job, today, (id) =>
+    id in computed ? computed[id] : toFormulaValue(job.custom[id])
+  );
+}
+
+// Sort order for formula results: numbers, then text, then yes before no,
+// with empty values last.
+export function compareFormulaValues(a: FormulaValue, b: FormulaValue) {
+  const rank = (value: FormulaValue) => {
+    if (value === null) return 3;
+    if (typeof value === 'boolean') return 2;
+    return typeof value === 'string' ? 1 : 0;
+  };
+  if (rank(a) !== rank(b)) return rank(a) - rank(b);
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b);
+  return Number(b === true) - Number(a === true);
+}
+
+export function formatFormulaValue(value: FormulaValue): string {
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') {
+    return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  }
+  return value;
+}
+
+export function isTruthy(value: FormulaValue) {
+  return value !== null && value !== false && value !== 0 && value !== '';
+}
+
+// Rewrites `{from}` references to `{to}` after a field is renamed. Formulas
+// that no longer parse are returned as they are.
+export function renameFieldReferences(
+  source: string,
+  from: string,
+  to: string
+) {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(source);
+  } catch {
+    return source;
+  }
+  const wanted = from.trim().toLowerCase();
+  return tokens
+    .filter(
+      (token) =>
+        token.type === 'field' && token.text.trim().toLowerCase() === wanted
+    )
+    .reverse()
+    .reduce(
+      (text, token) =>
+        `${text.slice(0, token.start)}{${to}}${text.slice(token.end)}`,
+      source
+    );
+}
+
+function evaluate(
+  node: FormulaNode,
+  job: Job,
+  today: string,
+  resolve: (id: string) => FormulaValue
+): FormulaValue {
+  const run = (child: FormulaNode) => evaluate(child, job, today, resolve);
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field':
+      return resolve(node.id);
+    case 'name':
+      return readName(node.name, job, today);
+    case 'not':
+      return !isTruthy(run(node.operand));
+    case 'negate': {
+      const value = run(node.operand);
+      return typeof value === 'number' ? -value : null;
+    }
+    case 'binary': {
+      if (node.operator === 'and') {
+        return isTruthy(run(node.left)) && isTruthy(run(node.right));
+      }
+      if (node.operator === 'or') {
+        return isTruthy(run(node.left)) || isTruthy(run(node.right));
+      }
+      return applyOperator(node.operator, run(node.left), run(node.right));
+    }
+    case 'call':
+      if (node.name === 'if') {
+        const [condition, then, otherwise] = node.args;
+        if (isTruthy(run(condition))) return run(then);
+        return otherwise ? run(otherwise) : null;
+      }
+      return FUNCTIONS[node.name].run(node.args.map(run), today);
+  }
+}
+
+function applyOperator(
+  operator: BinaryOperator,
+  left: FormulaValue,
+  right: FormulaValue
+): FormulaValue {
+  if (operator === '=') return sameValue(left, right);
+  if (operator === '!=') return !sameValue(left, right);
+  const text = typeof left === 'string' || typeof right === 'string';
+  if (operator === '+' && text) return `${left ?? ''}${right ?? ''}`;
+  if (typeof left === 'string' && typeof right === 'string') {
+    const order = left.localeCompare(right);
+    return compare(operator, order);
+  }
+  if (typeof left !== 'number' || typeof right !== 'number') return null;
+  switch (operator) {
+    case '+':
+      return left + right;
+    case '-':
+      return left - right;
+    case '*':
+      return left * right;
+    case '/':
+      return right === 0 ? null : left / right;
+    case '%':
+      return right === 0 ? null : left % right;
+    default:
+      return compare(operator, left - right);
+  }
+}
+
+function compare(operator: BinaryOperator, order: number) {
+  switch (operator) {
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+    default:
+      return null;
+  }
+}
+
+function sameValue(left: FormulaValue, right: FormulaValue) {
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left.toLowerCase() === right.toLowerCase();
+  }
+  return left === right;
+}
+
+function readName(name: FormulaName, job: Job, today: string): FormulaValue {
+  const timeline = job.timeline ?? [];
+  switch (name) {
+    case 'today':
+      return today;
+    case 'company':
+    case 'role':
+    case 'status':
+      return job[name];
+    case 'appliedDate':
+      return job.appliedDate || null;
+    case 'createdAt':
+    case 'updatedAt':
+      return toDay(job[name]);
+    case 'statusChangedAt': {
+      const changed = timeline
+        .filter((event) => event.type === 'status_changed')
+        .map((event) => event.createdAt)
+        .sort()
+        .pop();
+      return toDay(changed) ?? job.appliedDate ?? toDay(job.createdAt);
+    }
+    case 'lastActivityAt':
+      return toDay(timeline.map((event) => event.createdAt).sort().pop());
+  }
+}
+
+function toFormulaValue(value: CustomValue | undefined): FormulaValue {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) return value.join(', ');
+  // Ranges count as their lower end, so sums stay conservative.
+  if (typeof value === 'object') return value.min;
+  return value;
+}
+
+function toDay(value: string | undefined) {
+  return value ? localDate(new Date(value)) : null;
+}
+
+function daysBetween(from: FormulaValue, to: FormulaValue) {
+  const start = toTime(from);
+  const end = toTime(to);
+  if (start === null || end === null) return null;
+  return Math.round((end - start) / DAY_MS);
+}
+
+function toTime(value: FormulaValue) {
+  const match = typeof value === 'string' ? DATE_PATTERN.exec(value) : null;
+  if (!match) return null;
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function numeric(value: FormulaValue, apply: (value: number) => number) {
+  return typeof value === 'number' ? apply(value) : null;
+}
+
+function extreme(
+  values: FormulaValue[],
+  pick: (...values: number[]) => number
+) {
+  const numbers = values.filter(
+    (value): value is number => typeof value === 'number'
+  );
+  return numbers.length > 0 ? pick(...numbers) : null;
+}
+
+function isBlank(value: FormulaValue) {
+  return value === null || value === '';
+}
+
+function dependsOn(
+  id: string,
+  target: string,
+  fields: CustomField[],
+  seen = new Set<string>()
+): boolean {
+  if (id === target) return true;
+  if (seen.has(id)) return false;
+  seen.add(id);
+  const field = fields.find((item) => item.id === id);
+  if (field?.type !== 'computed') return false;
+  return referencedFields(field.formula ?? '', fields).some((next) =>
+    dependsOn(next, target, fields, seen)
+  );
+}
+
+function referencedFields(source: string, fields: CustomField[]) {
+  try {
+    return tokenize(source).flatMap((token) => {
+      if (token.type !== 'field') return [];
+      const field =
+        fields.find((item) => item.id === token.text.trim()) ??
+        findField(fields, token.text);
+      return field ? [field.id] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  const push = (type: Token['type'], text: string, start: number) =>
+    tokens.push({ type, text, start, end: index });
+  while (index < source.length) {
+    const start = index;
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (/\d/.test(char)) {
+      const [number] = /^\d+(\.\d+)?/.exec(source.slice(index))!;
+      index += number.length;
+      push('number', number, start);
+    } else if (char === '"' || char === "'") {
+      const close = source.indexOf(char, index + 1);
+      if (close === -1) {
+        throw new Error(
+          `Close the text that starts at character ${start + 1}.`
+        );
+      }
+      index = close + 1;
+      push('string', source.slice(start + 1, close), start);
+    } else if (char === '{') {
+      const close = source.indexOf('}', index + 1);
+      if (close === -1) {
+        throw new Error(
+          `Close the field name that starts at character ${start + 1}.`
+        );
+      }
+      index = close + 1;
+      push('field', source.slice(start + 1, close), start);
+    } else if (/[A-Za-z_]/.test(char)) {
+      const [word] = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index))!;
+      index += word.length;
+      push('word', word, start);
+    } else {
+      const operator =
+        OPERATORS.find((item) => source.startsWith(item, index)) ??
+        (SINGLE_OPERATORS.includes(char) ? char : null);
+      if (!operator) {
+        throw new Error(`Unexpected "${char}" at character ${start + 1}.`);
+      }
+      index += operator.length;
+      push('operator', operator, start);
+    }
+  }
+  tokens.push({ type: 'end', text: '', start: index, end: index });
+  return tokens;
+}
+
+// Recursive descent, loosest binding first: or, and, not, comparisons,
+// + and -, then *, / and %.
+function parse(
+  tokens: Token[],
+  resolveField: (name: string) => string
+): FormulaNode {
+  let index = 0;
+  const peek = () => tokens[index];
+  const accept = (...texts: string[]) => {
+    const token = peek();
+    const text = token.type === 'word' ? token.text.toLowerCase() : token.text;
+    if (token.type !== 'operator' && token.type !== 'word') return null;
+    if (!texts.includes(text)) return null;
+    index += 1;
+    return text;
+  };
+  const expect = (text: string) => {
+    if (accept(text)) return;
+    const token = peek();
+    throw token.type === 'end'
+      ? new Error(`Add the missing "${text}".`)
+      : unexpected(token);
+  };
+  const binary = (
+    next: () => FormulaNode,
+    operators: Record<string, BinaryOperator>
+  ) => {
+    let node = next();
+    for (;;) {
+      const operator = accept(...Object.keys(operators));
+      if (!operator) return node;
+      node = {
+        kind: 'binary',
+        operator: operators[operator],
+        left: node,
+        right: next()
+      };
+    }
+  };
+
+  const or = (): FormulaNode => binary(and, { or: 'or', '||': 'or' });
+  const and = (): FormulaNode => binary(not, { and: 'and', '&&': 'and' });
+  const not = (): FormulaNode =>
+    accept('not', '!') ? { kind: 'not', operand: not() } : comparison();
+  const comparison = (): FormulaNode => {
+    const left = additive();
+    const operator = accept(...Object.keys(COMPARISONS));
+    if (!operator) return left;
+    return {
+      kind: 'binary',
+      operator: COMPARISONS[operator],
+      left,
+      right: additive()
+    };
+  };
+  const additive = () => binary(multiplicative, { '+': '+', '-': '-' });
+  const multiplicative = () =>
+    binary(unary, { '*': '*', '/': '/', '%': '%' });
+  const unary = (): FormulaNode =>
+    accept('-') ? { kind: 'negate', operand: unary() } : primary();
+
+  const primary = (): FormulaNode => {
+    const token = peek();
+    index += 1;
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.text) };
+      case 'string':
+        return { kind: 'literal', value: token.text };
+      case 'field':
+        return { kind: 'field', id: resolveField(token.text) };
+      case 'word':
+        return word(token.text);
+      case 'operator':
+        if (token.text === '(') {
+          const node = or();
+          expect(')');
+          return node;
+        }
+        throw unexpected(token);
+      default:
+        throw unexpected(token);
+    }
+  };
+
+  const word = (text: string): FormulaNode => {
+    const lower = text.toLowerCase();
+    if (lower === 'true' || lower === 'false') {
+      return { kind: 'literal', value: lower === 'true' };
+    }
+    if (lower === 'null') return { kind: 'literal', value: null };
+    if (accept('(')) {
+      const name = FORMULA_FUNCTIONS.find((item) => item === lower);
+      if (!name) throw new Error(`Unknown function ${text}.`);
+      const args: FormulaNode[] = [];
+      if (!accept(')')) {
+        do args.push(or());
+        while (accept(','));
+        expect(')');
+      }
+      const [min, max] = FUNCTIONS[name].args;
+      if (args.length < min || args.length > max) {
+        throw new Error(`${name} takes ${describeArity(min, max)}.`);
+      }
+      return { kind: 'call', name, args };
+    }
+    const name = FORMULA_NAMES.find((item) => item.toLowerCase() === lower);
+    if (!name) {
+      throw new Error(
+        `Unknown name ${text}. Put custom fields in braces, like {${text}}.`
+      );
+    }
+    return { kind: 'name', name };
+  };
+
+  const node = or();
+  if (peek().type !== 'end') throw unexpected(peek());
+  return node;
+}
+
+function unexpected(token: Token) {
+  if (token.type === 'end') return new Error('The formula ends too early.');
+  return new Error(
+    `Unexpected "${token.type === 'field' ? `{${token.text}}` : token.text}" ` +
+      `at character ${token.start + 1}.`
+  );
+}
+
+function describeArity(min: number, max: number) {
+  const values = (count: number) => `${count} value${count === 1 ? '' : 's'}`;
+  if (min === max) return values(min);
+  if (max === Infinity) return `at least ${values(min)}`;
+  return `${min} or ${values(max)}`;
+}
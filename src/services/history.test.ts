@@ -0,0 +1,127 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { CustomField } from '../types';
+import {
+  HISTORY_LIMIT,
+  emptyHistory,
+  pushHistory,
+  rebaseSchema
+} from './history';
+import {
+  addJob,
+  addNote,
+  applyRemoteChanges,
+  deleteJob,
+  redo,
+  setRepository,
+  setStatus,
+  undo,
+  updateJob,
+  upsertCustomField
+} from './jobs';
+import { createIndexedDbRepository } from './storage';
+import { currentJobs } from './testUtils';
+
+describe('undo/redo', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('reverts and reapplies job mutations in order', async () => {
+    const id = await addJob({ company: 'Acme', role: 'Engineer' });
+    await setStatus(id, 'offer');
+    await addNote(id, 'Negotiating');
+
+    expect(await undo()).toBe('Added a note to Acme');
+    expect(await undo()).toBe('Moved Acme to Offer');
+    let [job] = await currentJobs();
+    expect(job.status).toBe('applied');
+    expect(job.notes).toEqual([]);
+    expect(job.timeline?.map((event) => event.type)).toEqual([
+      'created',
+      'status_changed'
+    ]);
+
+    expect(await redo()).toBe('Moved Acme to Offer');
+    [job] = await currentJobs();
+    expect(job.status).toBe('offer');
+  });
+
+  it('restores deleted jobs and persists the stack across reloads', async () => {
+    const id = await addJob({ company: 'Globex', role: 'Analyst' });
+    await deleteJob(id);
+    expect(await currentJobs()).toEqual([]);
+
+    setRepository(createIndexedDbRepository());
+    expect(await undo()).toBe('Moved Globex to trash');
+    expect((await currentJobs()).map((job) => job.id)).toEqual([id]);
+  });
+
+  it('keeps changes pulled in since when undoing', async () => {
+    const id = await addJob({ company: 'Acme', role: 'Engineer' });
+    await updateJob(id, { company: 'Acme Corp' });
+    await applyRemoteChanges((jobs) => ({
+      jobs: jobs.map((job) => ({
+        id: job.id,
+        before: job,
+        after: { ...job, role: 'Staff Engineer', tags: ['remote'] }
+      }))
+    }));
+
+    await undo();
+    let [job] = await currentJobs();
+    expect(job.company).toBe('Acme');
+    expect(job.role).toBe('Staff Engineer');
+    expect(job.tags).toEqual(['remote']);
+
+    await redo();
+    [job] = await currentJobs();
+    expect(job.company).toBe('Acme Corp');
+    expect(job.role).toBe('Staff Engineer');
+  });
+
+  it('undoes schema changes and clears redo after a new change', async () => {
+    await upsertCustomField('Source', 'text');
+    await undo();
+    await upsertCustomField('Salary', 'number');
+    expect(await redo()).toBeNull();
+    expect(await undo()).toBe('Added field Salary');
+    expect(await undo()).toBeNull();
+  });
+});
+
+describe('pushHistory', () => {
+  it('keeps only the most recent entries', () => {
+    let stack = emptyHistory();
+    for (let index = 0; index < HISTORY_LIMIT + 5; index += 1) {
+      stack = pushHistory(stack, {
+        id: `entry-${index}`,
+        label: `Change ${index}`,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        jobs: []
+      });
+    }
+    expect(stack.undo).toHaveLength(HISTORY_LIMIT);
+    expect(stack.undo[0].id).toBe('entry-5');
+  });
+});
+
+describe('rebaseSchema', () => {
+  it('only reverts the fields the entry touched', () => {
+    const source: CustomField = { id: 'source', name: 'Source', type: 'text' };
+    const salary: CustomField = { id: 'salary', name: 'Pay', type: 'number' };
+    const level: CustomField = { id: 'level', name: 'Level', type: 'text' };
+    // Undoing "renamed Salary to Pay" after another tab added Level and
+    // removed Source.
+    expect(
+      rebaseSchema(
+        {
+          before: [source, salary],
+          after: [source, { ...salary, name: 'Salary' }]
+        },
+        [salary, level]
+      )
+    ).toEqual([{ ...salary, name: 'Salary' }, level]);
+  });
+});
@@ -0,0 +1,119 @@
+import type { CustomField, Job } from '../types';
+import { mergeJob } from './merge';
+
+export type JobChange = {
+  id: string;
+  before: Job | null;
+  after: Job | null;
+};
+
+export type SchemaChange = {
+  before: CustomField[];
+  after: CustomField[];
+};
+
+export type HistoryEntry = {
+  id: string;
+  label: string;
+  createdAt: string;
+  jobs: JobChange[];
+  schema?: SchemaChange;
+};
+
+export type HistoryStack = {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+};
+
+export type HistoryStatus = {
+  undoLabel: string | null;
+  redoLabel: string | null;
+  last: { kind: 'do' | 'undo' | 'redo'; label: string; entryId: string } | null;
+};
+
+export const HISTORY_LIMIT = 50;
+
+export function emptyHistory(): HistoryStack {
+  return { undo: [], redo: [] };
+}
+
+export function pushHistory(
+  stack: HistoryStack,
+  entry: HistoryEntry,
+  limit: number = HISTORY_LIMIT
+): HistoryStack {
+  return {
+    undo: [...stack.undo, entry].slice(-limit),
+    redo: []
+  };
+}
+
+export function invertEntry(entry: HistoryEntry): HistoryEntry {
+  return {
+    ...entry,
+    jobs: entry.jobs.map((change) => ({
+      id: change.id,
+      before: change.after,
+      after: change.before
+    })),
+    schema: entry.schema
+      ? { before: entry.schema.after, after: entry.schema.before }
+      : undefined
+  };
+}
+
+// Replays `change` on top of `current`, the job as stored now. Only what
+// the change itself touched is written, so edits made since without a
+// history entry of their own (a sync pull, another tab) are kept; where both
+// touched the same field, the stored value is kept. Null when there is
+// nothing to write, e.g. the job has been purged since.
+export function rebaseChange(
+  change: JobChange,
+  current: Job | null
+): JobChange | null {
+  const { id, before, after } = change;
+  if (!after) return current ? { id, before: current, after: null } : null;
+  if (!before) return current ? null : { id, before: null, after };
+  if (!current) return null;
+  const merged = mergeJob(before, after, current).job;
+  return same(merged, current) ? null : { id, before: current, after: merged };
+}
+
+// The schema version of rebaseChange(): fields the change added, edited or
+// removed are set as it left them, the rest stay as they are now.
+export function rebaseSchema(
+  change: SchemaChange,
+  current: CustomField[]
+): CustomField[] {
+  const before = new Map(change.before.map((field) => [field.id, field]));
+  const after = new Map(change.after.map((field) => [field.id, field]));
+  const now = new Map(current.map((field) => [field.id, field]));
+  const touched = new Set(
+    [...before.keys(), ...after.keys()].filter(
+      (id) => !same(before.get(id), after.get(id))
+    )
+  );
+  return [
+    ...change.after.flatMap((field) => {
+      if (touched.has(field.id)) return [field];
+      const stored = now.get(field.id);
+      return stored ? [stored] : [];
+    }),
+    ...current.filter((field) => !after.has(field.id) && !touched.has(field.id))
+  ];
+}
+
+export function describeHistory(
+  stack: HistoryStack,
+  last: HistoryStatus['last']
+): HistoryStatus {
+  return {
+    undoLabel: stack.undo[stack.undo.length - 1]?.label ?? null,
+    redoLabel: stack.redo[stack.redo.length - 1]?.label ?? null,
+    last
+  };
+}
+
+function same(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
@@ -0,0 +1,122 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { InterviewRound, Job } from '../types';
+import { buildInterview, upcomingInterviews } from './interviews';
+import { addInterview, addJob, setRepository, updateInterview } from './jobs';
+import { mergeJob } from './merge';
+import { createIndexedDbRepository } from './storage';
+import { currentJobs } from './testUtils';
+
+function round(id: string, scheduledAt?: string): InterviewRound {
+  return {
+    id,
+    type: 'onsite',
+    scheduledAt,
+    interviewers: [],
+    outcome: 'pending',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  };
+}
+
+describe('interviews', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('normalizes form input', () => {
+    const built = buildInterview(
+      {
+        type: 'technical',
+        scheduledAt: '2024-03-01T10:00:00.000Z',
+        durationMinutes: 45.4,
+        interviewers: [' Sam ', ''],
+        prepNotes: '  '
+      },
+      { id: 'r1', createdAt: '2024-01-01T00:00:00.000Z' },
+      '2024-01-02T00:00:00.000Z'
+    );
+    expect(built).toEqual({
+      id: 'r1',
+      type: 'technical',
+      scheduledAt: '2024-03-01T10:00:00.000Z',
+      durationMinutes: 45,
+      interviewers: ['Sam'],
+      outcome: 'pending',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-02T00:00:00.000Z'
+    });
+    const cleared = buildInterview({ scheduledAt: null }, built, '');
+    expect(cleared.scheduledAt).toBeUndefined();
+  });
+
+  it('lists pending rounds from now on, soonest first', () => {
+    const job = (id: string, interviews: InterviewRound[]): Job => ({
+      id,
+      company: id,
+      role: 'Engineer',
+      status: 'interviewed',
+      tags: [],
+      notes: [],
+      custom: {},
+      interviews
+    });
+    const done: InterviewRound = {
+      ...round('done', '2024-05-03T00:00:00.000Z'),
+      outcome: 'passed'
+    };
+    const upcoming = upcomingInterviews(
+      [
+        job('a', [round('late', '2024-05-04T00:00:00.000Z'), done]),
+        job('b', [
+          round('past', '2024-04-01T00:00:00.000Z'),
+          round('soon', '2024-05-02T00:00:00.000Z'),
+          round('unscheduled')
+        ])
+      ],
+      new Date('2024-05-01T00:00:00.000Z')
+    );
+    expect(upcoming.map((item) => item.round.id)).toEqual(['soon', 'late']);
+  });
+
+  it('records scheduling and outcomes on the timeline', async () => {
+    const id = await addJob({ company: 'Acme', role: 'Engineer' });
+    const roundId = await addInterview(id, {
+      type: 'phone_screen',
+      scheduledAt: '2024-03-01T10:00:00.000Z'
+    });
+    await updateInterview(id, roundId, { outcome: 'passed' });
+
+    const [job] = await currentJobs();
+    expect(job.interviews?.[0]).toMatchObject({ outcome: 'passed' });
+    const types = job.timeline?.map((event) => event.type);
+    expect(types).toContain('interview_scheduled');
+    expect(types).toContain('interview_outcome');
+  });
+
+  it('keeps rounds added by concurrent writers', () => {
+    const base: Job = {
+      id: 'job-1',
+      company: 'Acme',
+      role: 'Engineer',
+      status: 'interviewed',
+      tags: [],
+      notes: [],
+      custom: {},
+      interviews: [round('shared')]
+    };
+    const ours = { ...base, interviews: [round('shared'), round('mine')] };
+    const theirs = {
+      ...base,
+      interviews: [{ ...round('shared'), outcome: 'passed' as const }]
+    };
+    const { job, conflicts } = mergeJob(base, ours, theirs);
+    expect(job.interviews?.map((item) => [item.id, item.outcome])).toEqual([
+      ['shared', 'passed'],
+      ['mine', 'pending']
+    ]);
+    expect(conflicts).toEqual([]);
+  });
+});
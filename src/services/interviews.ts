@@ -0,0 +1,137 @@
+import type {
+  InterviewOutcome,
+  InterviewRound,
+  InterviewType,
+  Job
+} from '../types';
+
+export type InterviewInput = {
+  type?: InterviewType;
+  scheduledAt?: string | null;
+  durationMinutes?: number | null;
+  interviewers?: string[];
+  outcome?: InterviewOutcome;
+  prepNotes?: string;
+  feedback?: string;
+};
+
+export type UpcomingInterview = {
+  job: Job;
+  round: InterviewRound;
+};
+
+export const INTERVIEW_TYPES: { label: string; value: InterviewType }[] = [
+  { label: 'Phone screen', value: 'phone_screen' },
+  { label: 'Online assessment', value: 'online_assessment' },
+  { label: 'Technical', value: 'technical' },
+  { label: 'Behavioral', value: 'behavioral' },
+  { label: 'Onsite', value: 'onsite' },
+  { label: 'Final round', value: 'final' },
+  { label: 'Other', value: 'other' }
+];
+
+export const INTERVIEW_OUTCOMES: { label: string; value: InterviewOutcome }[] =
+  [
+    { label: 'Pending', value: 'pending' },
+    { label: 'Passed', value: 'passed' },
+    { label: 'Failed', value: 'failed' },
+    { label: 'Cancelled', value: 'cancelled' }
+  ];
+
+// Applies `input` on top of `existing` (or a new round), normalizing what the
+// form sends: blank text and dates are dropped, interviewers are trimmed.
+export function buildInterview(
+  input: InterviewInput,
+  existing: Partial<InterviewRound> & Pick<InterviewRound, 'id' | 'createdAt'>,
+  now: string
+): InterviewRound {
+  const scheduledAt =
+    input.scheduledAt === undefined ? existing.scheduledAt : input.scheduledAt;
+  const duration =
+    input.durationMinutes === undefined
+      ? existing.durationMinutes
+      : input.durationMinutes;
+  const round: InterviewRound = {
+    id: existing.id,
+    type: input.type ?? existing.type ?? 'other',
+    interviewers: (input.interviewers ?? existing.interviewers ?? [])
+      .map((name) => name.trim())
+      .filter(Boolean),
+    outcome: input.outcome ?? existing.outcome ?? 'pending',
+    createdAt: existing.createdAt,
+    updatedAt: now
+  };
+  const when = scheduledAt ? new Date(scheduledAt) : null;
+  if (when && Number.isNaN(when.getTime())) {
+    throw new Error('Interview time is not a valid date.');
+  }
+  if (when) round.scheduledAt = when.toISOString();
+  if (typeof duration === 'number' && duration > 0) {
+    round.durationMinutes = Math.round(duration);
+  }
+  const prepNotes = (input.prepNotes ?? existing.prepNotes)?.trim();
+  const feedback = (input.feedback ?? existing.feedback)?.trim();
+  if (prepNotes) round.prepNotes = prepNotes;
+  if (feedback) round.feedback = feedback;
+  return round;
+}
+
+// Pending rounds scheduled from `now` on, soonest first.
+export function upcomingInterviews(
+  jobs: Job[],
+  now: Date = new Date()
+): UpcomingInterview[] {
+  const from = now.toISOString();
+  return jobs
+    .flatMap((job) =>
+      (job.interviews ?? [])
+        .filter(
+          (round) =>
+            round.outcome === 'pending' &&
+            Boolean(round.scheduledAt) &&
+            (round.scheduledAt as string) >= from
+        )
+        .map((round) => ({ job, round }))
+    )
+    .sort((a, b) =>
+      (a.round.scheduledAt as string).localeCompare(
+        b.round.scheduledAt as string
+      )
+    );
+}
+
+export function interviewTypeLabel(type: InterviewType) {
+  return (
+    INTERVIEW_TYPES.find((option) => option.value === type)?.label ?? type
+  );
+}
+
+export function interviewOutcomeLabel(outcome: InterviewOutcome) {
+  return (
+    INTERVIEW_OUTCOMES.find((option) => option.value === outcome)?.label ??
+    outcome
+  );
+}
+
+export function formatInterviewTime(value: string) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+export function isInterviewRound(value: unknown) {
+  if (!value || typeof value !== 'object') return false;
+  const round = value as Record<string, unknown>;
+  return (
+    typeof round.id === 'string' &&
+    typeof round.type === 'string' &&
+    typeof round.outcome === 'string' &&
+    Array.isArray(round.interviewers) &&
+    round.interviewers.every((name) => typeof name === 'string')
+  );
+}
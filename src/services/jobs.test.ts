@@ -0,0 +1,237 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Job } from '../types';
+import {
+  addJob,
+  changePassphrase,
+  deleteJob,
+  disableLock,
+  enableLock,
+  loadAiSettings,
+  lockWorkspace,
+  purgeExpiredTrash,
+  purgeJob,
+  restoreJob,
+  saveAiSettings,
+  setCustomFieldValue,
+  setRepository,
+  setStatus,
+  subscribeConflicts,
+  setTrashRetentionDays,
+  subscribeJobs,
+  subscribeLock,
+  subscribeTrash,
+  unlockWorkspace
+} from './jobs';
+import { createIndexedDbRepository, type JobConflict } from './storage';
+import { firstValue } from './testUtils';
+
+function readRawRecords() {
+  return new Promise<unknown[]>((resolve, reject) => {
+    const request = indexedDB.open('resumeTracker');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      const stores = Array.from(db.objectStoreNames);
+      const tx = db.transaction(stores, 'readonly');
+      const records: unknown[] = [];
+      stores.forEach((name) => {
+        const read = tx.objectStore(name).getAll();
+        read.onsuccess = () => records.push(...read.result);
+      });
+      tx.oncomplete = () => {
+        db.close();
+        resolve(records);
+      };
+    };
+  });
+}
+
+describe('trash', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('soft deletes and restores jobs', async () => {
+    const id = await addJob({ company: 'Acme', role: 'Engineer' });
+    await deleteJob(id);
+
+    expect(await firstValue(subscribeJobs)).toEqual([]);
+    const [trashed] = await firstValue(subscribeTrash);
+    expect(trashed.id).toBe(id);
+    expect(trashed.deletedAt).toBeTruthy();
+
+    await restoreJob(id);
+    const [restored] = await firstValue(subscribeJobs);
+    expect(restored.deletedAt).toBeUndefined();
+    expect(restored.timeline?.map((event) => event.type)).toContain('restored');
+    expect(await firstValue(subscribeTrash)).toEqual([]);
+  });
+
+  it('permanently deletes jobs from the trash', async () => {
+    const id = await addJob({ company: 'Acme', role: 'Engineer' });
+    await deleteJob(id);
+    await purgeJob(id);
+
+    const repository = createIndexedDbRepository();
+    expect(await repository.loadJobs()).toEqual([]);
+    repository.close();
+  });
+
+  it('purges jobs older than the retention period', async () => {
+    setTrashRetentionDays(7);
+    const day = 24 * 60 * 60 * 1000;
+    const first = await addJob({ company: 'Acme', role: 'Engineer' });
+    const second = await addJob({ company: 'Globex', role: 'Analyst' });
+    await deleteJob(first);
+    await deleteJob(second);
+
+    expect(await purgeExpiredTrash(new Date(Date.now() + 6 * day))).toBe(0);
+    expect(await firstValue(subscribeTrash)).toHaveLength(2);
+    expect(await purgeExpiredTrash(new Date(Date.now() + 8 * day))).toBe(2);
+    expect(await firstValue(subscribeTrash)).toEqual([]);
+  });
+});
+
+describe('concurrent writers', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  // `other` stands in for a second tab that read the same job and saved first.
+  async function editInOtherTab(id: string, update: (job: Job) => Job) {
+    const other = createIndexedDbRepository();
+    const stored = (await other.loadJobs()).find((job) => job.id === id)!;
+    const after = {
+      ...update(stored),
+      revision: (stored.revision ?? 0) + 1
+    };
+    await other.commitJobs([{ id, before: stored, after }]);
+    other.close();
+  }
+
+  it('keeps edits to different fields from both tabs', async () => {
+    const id = await addJob({ company: 'Acme', role: 'Engineer' });
+    await firstValue(subscribeJobs);
+    await editInOtherTab(id, (job) => ({ ...job, status: 'interviewed' }));
+
+    await setCustomFieldValue(id, 'source', 'Referral');
+
+    const repository = createIndexedDbRepository();
+    const [stored] = await repository.loadJobs();
+    repository.close();
+    expect(stored.status).toBe('interviewed');
+    expect(stored.custom).toEqual({ source: 'Referral' });
+    expect(stored.revision).toBe(3);
+    const [cached] = await firstValue(subscribeJobs);
+    expect(cached).toEqual(stored);
+  });
+
+  it('reports clashing edits and keeps the stored value', async () => {
+    const id = await addJob({ company: 'Acme', role: 'Engineer' });
+    await firstValue(subscribeJobs);
+    await editInOtherTab(id, (job) => ({ ...job, status: 'offer' }));
+
+    const reported: JobConflict[] = [];
+    const unsubscribe = subscribeConflicts((conflicts) =>
+      reported.push(...conflicts)
+    );
+    await setStatus(id, 'rejected');
+    unsubscribe();
+
+    expect(reported).toEqual([
+      {
+        id,
+        company: 'Acme',
+        deleted: false,
+        fields: [{ field: 'status', ours: 'rejected', theirs: 'offer' }]
+      }
+    ]);
+    const [cached] = await firstValue(subscribeJobs);
+    expect(cached.status).toBe('offer');
+  });
+});
+
+describe('workspace lock', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('encrypts stored data until the passphrase is entered', async () => {
+    await addJob({ company: 'Acme', role: 'Engineer' });
+    await saveAiSettings({
+      apiKey: 'sk-secret',
+      baseUrl: 'https://api.openai.com',
+      model: 'gpt-4o-mini'
+    });
+    await enableLock('correct horse');
+
+    const raw = JSON.stringify(await readRawRecords());
+    expect(raw).not.toContain('Acme');
+    expect(raw).not.toContain('sk-secret');
+
+    setRepository(createIndexedDbRepository());
+    expect(await firstValue(subscribeLock)).toBe('locked');
+    await expect(unlockWorkspace('wrong horse')).rejects.toThrow(
+      'Incorrect passphrase.'
+    );
+    await unlockWorkspace('correct horse');
+    expect(await firstValue(subscribeLock)).toBe('unlocked');
+    const [job] = await firstValue(subscribeJobs);
+    expect(job.company).toBe('Acme');
+    expect((await loadAiSettings()).apiKey).toBe('sk-secret');
+  });
+
+  it('refuses to write in the clear once locked', async () => {
+    const repository = createIndexedDbRepository();
+    setRepository(repository);
+    await addJob({ company: 'Acme', role: 'Engineer' });
+    await enableLock('correct horse');
+    lockWorkspace();
+
+    await expect(
+      repository.saveTagColors({ leaked: '#ff0000' })
+    ).rejects.toThrow('Workspace is locked.');
+    await expect(
+      repository.saveAiSettings({
+        apiKey: 'sk-leaked',
+        baseUrl: 'https://api.openai.com',
+        model: 'gpt-4o-mini'
+      })
+    ).rejects.toThrow('Workspace is locked.');
+    await expect(
+      addJob({ company: 'Leaked', role: 'Engineer' })
+    ).rejects.toThrow('Workspace is locked.');
+    const raw = JSON.stringify(await readRawRecords());
+    expect(raw).not.toContain('leaked');
+    expect(raw).not.toContain('Leaked');
+
+    await unlockWorkspace('correct horse');
+    await repository.saveTagColors({ remote: '#00ff00' });
+    expect(await repository.loadTagColors()).toEqual({ remote: '#00ff00' });
+  });
+
+  it('re-encrypts on passphrase change and decrypts when removed', async () => {
+    const id = await addJob({ company: 'Acme', role: 'Engineer' });
+    await enableLock('first passphrase');
+    await changePassphrase('first passphrase', 'second passphrase');
+    await setStatus(id, 'offer');
+
+    setRepository(createIndexedDbRepository());
+    await expect(unlockWorkspace('first passphrase')).rejects.toThrow();
+    await unlockWorkspace('second passphrase');
+    await disableLock('second passphrase');
+
+    setRepository(createIndexedDbRepository());
+    expect(await firstValue(subscribeLock)).toBe('disabled');
+    const [job] = await firstValue(subscribeJobs);
+    expect(job.status).toBe('offer');
+    expect(JSON.stringify(await readRawRecords())).toContain('Acme');
+  });
+});
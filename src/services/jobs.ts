@@ -1,26 +1,167 @@
-import type { CustomField, Job, JobStatus, TimelineEvent } from '../types';
-import { makeFieldId } from './schema';
-
-const JOBS_KEY = 'resumeTracker.jobs';
-const SCHEMA_KEY = 'resumeTracker.schema';
-const STATUS_LABELS: Record<JobStatus, string> = {
-  applied: 'Applied',
-  interviewed: 'Interviewing',
-  offer: 'Offer',
-  accepted: 'Accepted',
-  rejected: 'Rejected',
-  archived: 'Archived'
+import type {
+  Contact,
+  CustomField,
+  CustomValue,
+  InterviewRound,
+  ChangeSource,
+  Job,
+  JobNote,
+  JobStatus,
+  JobTask,
+  PipelineStage,
+  StoredDocument,
+  TimelineEvent
+} from '../types';
+import { DEFAULT_AI_SETTINGS, type AiSettings } from './ai';
+import { buildContact, sortContacts, type ContactInput } from './contacts';
+import { MAX_DOCUMENT_BYTES, type DocumentInput } from './documents';
+import {
+  combineJobs,
+  findDuplicates,
+  type DuplicateInput
+} from './duplicates';
+import { compileFormula, renameFieldReferences } from './formula';
+import {
+  buildInterview,
+  formatInterviewTime,
+  interviewOutcomeLabel,
+  interviewTypeLabel,
+  type InterviewInput
+} from './interviews';
+import { buildNote } from './notes';
+import { addDays, buildTask, localDate, type TaskInput } from './tasks';
+import { createLock, fromBase64, openLock, toBase64 } from './crypto';
+import {
+  describeHistory,
+  emptyHistory,
+  invertEntry,
+  pushHistory,
+  rebaseChange,
+  rebaseSchema,
+  type HistoryEntry,
+  type HistoryStack,
+  type HistoryStatus,
+  type JobChange,
+  type SchemaChange
+} from './history';
+import {
+  archiveStage,
+  derivePipeline,
+  findStage,
+  normalizePipeline,
+  restoreDarkColors,
+  sortStages,
+  stageLabel,
+  transitionError
+} from './pipeline';
+import {
+  createFieldId,
+  findField,
+  findOrphanedFields,
+  isCustomField,
+  isCustomValue,
+  normalizeCustomValues,
+  normalizeFieldSettings,
+  type FieldSettings,
+  parseCustomValue,
+  sameValue
+} from './schema';
+import { hasTag, normalizeTag, replaceTag, sameTag } from './tags';
+import {
+  buildManualEvent,
+  isManualEvent,
+  type ManualEventInput
+} from './timeline';
+import type { SyncRecord } from './sync';
+import {
+  expiredSnapshots,
+  sameJob,
+  type Snapshot,
+  type SnapshotReason
+} from './snapshots';
+import {
+  createIndexedDbRepository,
+  createRecoveryEntry,
+  type CommitResult,
+  type JobConflict,
+  type RecoveryEntry,
+  type StorageRepository
+} from './storage';
+import { validateJob } from './validation';
+
+const CHANNEL_NAME = 'resumeTracker.changes';
+const TRASH_RETENTION_KEY = 'resumeTracker.trashRetentionDays';
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const AUTO_LOCK_KEY = 'resumeTracker.autoLockMinutes';
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+const FOLLOW_UP_KEY = 'resumeTracker.followUpDays';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Listener<T> = (value: T) => void;
+
+type ChangeTopic =
+  | 'jobs'
+  | 'schema'
+  | 'pipeline'
+  | 'history'
+  | 'snapshots'
+  | 'contacts'
+  | 'documents'
+  | 'tags'
+  | 'lock';
+
+// Tabs may have different workspaces open, so every change names the
+// database it happened in.
+type ChangeMessage = { topic: ChangeTopic; scope: string };
+
+export type LockState = 'disabled' | 'locked' | 'unlocked';
+
+// A mutation made in this browser (as opposed to one pulled from a sync
+// server), as seen by the sync engine.
+export type LocalChange = {
+  jobs: JobChange[];
+  schema?: CustomField[];
 };
 
-type SchemaPayload = {
-  customFields: CustomField[];
+// What a bulk action did: how many applications changed, and the ones it
+// left alone because the change was not allowed for them.
+export type BulkResult = {
+  updated: number;
+  skipped: { id: string; message: string }[];
 };
 
-type Listener<T> = (value: T) => void;
+type CommitOptions = {
+  schema?: SchemaChange;
+  remote?: boolean;
+};
 
 const jobListeners = new Set<Listener<Job[]>>();
+const trashListeners = new Set<Listener<Job[]>>();
 const schemaListeners = new Set<Listener<CustomField[]>>();
-let storageListenerAttached = false;
+const pipelineListeners = new Set<Listener<PipelineStage[]>>();
+const recoveryListeners = new Set<Listener<RecoveryEntry[]>>();
+const historyListeners = new Set<Listener<HistoryStatus>>();
+const conflictListeners = new Set<Listener<JobConflict[]>>();
+const lockListeners = new Set<Listener<LockState>>();
+const snapshotListeners = new Set<Listener<Snapshot[]>>();
+const contactListeners = new Set<Listener<Contact[]>>();
+const documentListeners = new Set<Listener<StoredDocument[]>>();
+const tagColorListeners = new Set<Listener<Record<string, string>>>();
+const localChangeListeners = new Set<Listener<LocalChange>>();
+let repository: StorageRepository | null = null;
+let jobsCache: Job[] | null = null;
+let jobsLoading: Promise<Job[]> | null = null;
+let schemaCache: CustomField[] | null = null;
+let schemaLoading: Promise<CustomField[]> | null = null;
+let pipelineCache: PipelineStage[] | null = null;
+let pipelineLoading: Promise<PipelineStage[]> | null = null;
+let historyCache: HistoryStack | null = null;
+let historyLoading: Promise<HistoryStack> | null = null;
+let lastHistoryEvent: HistoryStatus['last'] = null;
+let lockState: LockState | null = null;
+let historyQueue: Promise<unknown> = Promise.resolve();
+let channel: BroadcastChannel | null = null;
+let channelListenerAttached = false;
 
 export type JobInput = {
   company: string;
@@ -29,46 +170,246 @@ export type JobInput = {
   appliedDate?: string;
   tags?: string[];
   notes?: string[];
-  custom?: Record<string, string | number | null>;
+  // Who made the change; manual unless set.
+  source?: ChangeSource;
+  // Keyed by field id or name; values are checked against the field type.
+  custom?: Record<string, unknown>;
 };
 
+export function setRepository(next: StorageRepository) {
+  repository?.close();
+  repository = next;
+  lockState = null;
+  clearCaches();
+  if (lockListeners.size > 0) loadLockState().then(notifyLock);
+  if (jobListeners.size > 0 || trashListeners.size > 0) {
+    loadJobs().then(notifyJobs);
+  }
+  if (schemaListeners.size > 0) loadSchema().then(notifySchema);
+  if (pipelineListeners.size > 0) loadPipeline().then(notifyPipeline);
+  if (recoveryListeners.size > 0) refreshRecovery();
+  if (historyListeners.size > 0) loadHistory().then(notifyHistory);
+  if (snapshotListeners.size > 0) refreshSnapshots();
+  if (contactListeners.size > 0) refreshContacts();
+  if (documentListeners.size > 0) refreshDocuments();
+  if (tagColorListeners.size > 0) refreshTagColors();
+}
+
 export function subscribeJobs(onChange: (jobs: Job[]) => void) {
   jobListeners.add(onChange);
-  onChange(loadJobs());
-  attachStorageListener();
+  loadJobs().then((jobs) => {
+    if (jobListeners.has(onChange)) onChange(activeJobs(jobs));
+    takeDailySnapshot()
+      .catch(() => undefined)
+      .then(() => purgeExpiredTrash());
+  });
+  attachChannelListener();
   return () => {
     jobListeners.delete(onChange);
   };
 }
 
+export function subscribeTrash(onChange: (jobs: Job[]) => void) {
+  trashListeners.add(onChange);
+  loadJobs().then((jobs) => {
+    if (trashListeners.has(onChange)) onChange(trashedJobs(jobs));
+  });
+  attachChannelListener();
+  return () => {
+    trashListeners.delete(onChange);
+  };
+}
+
 export function subscribeSchema(onChange: (fields: CustomField[]) => void) {
   schemaListeners.add(onChange);
-  onChange(loadSchema());
-  attachStorageListener();
+  loadSchema().then((fields) => {
+    if (schemaListeners.has(onChange)) onChange(fields);
+  });
+  attachChannelListener();
   return () => {
     schemaListeners.delete(onChange);
   };
 }
 
+export function subscribePipeline(
+  onChange: (stages: PipelineStage[]) => void
+) {
+  pipelineListeners.add(onChange);
+  loadPipeline().then((stages) => {
+    if (pipelineListeners.has(onChange)) onChange(stages);
+  });
+  attachChannelListener();
+  return () => {
+    pipelineListeners.delete(onChange);
+  };
+}
+
+export function subscribeRecovery(
+  onChange: (entries: RecoveryEntry[]) => void
+) {
+  recoveryListeners.add(onChange);
+  loadJobs()
+    .then(() => getRepository().loadRecovery())
+    .then((entries) => {
+      if (recoveryListeners.has(onChange)) onChange(entries);
+    });
+  return () => {
+    recoveryListeners.delete(onChange);
+  };
+}
+
+export async function dismissRecoveryEntry(id: string) {
+  await getRepository().deleteRecovery(id);
+  await refreshRecovery();
+}
+
+export function subscribeConflicts(
+  onConflict: (conflicts: JobConflict[]) => void
+) {
+  conflictListeners.add(onConflict);
+  attachChannelListener();
+  return () => {
+    conflictListeners.delete(onConflict);
+  };
+}
+
+export function subscribeSnapshots(
+  onChange: (snapshots: Snapshot[]) => void
+) {
+  snapshotListeners.add(onChange);
+  getRepository()
+    .loadSnapshots()
+    .then((snapshots) => {
+      if (snapshotListeners.has(onChange)) onChange(snapshots);
+    });
+  attachChannelListener();
+  return () => {
+    snapshotListeners.delete(onChange);
+  };
+}
+
+export function subscribeContacts(onChange: (contacts: Contact[]) => void) {
+  contactListeners.add(onChange);
+  loadContacts().then((contacts) => {
+    if (contactListeners.has(onChange)) onChange(contacts);
+  });
+  attachChannelListener();
+  return () => {
+    contactListeners.delete(onChange);
+  };
+}
+
+export function subscribeDocuments(
+  onChange: (documents: StoredDocument[]) => void
+) {
+  documentListeners.add(onChange);
+  getRepository()
+    .loadDocuments()
+    .then((documents) => {
+      if (documentListeners.has(onChange)) onChange(documents);
+    });
+  attachChannelListener();
+  return () => {
+    documentListeners.delete(onChange);
+  };
+}
+
+export function subscribeTagColors(
+  onChange: (colors: Record<string, string>) => void
+) {
+  tagColorListeners.add(onChange);
+  getRepository()
+    .loadTagColors()
+    .then((colors) => {
+      if (tagColorListeners.has(onChange)) onChange(colors);
+    });
+  attachChannelListener();
+  return () => {
+    tagColorListeners.delete(onChange);
+  };
+}
+
+export function subscribeHistory(onChange: (status: HistoryStatus) => void) {
+  historyListeners.add(onChange);
+  loadHistory().then((stack) => {
+    if (historyListeners.has(onChange)) {
+      onChange(describeHistory(stack, lastHistoryEvent));
+    }
+  });
+  attachChannelListener();
+  return () => {
+    historyListeners.delete(onChange);
+  };
+}
+
+export function undo() {
+  return enqueueHistory(async () => {
+    const { undo: undoStack } = await loadHistory();
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return null;
+    await replayEntry(invertEntry(entry));
+    const stack = historyCache ?? (await loadHistory());
+    await saveHistory(
+      {
+        undo: stack.undo.filter((item) => item.id !== entry.id),
+        redo: [...stack.redo, entry]
+      },
+      { kind: 'undo', label: entry.label, entryId: entry.id }
+    );
+    return entry.label;
+  });
+}
+
+export function redo() {
+  return enqueueHistory(async () => {
+    const { redo: redoStack } = await loadHistory();
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return null;
+    await replayEntry(entry);
+    const stack = historyCache ?? (await loadHistory());
+    await saveHistory(
+      {
+        undo: [...stack.undo, entry],
+        redo: stack.redo.filter((item) => item.id !== entry.id)
+      },
+      { kind: 'redo', label: entry.label, entryId: entry.id }
+    );
+    return entry.label;
+  });
+}
+
 export async function addJob(input: JobInput) {
-  const jobs = loadJobs();
-  const status = input.status ?? 'applied';
+  const [jobs, pipeline, fields] = await Promise.all([
+    loadJobs(),
+    loadPipeline(),
+    loadSchema()
+  ]);
+  const custom = normalizeCustomValues(input.custom ?? {}, fields);
+  const status = input.status ?? pipeline[0].id;
+  const source = input.source ?? 'manual';
   const now = timestamp();
   const timeline: TimelineEvent[] = [
-    createTimelineEvent('created', `Created`, now)
+    createTimelineEvent('created', `Created`, now, { source })
   ];
   timeline.push(
-    createTimelineEvent('status_changed', `${STATUS_LABELS[status]}`, now)
+    createTimelineEvent('status_changed', stageLabel(pipeline, status), now, {
+      field: 'status',
+      to: status,
+      source
+    })
   );
   if (input.appliedDate) {
     timeline.push(
       createTimelineEvent(
         'applied_date_updated',
         `Applied date: ${input.appliedDate}`,
-        now
+        now,
+        { field: 'appliedDate', to: input.appliedDate, source }
       )
     );
   }
+  const notes = buildNotes(input.notes, source, now);
+  timeline.push(...notes.map((note) => noteAddedEvent(note, now)));
   const job: Job = {
     id: createId(),
     company: input.company,
@@ -76,33 +417,58 @@ export async function addJob(input: JobInput) {
     status,
     appliedDate: input.appliedDate ?? '',
     tags: input.tags ?? [],
-    notes: input.notes ?? [],
-    custom: input.custom ?? {},
+    notes,
+    custom,
     timeline,
     createdAt: now,
     updatedAt: now
   };
-  saveJobs([job, ...jobs]);
+  const followUpDays = getFollowUpDays();
+  if (followUpDays > 0) {
+    const from = input.appliedDate || localDate(new Date(now));
+    job.tasks = [
+      buildTask(
+        {
+          title: `Follow up with ${input.company}`,
+          dueDate: addDays(from, followUpDays)
+        },
+        { id: createId(), createdAt: now },
+        now
+      )
+    ];
+  }
+  await commitJobs(
+    jobs,
+    [{ id: job.id, before: null, after: job }],
+    `Added ${job.company}`
+  );
   return job.id;
 }
 
 export async function updateJob(id: string, input: Partial<JobInput>) {
-  const jobs = loadJobs();
-  const updated = jobs.map((job) => {
-    if (job.id !== id) return job;
-    const mergedCustom = input.custom
-      ? { ...job.custom, ...input.custom }
-      : job.custom;
+  const [pipeline, fields] = await Promise.all([loadPipeline(), loadSchema()]);
+  const custom = input.custom && normalizeCustomValues(input.custom, fields);
+  await mutateJob(id, (job) => `Updated ${job.company}`, (job) => {
+    const mergedCustom = custom ? { ...job.custom, ...custom } : job.custom;
+    const source = input.source ?? 'manual';
     const now = timestamp();
     const timeline = ensureTimeline(job);
     const nextAppliedDate =
       input.appliedDate !== undefined ? input.appliedDate : job.appliedDate;
     if (input.status && input.status !== job.status) {
+      const error = transitionError(
+        pipeline,
+        fields,
+        { ...job, custom: mergedCustom },
+        input.status
+      );
+      if (error) throw new Error(error);
       timeline.push(
         createTimelineEvent(
           'status_changed',
-          `${STATUS_LABELS[input.status] ?? input.status}`,
-          now
+          stageLabel(pipeline, input.status),
+          now,
+          { field: 'status', from: job.status, to: input.status, source }
         )
       );
     }
@@ -111,232 +477,1854 @@ export async function updateJob(id: string, input: Partial<JobInput>) {
         createTimelineEvent(
           'applied_date_updated',
           `Applied date: ${nextAppliedDate || 'unknown'}`,
-          now
+          now,
+          {
+            field: 'appliedDate',
+            from: job.appliedDate ?? null,
+            to: nextAppliedDate ?? null,
+            source
+          }
         )
       );
     }
+    timeline.push(
+      ...customEvents(fields, job.custom, mergedCustom, now, source)
+    );
+    // Notes passed to an update are added alongside the existing ones.
+    const { notes: bodies, source: _source, ...fieldsInput } = input;
+    const notes = buildNotes(bodies, source, now);
+    timeline.push(...notes.map((note) => noteAddedEvent(note, now)));
     return {
       ...job,
-      ...stripUndefined(input),
+      ...stripUndefined(fieldsInput),
+      notes: [...(job.notes ?? []), ...notes],
       custom: mergedCustom,
       timeline,
       updatedAt: now
     };
   });
-  saveJobs(updated);
 }
 
 export async function deleteJob(id: string) {
-  const jobs = loadJobs().filter((job) => job.id !== id);
-  saveJobs(jobs);
+  const label = (job: Job) => `Moved ${job.company} to trash`;
+  await mutateJob(id, label, trashJob);
 }
 
-export async function setStatus(id: string, status: JobStatus) {
-  const jobs = loadJobs();
-  const updated = jobs.map((job) => {
-    if (job.id !== id) return job;
-    if (job.status === status) return job;
-    const now = timestamp();
-    const timeline = ensureTimeline(job);
-    timeline.push(
-      createTimelineEvent('status_changed', `${STATUS_LABELS[status]}`, now)
+// Applications outside the trash that `input` would likely duplicate.
+export async function getDuplicates(input: DuplicateInput) {
+  return findDuplicates(input, await loadJobs());
+}
+
+// Folds the applications in `otherIds` into `id` and moves them to the
+// trash, in one undo step. Contacts linked to them are linked to `id` too;
+// that part is not undone, like other contact changes.
+export async function mergeJobs(id: string, otherIds: string[]) {
+  const jobs = await loadJobs();
+  const target = jobs.find((job) => job.id === id && !job.deletedAt);
+  if (!target) throw new Error('That application no longer exists.');
+  const others = jobs.filter(
+    (job) => job.id !== id && otherIds.includes(job.id) && !job.deletedAt
+  );
+  if (others.length === 0) return;
+  const now = timestamp();
+  const merged = combineJobs(target, others);
+  const names = others.map((job) => `${job.company} – ${job.role}`);
+  const changes: JobChange[] = [
+    {
+      id,
+      before: target,
+      after: {
+        ...merged,
+        timeline: [
+          ...(merged.timeline ?? []),
+          createTimelineEvent('merged', `Merged ${names.join(', ')}`, now)
+        ],
+        updatedAt: now
+      }
+    },
+    ...others.map((job) => ({
+      id: job.id,
+      before: job,
+      after: {
+        ...job,
+        timeline: [
+          ...ensureTimeline(job),
+          createTimelineEvent(
+            'merged',
+            `Merged into ${target.company} – ${target.role}`,
+            now
+          )
+        ],
+        deletedAt: now,
+        updatedAt: now
+      }
+    }))
+  ];
+  await commitJobs(
+    jobs,
+    changes,
+    `Merged ${others.length + 1} applications for ${target.company}`
+  );
+  const merging = new Set(others.map((job) => job.id));
+  const contacts = (await loadContacts()).filter(
+    (contact) =>
+      contact.jobIds.some((jobId) => merging.has(jobId)) &&
+      !contact.jobIds.includes(id)
+  );
+  if (contacts.length > 0) {
+    await saveContacts(
+      contacts.map((contact) => ({
+        ...contact,
+        jobIds: [...contact.jobIds, id],
+        updatedAt: now
+      }))
     );
-    return {
-      ...job,
-      status,
-      timeline,
-      updatedAt: now
-    };
-  });
-  saveJobs(updated);
+  }
 }
 
-export async function addTag(id: string, tag: string) {
-  const jobs = loadJobs();
-  const updated = jobs.map((job) => {
-    if (job.id !== id) return job;
-    const nextTags = new Set(job.tags ?? []);
-    nextTags.add(tag);
+export async function restoreJob(id: string) {
+  const label = (job: Job) => `Restored ${job.company}`;
+  await mutateJob(id, label, (job) => {
+    if (!job.deletedAt) return job;
     const now = timestamp();
     const timeline = ensureTimeline(job);
-    if (!job.tags?.includes(tag)) {
-      timeline.push(
-        createTimelineEvent('tag_added', `Tag added`, now)
-      );
-    }
+    timeline.push(createTimelineEvent('restored', `Restored from trash`, now));
+    const { deletedAt: _deletedAt, ...rest } = job;
     return {
-      ...job,
-      tags: Array.from(nextTags),
+      ...rest,
       timeline,
       updatedAt: now
     };
   });
-  saveJobs(updated);
 }
 
-export async function addNote(id: string, note: string) {
-  const jobs = loadJobs();
-  const updated = jobs.map((job) => {
-    if (job.id !== id) return job;
-    const now = timestamp();
+export async function purgeJob(id: string) {
+  const jobs = await loadJobs();
+  const job = jobs.find((item) => item.id === id);
+  if (!job) return;
+  await commitJobs(
+    jobs,
+    [{ id, before: job, after: null }],
+    `Permanently deleted ${job.company}`
+  );
+}
+
+export async function emptyTrash() {
+  const jobs = await loadJobs();
+  const trashed = trashedJobs(jobs);
+  if (trashed.length === 0) return;
+  await commitJobs(
+    jobs,
+    trashed.map((job) => ({ id: job.id, before: job, after: null })),
+    `Emptied trash (${trashed.length})`
+  );
+}
+
+export async function takeSnapshot(reason: SnapshotReason) {
+  const [jobs, schema, existing] = await Promise.all([
+    loadJobs(),
+    loadSchema(),
+    getRepository().loadSnapshots()
+  ]);
+  const snapshot: Snapshot = {
+    id: createId(),
+    reason,
+    createdAt: timestamp(),
+    jobs,
+    schema
+  };
+  await getRepository().saveSnapshot(
+    snapshot,
+    expiredSnapshots([snapshot, ...existing])
+  );
+  await refreshSnapshots();
+  broadcast('snapshots');
+  return snapshot.id;
+}
+
+export async function takeDailySnapshot(now: Date = new Date()) {
+  const [jobs, snapshots] = await Promise.all([
+    loadJobs(),
+    getRepository().loadSnapshots()
+  ]);
+  const latest = snapshots.find((snapshot) => snapshot.reason === 'daily');
+  if (jobs.length === 0) return null;
+  if (latest && now.getTime() - new Date(latest.createdAt).getTime() < DAY_MS) {
+    return null;
+  }
+  return takeSnapshot('daily');
+}
+
+// Puts jobs and custom fields back exactly as they were in the snapshot, after
+// snapshotting the current state so the restore itself can be reversed.
+export async function restoreSnapshot(id: string) {
+  const snapshot = (await getRepository().loadSnapshots()).find(
+    (item) => item.id === id
+  );
+  if (!snapshot) throw new Error('That snapshot no longer exists.');
+  const [jobs, schema] = await Promise.all([loadJobs(), loadSchema()]);
+  const current = new Map(jobs.map((job) => [job.id, job]));
+  const saved = new Set(snapshot.jobs.map((job) => job.id));
+  const changes: JobChange[] = [
+    ...snapshot.jobs.flatMap((job) => {
+      const before = current.get(job.id) ?? null;
+      return before && sameJob(before, job)
+        ? []
+        : [{ id: job.id, before, after: job }];
+    }),
+    ...jobs
+      .filter((job) => !saved.has(job.id))
+      .map((job) => ({ id: job.id, before: job, after: null }))
+  ];
+  const schemaChange =
+    JSON.stringify(schema) === JSON.stringify(snapshot.schema)
+      ? undefined
+      : { before: schema, after: snapshot.schema };
+  if (changes.length === 0 && !schemaChange) return 0;
+
+  await takeSnapshot('restore');
+  const label = `Restored snapshot from ${snapshot.createdAt.slice(0, 10)}`;
+  await commitJobs(await loadJobs(), changes, label, { schema: schemaChange });
+  if (schemaChange) await saveSchema(snapshot.schema);
+  return changes.length;
+}
+
+export async function addContact(input: ContactInput) {
+  const now = timestamp();
+  const contact = buildContact(input, { id: createId(), createdAt: now }, now);
+  await saveContacts([contact]);
+  return contact.id;
+}
+
+// Adds contacts read from an import file. `jobIds` maps the ids used in the
+// file to the applications created for them; links to anything else are
+// dropped.
+export async function importContacts(
+  inputs: ContactInput[],
+  jobIds: Map<string, string>
+) {
+  const now = timestamp();
+  const contacts = inputs.map((input) =>
+    buildContact(
+      {
+        ...input,
+        jobIds: (input.jobIds ?? []).flatMap((id) => {
+          const mapped = jobIds.get(id);
+          return mapped ? [mapped] : [];
+        })
+      },
+      { id: createId(), createdAt: now },
+      now
+    )
+  );
+  await saveContacts(contacts);
+  return contacts.length;
+}
+
+export async function updateContact(id: string, input: Partial<ContactInput>) {
+  await mutateContact(id, (contact) => ({ ...contact, ...input }));
+}
+
+export async function deleteContact(id: string) {
+  await getRepository().deleteContacts([id]);
+  await refreshContacts();
+  broadcast('contacts');
+}
+
+export async function linkContact(contactId: string, jobId: string) {
+  await mutateContact(contactId, (contact) => ({
+    ...contact,
+    jobIds: [...contact.jobIds, jobId]
+  }));
+}
+
+export async function unlinkContact(contactId: string, jobId: string) {
+  await mutateContact(contactId, (contact) => ({
+    ...contact,
+    jobIds: contact.jobIds.filter((id) => id !== jobId)
+  }));
+}
+
+export async function addDocument(input: DocumentInput) {
+  if (input.data.byteLength > MAX_DOCUMENT_BYTES) {
+    throw new Error('Documents can be at most 10 MB.');
+  }
+  const name = input.name.trim();
+  if (!name) throw new Error('Give the document a name.');
+  const document: StoredDocument = {
+    id: createId(),
+    name,
+    kind: input.kind,
+    versionLabel: input.versionLabel.trim(),
+    mimeType: input.mimeType || 'application/octet-stream',
+    size: input.data.byteLength,
+    uploadedAt: timestamp()
+  };
+  await getRepository().putDocument(
+    document,
+    toBase64(new Uint8Array(input.data))
+  );
+  await refreshDocuments();
+  broadcast('documents');
+  return document.id;
+}
+
+// Applications keep their links to a deleted document; they are ignored
+// wherever documents are listed.
+export async function deleteDocument(id: string) {
+  await getRepository().deleteDocument(id);
+  await refreshDocuments();
+  broadcast('documents');
+}
+
+export async function readDocument(id: string) {
+  const repository = getRepository();
+  const [documents, data] = await Promise.all([
+    repository.loadDocuments(),
+    repository.loadDocumentData(id)
+  ]);
+  const document = documents.find((item) => item.id === id);
+  if (!document || data === null) {
+    throw new Error('That document no longer exists.');
+  }
+  return new Blob([fromBase64(data)], { type: document.mimeType });
+}
+
+export async function linkDocument(id: string, documentId: string) {
+  const label = (job: Job) => `Attached a document to ${job.company}`;
+  await mutateJob(id, label, (job) => {
+    if (job.documentIds?.includes(documentId)) return job;
     return {
       ...job,
-      notes: [...(job.notes ?? []), note],
-      updatedAt: now
+      documentIds: [...(job.documentIds ?? []), documentId],
+      updatedAt: timestamp()
     };
   });
-  saveJobs(updated);
 }
 
-export async function setNote(id: string, note: string | null) {
-  const jobs = loadJobs();
-  const updated = jobs.map((job) => {
-    if (job.id !== id) return job;
-    const now = timestamp();
+export async function unlinkDocument(id: string, documentId: string) {
+  const label = (job: Job) => `Removed a document from ${job.company}`;
+  await mutateJob(id, label, (job) => {
+    if (!job.documentIds?.includes(documentId)) return job;
     return {
       ...job,
-      notes: note ? [note] : [],
-      updatedAt: now
+      documentIds: job.documentIds.filter((item) => item !== documentId),
+      updatedAt: timestamp()
     };
   });
-  saveJobs(updated);
 }
 
-export async function setCustomFieldValue(
-  id: string,
-  fieldId: string,
-  value: string | number | null
+export function subscribeLocalChanges(onChange: (change: LocalChange) => void) {
+  localChangeListeners.add(onChange);
+  return () => {
+    localChangeListeners.delete(onChange);
+  };
+}
+
+// Applies changes pulled from a sync server. They bypass undo history and are
+// not reported to local change listeners, so they are never pushed back.
+// Jobs and field lists that fail validation are quarantined instead, the
+// same way damaged records found on load are.
+export async function applyRemoteChanges(
+  apply: (
+    jobs: Job[],
+    fields: CustomField[]
+  ) => { jobs: JobChange[]; fields?: CustomField[] }
 ) {
-  const jobs = loadJobs();
-  const updated = jobs.map((job) => {
-    if (job.id !== id) return job;
-    const now = timestamp();
-    const timeline = ensureTimeline(job);
-    timeline.push(
-      createTimelineEvent('custom_updated', `Custom updated`, now)
+  const [jobs, fields] = await Promise.all([loadJobs(), loadSchema()]);
+  const result = apply(jobs, fields);
+  const recovery: RecoveryEntry[] = [];
+  const schema = result.fields?.every(isCustomField) ? result.fields : null;
+  if (result.fields && !schema) {
+    recovery.push(
+      createRecoveryEntry(
+        'schema',
+        'Sync server',
+        JSON.stringify(result.fields, null, 2),
+        0,
+        ['Custom fields: the list contains malformed fields']
+      )
     );
-    return {
-      ...job,
-      custom: {
-        ...job.custom,
-        [fieldId]: value
-      },
-      timeline,
-      updatedAt: now
+  }
+  const broken: unknown[] = [];
+  const problems: string[] = [];
+  const changes = result.jobs.flatMap((change): JobChange[] => {
+    if (!change.after) return [change];
+    const reject = (message: string) => {
+      broken.push(change.after);
+      problems.push(`Job ${change.id}: ${message}`);
+      return [];
     };
+    const validation = validateJob(change.after);
+    if (!validation.ok) return reject(validation.errors.join(', '));
+    try {
+      const custom = normalizeCustomValues(
+        validation.job.custom,
+        schema ?? fields
+      );
+      return [{ ...change, after: { ...validation.job, custom } }];
+    } catch (error) {
+      return reject((error as Error).message);
+    }
   });
-  saveJobs(updated);
-}
-
-export async function upsertCustomField(
-  name: string,
-  type: CustomField['type']
-) {
-  const schema = loadSchema();
-  const id = makeFieldId(name);
-  const exists = schema.find((field) => field.id === id);
-  let updated: CustomField[];
-  if (exists) {
-    updated = schema.map((field) =>
-      field.id === id ? { ...field, name, type } : field
+  if (broken.length > 0) {
+    recovery.push(
+      createRecoveryEntry(
+        'jobs',
+        'Sync server',
+        JSON.stringify(broken, null, 2),
+        changes.length,
+        problems
+      )
     );
-  } else {
-    updated = [...schema, { id, name, type }];
   }
-  saveSchema(updated);
-  return id;
+  if (recovery.length > 0) {
+    for (const entry of recovery) await getRepository().saveRecovery(entry);
+    await refreshRecovery();
+  }
+  if (changes.length > 0) {
+    await commitJobs(jobs, changes, null, { remote: true });
+  }
+  if (schema) await saveSchema(schema, undefined, true);
 }
 
-function loadJobs(): Job[] {
-  const raw = localStorage.getItem(JOBS_KEY);
-  if (!raw) return [];
-  try {
-    const parsed = JSON.parse(raw) as Job[];
-    if (!Array.isArray(parsed)) return [];
-    return parsed.map((job) => ({
-      ...job,
-      timeline: ensureTimeline(job)
-    }));
-  } catch {
-    return [];
+export async function loadWorkspaceData() {
+  const [jobs, fields] = await Promise.all([loadJobs(), loadSchema()]);
+  return { jobs, fields };
+}
+
+export async function loadSyncRecord() {
+  return getRepository().loadSync();
+}
+
+export async function saveSyncRecord(record: SyncRecord) {
+  await getRepository().saveSync(record);
+}
+
+export function subscribeLock(onChange: (state: LockState) => void) {
+  lockListeners.add(onChange);
+  loadLockState().then((state) => {
+    if (lockListeners.has(onChange)) onChange(state);
+  });
+  attachChannelListener();
+  return () => {
+    lockListeners.delete(onChange);
+  };
+}
+
+export async function unlockWorkspace(passphrase: string) {
+  const lock = await getRepository().loadLock();
+  if (!lock) {
+    setLockState('disabled');
+    return;
   }
+  getRepository().setKey(await openLock(lock, passphrase));
+  clearCaches();
+  setLockState('unlocked');
 }
 
-function saveJobs(jobs: Job[]) {
-  localStorage.setItem(JOBS_KEY, JSON.stringify(jobs));
-  notifyJobs(jobs);
+// Forgets the key and every decrypted copy held in memory. Other tabs keep
+// their own session, so an idle tab locking itself does not lock busy ones.
+export function lockWorkspace() {
+  if (lockState !== 'unlocked') return;
+  getRepository().setKey(null);
+  clearCaches();
+  setLockState('locked');
 }
 
-function loadSchema(): CustomField[] {
-  const raw = localStorage.getItem(SCHEMA_KEY);
-  if (!raw) return [];
-  try {
-    const parsed = JSON.parse(raw) as SchemaPayload;
-    return Array.isArray(parsed?.customFields) ? parsed.customFields : [];
-  } catch {
-    return [];
+export async function enableLock(passphrase: string) {
+  if ((await loadLockState()) !== 'disabled') {
+    throw new Error('The workspace already has a passphrase.');
   }
+  const { lock, key } = await createLock(passphrase);
+  await getRepository().rekey(lock, key);
+  setLockState('unlocked');
+  broadcast('lock');
 }
 
-function saveSchema(fields: CustomField[]) {
-  const payload: SchemaPayload = { customFields: fields };
-  localStorage.setItem(SCHEMA_KEY, JSON.stringify(payload));
-  notifySchema(fields);
+export async function changePassphrase(current: string, next: string) {
+  await verifyPassphrase(current);
+  const { lock, key } = await createLock(next);
+  await getRepository().rekey(lock, key);
+  broadcast('lock');
 }
 
-function notifyJobs(jobs: Job[]) {
-  jobListeners.forEach((listener) => listener(jobs));
+export async function disableLock(passphrase: string) {
+  await verifyPassphrase(passphrase);
+  await getRepository().rekey(null, null);
+  setLockState('disabled');
+  broadcast('lock');
 }
 
-function notifySchema(fields: CustomField[]) {
-  schemaListeners.forEach((listener) => listener(fields));
+export function getAutoLockMinutes() {
+  const saved = localStorage.getItem(AUTO_LOCK_KEY);
+  const minutes = Number(saved);
+  return saved !== null && Number.isFinite(minutes) && minutes >= 0
+    ? minutes
+    : DEFAULT_AUTO_LOCK_MINUTES;
 }
 
-function attachStorageListener() {
-  if (storageListenerAttached || typeof window === 'undefined') return;
-  storageListenerAttached = true;
-  window.addEventListener('storage', (event) => {
-    if (event.key === JOBS_KEY) {
-      notifyJobs(loadJobs());
-    }
-    if (event.key === SCHEMA_KEY) {
-      notifySchema(loadSchema());
-    }
-  });
+export function setAutoLockMinutes(minutes: number) {
+  localStorage.setItem(AUTO_LOCK_KEY, String(Math.max(0, minutes)));
 }
 
-function createId() {
-  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
-    return crypto.randomUUID();
-  }
-  return `job-${Math.random().toString(36).slice(2, 10)}`;
+export async function loadAiSettings(): Promise<AiSettings> {
+  const stored = await getRepository().loadAiSettings();
+  return { ...DEFAULT_AI_SETTINGS, ...stored };
 }
 
-function timestamp() {
-  return new Date().toISOString();
+export async function saveAiSettings(settings: AiSettings) {
+  await getRepository().saveAiSettings(settings);
 }
 
-function createTimelineEvent(
-  type: TimelineEvent['type'],
-  label: string,
-  createdAt: string
-): TimelineEvent {
-  return {
-    id: createId(),
-    type,
+export function getTrashRetentionDays() {
+  const saved = Number(localStorage.getItem(TRASH_RETENTION_KEY));
+  return Number.isFinite(saved) && saved > 0
+    ? saved
+    : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export function setTrashRetentionDays(days: number) {
+  localStorage.setItem(TRASH_RETENTION_KEY, String(Math.max(1, days)));
+}
+
+export async function purgeExpiredTrash(now: Date = new Date()) {
+  const jobs = await loadJobs();
+  const cutoff = now.getTime() - getTrashRetentionDays() * DAY_MS;
+  const expired = trashedJobs(jobs).filter(
+    (job) => new Date(job.deletedAt ?? 0).getTime() < cutoff
+  );
+  if (expired.length === 0) return 0;
+  await commitJobs(
+    jobs,
+    expired.map((job) => ({ id: job.id, before: job, after: null })),
+    null
+  );
+  return expired.length;
+}
+
+// Moves an application along the pipeline, filling in `custom` values at the
+// same time so fields the stage requires can be supplied with the move.
+export async function setStatus(
+  id: string,
+  status: JobStatus,
+  custom?: Record<string, unknown>,
+  source: ChangeSource = 'manual'
+) {
+  const [pipeline, fields] = await Promise.all([loadPipeline(), loadSchema()]);
+  const values = custom && normalizeCustomValues(custom, fields);
+  const stage = stageLabel(pipeline, status);
+  const label = (job: Job) => `Moved ${job.company} to ${stage}`;
+  await mutateJob(
+    id,
     label,
-    createdAt
-  };
+    moveJob(pipeline, fields, status, values, source)
+  );
 }
 
-function ensureTimeline(job: Job): TimelineEvent[] {
-  return Array.isArray(job.timeline) ? [...job.timeline] : [];
+export async function addTag(
+  id: string,
+  tag: string,
+  source: ChangeSource = 'manual'
+) {
+  const name = normalizeTag(tag);
+  if (!name) return;
+  await mutateJob(id, (job) => `Tagged ${job.company}`, tagJob(name, source));
 }
 
-function summarize(text: string) {
-  const trimmed = text.trim().replace(/\s+/g, ' ');
-  if (trimmed.length <= 48) return trimmed;
-  return `${trimmed.slice(0, 45)}...`;
+export async function removeTag(
+  id: string,
+  tag: string,
+  source: ChangeSource = 'manual'
+) {
+  const label = (job: Job) => `Removed a tag from ${job.company}`;
+  await mutateJob(id, label, untagJob(tag, source));
+}
+
+// Renames a tag on every application, trashed ones included. Renaming onto a
+// tag that already exists merges the two.
+export async function renameTag(from: string, to: string) {
+  const name = normalizeTag(to);
+  if (!name) throw new Error('Give the tag a name.');
+  if (name === from) return;
+  const jobs = await loadJobs();
+  const merging = jobs.some(
+    (job) => hasTag(job, name) && !sameTag(name, from)
+  );
+  await retagJobs(
+    jobs,
+    from,
+    name,
+    merging ? `Merged tag ${from} into ${name}` : `Renamed tag ${from}`
+  );
+  const colors = await getRepository().loadTagColors();
+  const color = colors[from];
+  if (color) {
+    const { [from]: _renamed, ...rest } = colors;
+    await saveTagColors(merging ? rest : { ...rest, [name]: color });
+  }
+}
+
+export async function deleteTag(tag: string) {
+  await retagJobs(await loadJobs(), tag, null, `Deleted tag ${tag}`);
+  const { [tag]: _deleted, ...rest } = await getRepository().loadTagColors();
+  await saveTagColors(rest);
+}
+
+export async function setTagColor(tag: string, color: string | null) {
+  const { [tag]: _previous, ...rest } = await getRepository().loadTagColors();
+  await saveTagColors(color ? { ...rest, [tag]: color } : rest);
+}
+
+export async function addNote(
+  id: string,
+  body: string,
+  source: ChangeSource = 'manual'
+) {
+  const now = timestamp();
+  const note = buildNote(body, source, createId(), now);
+  const label = (job: Job) => `Added a note to ${job.company}`;
+  await mutateJob(id, label, (job) => ({
+    ...job,
+    notes: [...(job.notes ?? []), note],
+    timeline: [...ensureTimeline(job), noteAddedEvent(note, now)],
+    updatedAt: now
+  }));
+  return note.id;
+}
+
+export async function updateNote(id: string, noteId: string, body: string) {
+  const label = (job: Job) => `Edited a note on ${job.company}`;
+  await mutateJob(id, label, (job) => {
+    const existing = job.notes?.find((note) => note.id === noteId);
+    if (!existing) return job;
+    const now = timestamp();
+    const edited = buildNote(body, existing.source, noteId, now);
+    if (edited.body === existing.body) return job;
+    const timeline = ensureTimeline(job);
+    timeline.push(
+      createTimelineEvent('note_updated', 'Note edited', now, {
+        field: 'notes',
+        from: existing.body,
+        to: edited.body,
+        source: 'manual'
+      })
+    );
+    return {
+      ...job,
+      notes: job.notes.map((note) =>
+        note.id === noteId
+          ? { ...existing, body: edited.body, updatedAt: now }
+          : note
+      ),
+      timeline,
+      updatedAt: now
+    };
+  });
+}
+
+export async function deleteNote(id: string, noteId: string) {
+  const label = (job: Job) => `Deleted a note on ${job.company}`;
+  await mutateJob(id, label, (job) => {
+    if (!job.notes?.some((note) => note.id === noteId)) return job;
+    return {
+      ...job,
+      notes: job.notes.filter((note) => note.id !== noteId),
+      updatedAt: timestamp()
+    };
+  });
+}
+
+export async function pinNote(id: string, noteId: string, pinned: boolean) {
+  const label = (job: Job) =>
+    `${pinned ? 'Pinned' : 'Unpinned'} a note on ${job.company}`;
+  await mutateJob(id, label, (job) => {
+    const existing = job.notes?.find((note) => note.id === noteId);
+    if (!existing || Boolean(existing.pinned) === pinned) return job;
+    const { pinned: _pinned, ...rest } = existing;
+    return {
+      ...job,
+      notes: job.notes.map((note) =>
+        note.id === noteId ? (pinned ? { ...rest, pinned } : rest) : note
+      ),
+      updatedAt: timestamp()
+    };
+  });
+}
+
+export async function addTimelineEvent(id: string, input: ManualEventInput) {
+  const event = buildManualEvent(input, createId());
+  const label = (job: Job) => `Added an event to ${job.company}`;
+  await mutateJob(id, label, (job) => ({
+    ...job,
+    timeline: [...ensureTimeline(job), event],
+    updatedAt: timestamp()
+  }));
+  return event.id;
+}
+
+// Only events added through addTimelineEvent can be edited or deleted; the
+// rest are a record of what happened.
+export async function updateTimelineEvent(
+  id: string,
+  eventId: string,
+  input: ManualEventInput
+) {
+  const label = (job: Job) => `Edited an event on ${job.company}`;
+  await mutateJob(id, label, (job) => {
+    const existing = job.timeline?.find((event) => event.id === eventId);
+    if (!existing || !isManualEvent(existing)) return job;
+    const event = buildManualEvent(input, eventId);
+    return {
+      ...job,
+      timeline: ensureTimeline(job).map((item) =>
+        item.id === eventId ? event : item
+      ),
+      updatedAt: timestamp()
+    };
+  });
+}
+
+export async function deleteTimelineEvent(id: string, eventId: string) {
+  const label = (job: Job) => `Deleted an event on ${job.company}`;
+  await mutateJob(id, label, (job) => {
+    const existing = job.timeline?.find((event) => event.id === eventId);
+    if (!existing || !isManualEvent(existing)) return job;
+    return {
+      ...job,
+      timeline: ensureTimeline(job).filter((event) => event.id !== eventId),
+      updatedAt: timestamp()
+    };
+  });
+}
+
+export async function setCustomFieldValue(
+  id: string,
+  fieldId: string,
+  value: unknown
+) {
+  const fields = await loadSchema();
+  const field = fields.find((item) => item.id === fieldId);
+  const parsed = field ? parseCustomValue(field, value) : value;
+  if (!isCustomValue(parsed)) throw new Error('Unsupported value.');
+  const label = (job: Job) =>
+    `Updated ${field?.name ?? fieldId} on ${job.company}`;
+  await mutateJob(id, label, setJobValue(fields, fieldId, parsed));
+}
+
+// The bulk actions below change every application in `ids` in one write and
+// one undo step, adding a single timeline event to each. Trashed
+// applications are left alone.
+export async function bulkSetStatus(ids: string[], status: JobStatus) {
+  const [pipeline, fields] = await Promise.all([loadPipeline(), loadSchema()]);
+  const stage = findStage(pipeline, status);
+  if (!stage) throw new Error(`${status} is not a stage in this pipeline.`);
+  return mutateJobs(
+    ids,
+    (count) => `Moved ${countJobs(count)} to ${stage.label}`,
+    moveJob(pipeline, fields, status, undefined, 'manual')
+  );
+}
+
+export async function bulkArchive(ids: string[]) {
+  const stage = archiveStage(await loadPipeline());
+  if (!stage) {
+    throw new Error('This pipeline has no final stage to archive to.');
+  }
+  return bulkSetStatus(ids, stage.id);
+}
+
+export async function bulkAddTag(ids: string[], tag: string) {
+  const name = normalizeTag(tag);
+  if (!name) throw new Error('Give the tag a name.');
+  return mutateJobs(
+    ids,
+    (count) => `Tagged ${countJobs(count)} ${name}`,
+    tagJob(name, 'manual')
+  );
+}
+
+export async function bulkRemoveTag(ids: string[], tag: string) {
+  return mutateJobs(
+    ids,
+    (count) => `Removed ${tag} from ${countJobs(count)}`,
+    untagJob(tag, 'manual')
+  );
+}
+
+export async function bulkSetCustomFieldValue(
+  ids: string[],
+  fieldId: string,
+  value: unknown
+) {
+  const fields = await loadSchema();
+  const field = fields.find((item) => item.id === fieldId);
+  if (!field) throw new Error('That field no longer exists.');
+  const parsed = parseCustomValue(field, value);
+  return mutateJobs(
+    ids,
+    (count) => `Updated ${field.name} on ${countJobs(count)}`,
+    setJobValue(fields, fieldId, parsed)
+  );
+}
+
+export async function bulkDelete(ids: string[]) {
+  return mutateJobs(
+    ids,
+    (count) => `Moved ${countJobs(count)} to trash`,
+    trashJob
+  );
+}
+
+export async function addInterview(id: string, input: InterviewInput) {
+  const now = timestamp();
+  const round = buildInterview(input, { id: createId(), createdAt: now }, now);
+  const label = (job: Job) =>
+    `Added ${interviewTypeLabel(round.type)} for ${job.company}`;
+  await mutateJob(id, label, (job) => ({
+    ...job,
+    interviews: [...(job.interviews ?? []), round],
+    timeline: [...ensureTimeline(job), ...interviewEvents(null, round, now)],
+    updatedAt: now
+  }));
+  return round.id;
+}
+
+export async function updateInterview(
+  id: string,
+  roundId: string,
+  input: InterviewInput
+) {
+  const label = (job: Job) => `Updated interview for ${job.company}`;
+  await mutateJob(id, label, (job) => {
+    const existing = job.interviews?.find((round) => round.id === roundId);
+    if (!existing) return job;
+    const now = timestamp();
+    const round = buildInterview(input, existing, now);
+    return {
+      ...job,
+      interviews: (job.interviews ?? []).map((item) =>
+        item.id === roundId ? round : item
+      ),
+      timeline: [
+        ...ensureTimeline(job),
+        ...interviewEvents(existing, round, now)
+      ],
+      updatedAt: now
+    };
+  });
+}
+
+export async function deleteInterview(id: string, roundId: string) {
+  const label = (job: Job) => `Removed interview for ${job.company}`;
+  await mutateJob(id, label, (job) => {
+    if (!job.interviews?.some((round) => round.id === roundId)) return job;
+    return {
+      ...job,
+      interviews: job.interviews.filter((round) => round.id !== roundId),
+      updatedAt: timestamp()
+    };
+  });
+}
+
+export async function addTask(id: string, input: TaskInput) {
+  const now = timestamp();
+  const task = buildTask(input, { id: createId(), createdAt: now }, now);
+  const label = (job: Job) => `Added reminder for ${job.company}`;
+  await mutateJob(id, label, (job) => ({
+    ...job,
+    tasks: [...(job.tasks ?? []), task],
+    updatedAt: now
+  }));
+  return task.id;
+}
+
+export async function completeTask(id: string, taskId: string) {
+  const label = (job: Job) => `Completed reminder for ${job.company}`;
+  await mutateTask(id, taskId, label, (task, now) => ({
+    task: { ...task, completedAt: now, updatedAt: now },
+    event: createTimelineEvent('task_completed', `Done: ${task.title}`, now)
+  }));
+}
+
+// Pushes the due date `days` past today, or past the current due date when
+// that is still ahead.
+export async function snoozeTask(
+  id: string,
+  taskId: string,
+  days: number,
+  today: string = localDate()
+) {
+  const label = (job: Job) => `Snoozed reminder for ${job.company}`;
+  await mutateTask(id, taskId, label, (task, now) => {
+    const dueDate = addDays(task.dueDate > today ? task.dueDate : today, days);
+    return {
+      task: { ...task, dueDate, updatedAt: now },
+      event: createTimelineEvent(
+        'task_snoozed',
+        `Snoozed "${task.title}" to ${dueDate}`,
+        now
+      )
+    };
+  });
+}
+
+export async function deleteTask(id: string, taskId: string) {
+  const label = (job: Job) => `Removed reminder for ${job.company}`;
+  await mutateJob(id, label, (job) => {
+    if (!job.tasks?.some((task) => task.id === taskId)) return job;
+    return {
+      ...job,
+      tasks: job.tasks.filter((task) => task.id !== taskId),
+      updatedAt: timestamp()
+    };
+  });
+}
+
+// Days after the applied date (or creation) that new applications get a
+// follow-up reminder; 0 turns default reminders off.
+export function getFollowUpDays() {
+  const saved = Number(localStorage.getItem(FOLLOW_UP_KEY));
+  return Number.isFinite(saved) && saved > 0 ? saved : 0;
+}
+
+export function setFollowUpDays(days: number) {
+  localStorage.setItem(FOLLOW_UP_KEY, String(Math.max(0, days)));
+}
+
+export async function getPipeline() {
+  return loadPipeline();
+}
+
+// Saves edits to the stages. A stage that applications are still in can only
+// be removed through deleteStage, which moves them first.
+export async function savePipeline(stages: PipelineStage[]) {
+  const pipeline = normalizePipeline(stages);
+  const [jobs, current] = await Promise.all([loadJobs(), loadPipeline()]);
+  const stranded = current.find(
+    (stage) =>
+      !findStage(pipeline, stage.id) &&
+      jobs.some((job) => job.status === stage.id)
+  );
+  if (stranded) {
+    throw new Error(`Move the applications in ${stranded.label} first.`);
+  }
+  await writePipeline(pipeline);
+}
+
+// Removes a stage and moves its applications, including trashed ones, to
+// `moveTo`. The move is not added to undo history, since undoing it would
+// put applications back in a stage that no longer exists.
+export async function deleteStage(id: JobStatus, moveTo: JobStatus) {
+  const [jobs, pipeline] = await Promise.all([loadJobs(), loadPipeline()]);
+  const target = findStage(pipeline, moveTo);
+  if (!findStage(pipeline, id)) return;
+  if (!target || target.id === id) {
+    throw new Error('Pick another stage for its applications.');
+  }
+  const now = timestamp();
+  const changes = jobs
+    .filter((job) => job.status === id)
+    .map((job) => ({
+      id: job.id,
+      before: job,
+      after: {
+        ...job,
+        status: target.id,
+        timeline: [
+          ...ensureTimeline(job),
+          createTimelineEvent('status_changed', target.label, now, {
+            field: 'status',
+            from: job.status,
+            to: target.id
+          })
+        ],
+        updatedAt: now
+      }
+    }));
+  if (changes.length > 0) await commitJobs(jobs, changes, null);
+  await writePipeline(
+    normalizePipeline(pipeline.filter((stage) => stage.id !== id))
+  );
+}
+
+// Adds a field, or updates the one with the same name (ignoring case).
+// Options, currency and formula are kept from the existing field unless
+// given.
+export async function upsertCustomField(
+  name: string,
+  type: CustomField['type'],
+  settings: FieldSettings = {}
+) {
+  const schema = await loadSchema();
+  const exists = findField(schema, name);
+  const id =
+    exists?.id ??
+    createFieldId([
+      ...schema.map((field) => field.id),
+      ...(await loadJobs()).flatMap((job) => Object.keys(job.custom))
+    ]);
+  const field: CustomField = {
+    id,
+    name: name.trim(),
+    type,
+    ...normalizeFieldSettings(type, {
+      options: settings.options ?? exists?.options,
+      currency: settings.currency ?? exists?.currency,
+      formula: settings.formula ?? exists?.formula
+    })
+  };
+  const updated = exists
+    ? schema.map((item) => (item.id === id ? field : item))
+    : [...schema, field];
+  if (field.formula !== undefined) compileFormula(field.formula, updated, id);
+  await saveSchema(updated, {
+    label: exists ? `Updated field ${field.name}` : `Added field ${field.name}`,
+    before: schema
+  });
+  return id;
+}
+
+// Renames a field or changes its settings. Values stay attached to the id,
+// so renaming keeps every application's value, and formulas that refer to
+// the old name are rewritten to the new one.
+export async function updateCustomField(
+  id: string,
+  changes: Partial<Pick<CustomField, 'name'>> & FieldSettings
+) {
+  const schema = await loadSchema();
+  const field = schema.find((item) => item.id === id);
+  if (!field) throw new Error('That field no longer exists.');
+  const name = (changes.name ?? field.name).trim();
+  if (!name) throw new Error('Give the field a name.');
+  const taken = findField(schema, name);
+  if (taken && taken.id !== id) {
+    throw new Error(`There is already a field called ${taken.name}.`);
+  }
+  const updated: CustomField = {
+    id,
+    name,
+    type: field.type,
+    ...normalizeFieldSettings(field.type, {
+      options: changes.options ?? field.options,
+      currency: changes.currency ?? field.currency,
+      formula: changes.formula ?? field.formula
+    })
+  };
+  if (JSON.stringify(updated) === JSON.stringify(field)) return;
+  const fields = schema.map((item) => {
+    if (item.id === id) return updated;
+    return item.formula && name !== field.name
+      ? {
+          ...item,
+          formula: renameFieldReferences(item.formula, field.name, name)
+        }
+      : item;
+  });
+  if (updated.formula !== undefined) {
+    compileFormula(updated.formula, fields, id);
+  }
+  await saveSchema(fields, {
+    label:
+      name === field.name
+        ? `Updated field ${name}`
+        : `Renamed field ${field.name} to ${name}`,
+    before: schema
+  });
+}
+
+// Puts fields in the order of `ids`; fields missing from it keep their
+// relative order at the end. The details grid follows this order.
+export async function reorderCustomFields(ids: string[]) {
+  const schema = await loadSchema();
+  const rank = (field: CustomField) => {
+    const index = ids.indexOf(field.id);
+    return index === -1 ? ids.length : index;
+  };
+  const updated = [...schema].sort((a, b) => rank(a) - rank(b));
+  if (updated.every((field, index) => field === schema[index])) return;
+  await saveSchema(updated, { label: 'Reordered fields', before: schema });
+}
+
+// Removes a field. Its values are kept on applications unless `purgeValues`
+// is set, in which case they are cleared in the same undo step. Stage
+// requirements on the field are left for undo and ignored while it is gone.
+export async function deleteCustomField(
+  id: string,
+  { purgeValues = false }: { purgeValues?: boolean } = {}
+) {
+  const schema = await loadSchema();
+  const field = schema.find((item) => item.id === id);
+  if (!field) return;
+  const updated = schema.filter((item) => item.id !== id);
+  const label = `Deleted field ${field.name}`;
+  if (!purgeValues) {
+    await saveSchema(updated, { label, before: schema });
+    return;
+  }
+  const jobs = await loadJobs();
+  await commitJobs(jobs, clearCustomValues(jobs, [id]), label, {
+    schema: { before: schema, after: updated }
+  });
+  await saveSchema(updated);
+}
+
+// Values left under ids that no field uses, e.g. from fields deleted with
+// their values kept or from imports.
+export async function getOrphanedFields() {
+  const [jobs, schema] = await Promise.all([loadJobs(), loadSchema()]);
+  return findOrphanedFields(jobs, schema);
+}
+
+export async function purgeOrphanedFields(ids: string[]) {
+  const [jobs, schema] = await Promise.all([loadJobs(), loadSchema()]);
+  const orphaned = ids.filter((id) => !schema.some((field) => field.id === id));
+  const changes = clearCustomValues(jobs, orphaned);
+  if (changes.length === 0) return 0;
+  await commitJobs(
+    jobs,
+    changes,
+    `Cleared ${orphaned.length} unused field${orphaned.length === 1 ? '' : 's'}`
+  );
+  return changes.length;
+}
+
+function getRepository() {
+  if (!repository) {
+    repository = createIndexedDbRepository();
+  }
+  return repository;
+}
+
+async function loadLockState(): Promise<LockState> {
+  if (lockState) return lockState;
+  const lock = await getRepository().loadLock();
+  if (!lockState) lockState = lock ? 'locked' : 'disabled';
+  return lockState;
+}
+
+function setLockState(state: LockState) {
+  lockState = state;
+  notifyLock(state);
+}
+
+function notifyLock(state: LockState) {
+  lockListeners.forEach((listener) => listener(state));
+}
+
+async function verifyPassphrase(passphrase: string) {
+  const lock = await getRepository().loadLock();
+  if (!lock) throw new Error('The workspace has no passphrase.');
+  await openLock(lock, passphrase);
+}
+
+function clearCaches() {
+  jobsCache = null;
+  jobsLoading = null;
+  schemaCache = null;
+  schemaLoading = null;
+  pipelineCache = null;
+  pipelineLoading = null;
+  historyCache = null;
+  historyLoading = null;
+  lastHistoryEvent = null;
+}
+
+async function loadJobs(): Promise<Job[]> {
+  if (jobsCache) return jobsCache;
+  if (!jobsLoading) {
+    const source = getRepository();
+    const loading = source.loadJobs().then((stored) => {
+      const jobs = sortByCreated(stored);
+      if (jobsLoading === loading) {
+        jobsCache = jobs;
+        jobsLoading = null;
+      }
+      return jobs;
+    });
+    jobsLoading = loading;
+  }
+  return jobsLoading;
+}
+
+async function mutateTask(
+  id: string,
+  taskId: string,
+  describe: (job: Job) => string,
+  update: (
+    task: JobTask,
+    now: string
+  ) => { task: JobTask; event: TimelineEvent }
+) {
+  await mutateJob(id, describe, (job) => {
+    const task = job.tasks?.find((item) => item.id === taskId);
+    if (!task || task.completedAt) return job;
+    const now = timestamp();
+    const result = update(task, now);
+    return {
+      ...job,
+      tasks: (job.tasks ?? []).map((item) =>
+        item.id === taskId ? result.task : item
+      ),
+      timeline: [...ensureTimeline(job), result.event],
+      updatedAt: now
+    };
+  });
+}
+
+// Runs `update` over the applications in `ids` and commits whatever changed
+// at once. Applications it throws for are skipped and reported.
+async function mutateJobs(
+  ids: string[],
+  describe: (count: number) => string,
+  update: (job: Job) => Job
+): Promise<BulkResult> {
+  const jobs = await loadJobs();
+  const wanted = new Set(ids);
+  const changes: JobChange[] = [];
+  const skipped: BulkResult['skipped'] = [];
+  jobs.forEach((job) => {
+    if (!wanted.has(job.id) || job.deletedAt) return;
+    try {
+      const next = update(job);
+      if (next !== job) changes.push({ id: job.id, before: job, after: next });
+    } catch (error) {
+      skipped.push({ id: job.id, message: (error as Error).message });
+    }
+  });
+  if (changes.length > 0) {
+    await commitJobs(jobs, changes, describe(changes.length));
+  }
+  return { updated: changes.length, skipped };
+}
+
+async function mutateJob(
+  id: string,
+  describe: (job: Job) => string,
+  update: (job: Job) => Job
+) {
+  const jobs = await loadJobs();
+  const job = jobs.find((item) => item.id === id);
+  if (!job) return;
+  const next = update(job);
+  if (next === job) return;
+  await commitJobs(jobs, [{ id, before: job, after: next }], describe(job));
+}
+
+// Applies a change set to the cache synchronously, so a mutation that starts
+// while this one is still writing already sees its result, then persists it.
+// Each written job is stamped with the next revision after the cached copy;
+// the repository merges instead of overwriting when another tab got there first.
+async function commitJobs(
+  jobs: Job[],
+  requested: JobChange[],
+  label: string | null,
+  { schema, remote = false }: CommitOptions = {}
+) {
+  const cached = new Map(jobs.map((job) => [job.id, job]));
+  const changes = requested.map((change): JobChange => {
+    const base = cached.get(change.id) ?? null;
+    return {
+      id: change.id,
+      before: base,
+      after: change.after
+        ? { ...change.after, revision: (base?.revision ?? 0) + 1 }
+        : null
+    };
+  });
+  const next = applyChanges(jobs, changes);
+  jobsCache = next;
+  jobsLoading = null;
+  const recorded = label
+    ? recordHistory({
+        id: createId(),
+        label,
+        createdAt: timestamp(),
+        jobs: changes,
+        schema
+      })
+    : null;
+  const result = await getRepository().commitJobs(changes);
+  await recorded;
+  reconcileCommit(changes, result);
+  notifyJobs(jobsCache ?? next);
+  broadcast('jobs');
+  if (!remote && changes.length > 0) {
+    localChangeListeners.forEach((listener) => listener({ jobs: changes }));
+  }
+}
+
+function reconcileCommit(changes: JobChange[], result: CommitResult) {
+  const written = new Map(result.jobs.map((entry) => [entry.id, entry.job]));
+  changes.forEach((change) => {
+    const stored = written.get(change.id);
+    if (!jobsCache || stored === undefined || stored === change.after) return;
+    const current = jobsCache.find((job) => job.id === change.id) ?? null;
+    // A newer local edit already replaced the optimistic copy; its own commit
+    // will merge against what was stored here.
+    if (current !== change.after) return;
+    jobsCache = applyChanges(jobsCache, [
+      { id: change.id, before: current, after: stored }
+    ]);
+  });
+  if (result.conflicts.length > 0) {
+    conflictListeners.forEach((listener) => listener(result.conflicts));
+  }
+}
+
+function applyChanges(jobs: Job[], changes: JobChange[]): Job[] {
+  const byId = new Map(changes.map((change) => [change.id, change.after]));
+  const known = new Set(jobs.map((job) => job.id));
+  const kept = jobs.flatMap((job) => {
+    if (!byId.has(job.id)) return [job];
+    const replacement = byId.get(job.id);
+    return replacement ? [replacement] : [];
+  });
+  const added = changes.flatMap((change) =>
+    change.after && !known.has(change.id) ? [change.after] : []
+  );
+  return added.length ? sortByCreated([...added, ...kept]) : kept;
+}
+
+// Undo and redo are applied to what is stored now rather than written over
+// it, so changes that came in since are not lost.
+async function replayEntry(entry: HistoryEntry) {
+  const jobs = await loadJobs();
+  const changes = entry.jobs.flatMap((change) => {
+    const current = jobs.find((job) => job.id === change.id) ?? null;
+    const rebased = rebaseChange(change, current);
+    return rebased ? [rebased] : [];
+  });
+  if (changes.length > 0) await commitJobs(jobs, changes, null);
+  if (entry.schema) {
+    await saveSchema(rebaseSchema(entry.schema, await loadSchema()));
+  }
+}
+
+function recordHistory(entry: HistoryEntry) {
+  const last = { kind: 'do' as const, label: entry.label, entryId: entry.id };
+  return loadHistory().then((stack) =>
+    saveHistory(pushHistory(historyCache ?? stack, entry), last)
+  );
+}
+
+function enqueueHistory<T>(task: () => Promise<T>): Promise<T> {
+  const run = historyQueue.then(task, task);
+  historyQueue = run.catch(() => undefined);
+  return run;
+}
+
+async function loadHistory(): Promise<HistoryStack> {
+  if (historyCache) return historyCache;
+  if (!historyLoading) {
+    const loading = getRepository()
+      .loadHistory()
+      .catch(() => emptyHistory())
+      .then((stack) => {
+        if (historyLoading === loading) {
+          historyCache = stack;
+          historyLoading = null;
+        }
+        return stack;
+      });
+    historyLoading = loading;
+  }
+  return historyLoading;
+}
+
+async function saveHistory(stack: HistoryStack, last: HistoryStatus['last']) {
+  historyCache = stack;
+  historyLoading = null;
+  lastHistoryEvent = last;
+  notifyHistory(stack);
+  await getRepository().saveHistory(stack);
+  broadcast('history');
+}
+
+async function loadSchema(): Promise<CustomField[]> {
+  if (schemaCache) return schemaCache;
+  if (!schemaLoading) {
+    const loading = getRepository()
+      .loadSchema()
+      .then((fields) => {
+        if (schemaLoading === loading) {
+          schemaCache = fields;
+          schemaLoading = null;
+        }
+        return fields;
+      });
+    schemaLoading = loading;
+  }
+  return schemaLoading;
+}
+
+async function saveSchema(
+  fields: CustomField[],
+  history?: { label: string; before: CustomField[] },
+  remote = false
+) {
+  schemaCache = fields;
+  schemaLoading = null;
+  const recorded = history
+    ? recordHistory({
+        id: createId(),
+        label: history.label,
+        createdAt: timestamp(),
+        jobs: [],
+        schema: { before: history.before, after: fields }
+      })
+    : null;
+  await getRepository().saveSchema(fields);
+  await recorded;
+  notifySchema(fields);
+  broadcast('schema');
+  if (!remote) {
+    localChangeListeners.forEach((listener) =>
+      listener({ jobs: [], schema: fields })
+    );
+  }
+}
+
+// Workspaces from before pipelines were editable get one built from the
+// statuses their applications use, saved on first load.
+async function loadPipeline(): Promise<PipelineStage[]> {
+  if (pipelineCache) return pipelineCache;
+  if (!pipelineLoading) {
+    const loading = Promise.all([
+      getRepository().loadPipeline(),
+      loadJobs()
+    ]).then(async ([stored, jobs]) => {
+      const stages = sortStages(
+        stored ? restoreDarkColors(stored) : derivePipeline(jobs)
+      );
+      if (!stored) await getRepository().savePipeline(stages);
+      if (pipelineLoading === loading) {
+        pipelineCache = stages;
+        pipelineLoading = null;
+      }
+      return stages;
+    });
+    pipelineLoading = loading;
+  }
+  return pipelineLoading;
+}
+
+async function writePipeline(stages: PipelineStage[]) {
+  pipelineCache = stages;
+  pipelineLoading = null;
+  await getRepository().savePipeline(stages);
+  notifyPipeline(stages);
+  broadcast('pipeline');
+}
+
+async function refreshSnapshots() {
+  if (snapshotListeners.size === 0) return;
+  const snapshots = await getRepository().loadSnapshots();
+  snapshotListeners.forEach((listener) => listener(snapshots));
+}
+
+// Links to applications that were deleted are left in place, so undoing the
+// delete brings the contacts back with it.
+async function loadContacts() {
+  return sortContacts(await getRepository().loadContacts());
+}
+
+async function mutateContact(
+  id: string,
+  update: (contact: Contact) => ContactInput
+) {
+  const contact = (await loadContacts()).find((item) => item.id === id);
+  if (!contact) throw new Error('That contact no longer exists.');
+  await saveContacts([buildContact(update(contact), contact, timestamp())]);
+}
+
+async function saveContacts(contacts: Contact[]) {
+  await getRepository().putContacts(contacts);
+  await refreshContacts();
+  broadcast('contacts');
+}
+
+async function refreshContacts() {
+  if (contactListeners.size === 0) return;
+  const contacts = await loadContacts();
+  contactListeners.forEach((listener) => listener(contacts));
+}
+
+async function retagJobs(
+  jobs: Job[],
+  from: string,
+  to: string | null,
+  label: string
+) {
+  const now = timestamp();
+  const changes = jobs
+    .filter((job) => hasTag(job, from))
+    .map((job) => ({
+      id: job.id,
+      before: job,
+      after: { ...job, tags: replaceTag(job.tags, from, to), updatedAt: now }
+    }));
+  if (changes.length > 0) await commitJobs(jobs, changes, label);
+}
+
+async function saveTagColors(colors: Record<string, string>) {
+  await getRepository().saveTagColors(colors);
+  await refreshTagColors();
+  broadcast('tags');
+}
+
+async function refreshTagColors() {
+  if (tagColorListeners.size === 0) return;
+  const colors = await getRepository().loadTagColors();
+  tagColorListeners.forEach((listener) => listener(colors));
+}
+
+async function refreshDocuments() {
+  if (documentListeners.size === 0) return;
+  const documents = await getRepository().loadDocuments();
+  documentListeners.forEach((listener) => listener(documents));
+}
+
+async function refreshRecovery() {
+  const entries = await getRepository().loadRecovery();
+  recoveryListeners.forEach((listener) => listener(entries));
+}
+
+function notifyJobs(jobs: Job[]) {
+  const active = activeJobs(jobs);
+  jobListeners.forEach((listener) => listener(active));
+  if (trashListeners.size === 0) return;
+  const trashed = trashedJobs(jobs);
+  trashListeners.forEach((listener) => listener(trashed));
+}
+
+function activeJobs(jobs: Job[]) {
+  return jobs.filter((job) => !job.deletedAt);
+}
+
+function trashedJobs(jobs: Job[]) {
+  return jobs
+    .filter((job) => job.deletedAt)
+    .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+}
+
+function notifySchema(fields: CustomField[]) {
+  schemaListeners.forEach((listener) => listener(fields));
+}
+
+function notifyPipeline(stages: PipelineStage[]) {
+  pipelineListeners.forEach((listener) => listener(stages));
+}
+
+function notifyHistory(stack: HistoryStack) {
+  const status = describeHistory(stack, lastHistoryEvent);
+  historyListeners.forEach((listener) => listener(status));
+}
+
+function getChannel() {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+function broadcast(topic: ChangeTopic) {
+  const message: ChangeMessage = { topic, scope: getRepository().name };
+  getChannel()?.postMessage(message);
+}
+
+function attachChannelListener() {
+  if (channelListenerAttached) return;
+  const target = getChannel();
+  if (!target) return;
+  channelListenerAttached = true;
+  target.addEventListener('message', (event: MessageEvent<ChangeMessage>) => {
+    const { topic, scope } = event.data;
+    if (scope !== getRepository().name) return;
+    // Another tab set, changed or removed the passphrase, so the key held
+    // here (if any) no longer matches what is stored.
+    if (topic === 'lock') {
+      getRepository().setKey(null);
+      clearCaches();
+      lockState = null;
+      loadLockState().then(notifyLock);
+      return;
+    }
+    if (lockState === 'locked') return;
+    if (topic === 'jobs') {
+      jobsCache = null;
+      jobsLoading = null;
+      loadJobs().then(notifyJobs);
+    }
+    if (topic === 'schema') {
+      schemaCache = null;
+      schemaLoading = null;
+      loadSchema().then(notifySchema);
+    }
+    if (topic === 'pipeline') {
+      pipelineCache = null;
+      pipelineLoading = null;
+      loadPipeline().then(notifyPipeline);
+    }
+    if (topic === 'snapshots') {
+      refreshSnapshots();
+    }
+    if (topic === 'contacts') {
+      refreshContacts();
+    }
+    if (topic === 'documents') {
+      refreshDocuments();
+    }
+    if (topic === 'tags') {
+      refreshTagColors();
+    }
+    if (topic === 'history') {
+      historyCache = null;
+      historyLoading = null;
+      loadHistory().then(notifyHistory);
+    }
+  });
+}
+
+function clearCustomValues(jobs: Job[], ids: string[]): JobChange[] {
+  const now = timestamp();
+  return jobs
+    .filter((job) => ids.some((id) => id in job.custom))
+    .map((job) => {
+      const custom = { ...job.custom };
+      ids.forEach((id) => delete custom[id]);
+      return {
+        id: job.id,
+        before: job,
+        after: { ...job, custom, updatedAt: now }
+      };
+    });
+}
+
+function createId() {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `job-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function timestamp() {
+  return new Date().toISOString();
+}
+
+function createTimelineEvent(
+  type: TimelineEvent['type'],
+  label: string,
+  createdAt: string,
+  change: Pick<TimelineEvent, 'field' | 'from' | 'to' | 'source'> = {}
+): TimelineEvent {
+  return {
+    id: createId(),
+    type,
+    label,
+    createdAt,
+    ...stripUndefined(change)
+  };
+}
+
+// Updates shared by the single and bulk versions of each action. Each
+// returns the job untouched when there is nothing to change.
+function moveJob(
+  pipeline: PipelineStage[],
+  fields: CustomField[],
+  status: JobStatus,
+  values: Record<string, CustomValue> | undefined,
+  source: ChangeSource
+) {
+  const stage = stageLabel(pipeline, status);
+  return (job: Job): Job => {
+    if (job.status === status) return job;
+    const next = values
+      ? { ...job, custom: { ...job.custom, ...values } }
+      : job;
+    const error = transitionError(pipeline, fields, next, status);
+    if (error) throw new Error(error);
+    const now = timestamp();
+    const timeline = ensureTimeline(job);
+    timeline.push(
+      ...customEvents(fields, job.custom, next.custom, now, source),
+      createTimelineEvent('status_changed', stage, now, {
+        field: 'status',
+        from: job.status,
+        to: status,
+        source
+      })
+    );
+    return {
+      ...next,
+      status,
+      timeline,
+      updatedAt: now
+    };
+  };
+}
+
+function tagJob(name: string, source: ChangeSource) {
+  return (job: Job): Job => {
+    if (hasTag(job, name)) return job;
+    const now = timestamp();
+    return {
+      ...job,
+      tags: [...(job.tags ?? []), name],
+      timeline: [
+        ...ensureTimeline(job),
+        createTimelineEvent('tag_added', `Tag added: ${name}`, now, {
+          field: 'tags',
+          to: name,
+          source
+        })
+      ],
+      updatedAt: now
+    };
+  };
+}
+
+function untagJob(tag: string, source: ChangeSource) {
+  return (job: Job): Job => {
+    if (!hasTag(job, tag)) return job;
+    const now = timestamp();
+    return {
+      ...job,
+      tags: replaceTag(job.tags, tag, null),
+      timeline: [
+        ...ensureTimeline(job),
+        createTimelineEvent('tag_removed', `Tag removed: ${tag}`, now, {
+          field: 'tags',
+          from: tag,
+          source
+        })
+      ],
+      updatedAt: now
+    };
+  };
+}
+
+function setJobValue(
+  fields: CustomField[],
+  fieldId: string,
+  value: CustomValue
+) {
+  return (job: Job): Job => {
+    if (sameValue(job.custom[fieldId], value)) return job;
+    const now = timestamp();
+    const custom = { ...job.custom, [fieldId]: value };
+    return {
+      ...job,
+      custom,
+      timeline: [
+        ...ensureTimeline(job),
+        ...customEvents(fields, job.custom, custom, now, 'manual')
+      ],
+      updatedAt: now
+    };
+  };
+}
+
+function trashJob(job: Job): Job {
+  if (job.deletedAt) return job;
+  const now = timestamp();
+  const timeline = ensureTimeline(job);
+  timeline.push(createTimelineEvent('trashed', `Moved to trash`, now));
+  return {
+    ...job,
+    timeline,
+    deletedAt: now,
+    updatedAt: now
+  };
+}
+
+function countJobs(count: number) {
+  return `${count} application${count === 1 ? '' : 's'}`;
+}
+
+// One event per custom value that differs between `before` and `after`.
+function customEvents(
+  fields: CustomField[],
+  before: Job['custom'],
+  after: Job['custom'],
+  now: string,
+  source: ChangeSource
+) {
+  return Object.keys(after)
+    .filter((key) => !sameValue(before[key], after[key]))
+    .map((key) => {
+      const name = fields.find((field) => field.id === key)?.name ?? key;
+      return createTimelineEvent('custom_updated', `${name} updated`, now, {
+        field: `custom.${key}`,
+        from: before[key] ?? null,
+        to: after[key] ?? null,
+        source
+      });
+    });
+}
+
+// Timeline entries for a round that was added (`before` is null) or edited:
+// one when its time is set or moved, one when its outcome changes.
+function interviewEvents(
+  before: InterviewRound | null,
+  after: InterviewRound,
+  now: string
+): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+  const name = interviewTypeLabel(after.type);
+  if (after.scheduledAt && after.scheduledAt !== before?.scheduledAt) {
+    events.push(
+      createTimelineEvent(
+        'interview_scheduled',
+        `${name} scheduled for ${formatInterviewTime(after.scheduledAt)}`,
+        now
+      )
+    );
+  }
+  if (after.outcome !== (before?.outcome ?? 'pending')) {
+    events.push(
+      createTimelineEvent(
+        'interview_outcome',
+        `${name}: ${interviewOutcomeLabel(after.outcome)}`,
+        now
+      )
+    );
+  }
+  return events;
+}
+
+function ensureTimeline(job: Job): TimelineEvent[] {
+  return Array.isArray(job.timeline) ? [...job.timeline] : [];
+}
+
+function sortByCreated(jobs: Job[]): Job[] {
+  return [...jobs].sort((a, b) =>
+    (b.createdAt ?? '').localeCompare(a.createdAt ?? '')
+  );
+}
+
+function summarize(text: string) {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  if (trimmed.length <= 48) return trimmed;
+  return `${trimmed.slice(0, 45)}...`;
+}
+
+function buildNotes(
+  bodies: string[] | undefined,
+  source: ChangeSource,
+  now: string
+) {
+  return (bodies ?? [])
+    .filter((body) => body.trim())
+    .map((body) => buildNote(body, source, createId(), now));
+}
+
+function noteAddedEvent(note: JobNote, now: string) {
+  return createTimelineEvent('note_added', 'Note added', now, {
+    field: 'notes',
+    to: note.body,
+    source: note.source
+  });
 }
 
 function stripUndefined<T extends Record<string, unknown>>(input: T): T {
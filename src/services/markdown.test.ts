@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { renderMarkdown } from './markdown';
+
+describe('renderMarkdown', () => {
+  it('renders headings, lists, emphasis and links', () => {
+    expect(
+      renderMarkdown(
+        '# Prep\nAsk about **team size** and *on-call*\n\n- Read [blog](https://acme.dev)\n- Review `system design`'
+      )
+    ).toBe(
+      '<h4>Prep</h4>' +
+        '<p>Ask about <strong>team size</strong> and <em>on-call</em></p>' +
+        '<ul><li>Read <a href="https://acme.dev" target="_blank" rel="noreferrer">blog</a></li>' +
+        '<li>Review <code>system design</code></li></ul>'
+    );
+  });
+
+  it('escapes HTML and unsafe links', () => {
+    expect(
+      renderMarkdown('<img src=x onerror=alert(1)> [x](javascript:alert(1))')
+    ).toBe(
+      '<p>&lt;img src=x onerror=alert(1)&gt; [x](javascript:alert(1))</p>'
+    );
+  });
+});
@@ -0,0 +1,76 @@
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+// Renders the small Markdown subset notes use (headings, lists, emphasis,
+// inline code and links) to HTML. Everything else is escaped, so the result
+// is safe to insert as-is.
+export function renderMarkdown(text: string) {
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+      paragraph = [];
+    }
+    if (list) {
+      const items = list.items.map((item) => `<li>${renderInline(item)}</li>`);
+      html.push(`<${list.tag}>${items.join('')}</${list.tag}>`);
+      list = null;
+    }
+  };
+
+  text.split(/\r?\n/).forEach((line) => {
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+    const bullet = /^\s*[-*]\s+(.*)$/.exec(line);
+    const numbered = /^\s*\d+[.)]\s+(.*)$/.exec(line);
+    if (!line.trim()) {
+      flush();
+    } else if (heading) {
+      flush();
+      const level = heading[1].length + 3;
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+    } else if (bullet || numbered) {
+      const tag = bullet ? 'ul' : 'ol';
+      if (paragraph.length > 0 || list?.tag !== tag) flush();
+      list = list ?? { tag, items: [] };
+      list.items.push((bullet ?? numbered)![1]);
+    } else {
+      if (list) flush();
+      paragraph.push(line);
+    }
+  });
+  flush();
+  return html.join('');
+}
+
+function renderInline(text: string) {
+  // Odd segments sit between backticks and are shown verbatim.
+  return text
+    .split('`')
+    .map((segment, index, segments) => {
+      const escaped = escapeHtml(segment);
+      if (index % 2 === 1 && index < segments.length - 1) {
+        return `<code>${escaped}</code>`;
+      }
+      const formatted = escaped
+        .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+        .replace(/(^|[^*])\*([^*]+)\*/g, '$1<em>$2</em>')
+        .replace(
+          /\[([^\]]+)\]\(((?:https?:\/\/|mailto:)[^\s)]+)\)/g,
+          '<a href="$2" target="_blank" rel="noreferrer">$1</a>'
+        );
+      return index % 2 === 1 ? `\`${formatted}` : formatted;
+    })
+    .join('');
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (char) => ESCAPES[char]);
+}
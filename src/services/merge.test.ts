@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import type { Job, JobNote } from '../types';
+import { mergeJob } from './merge';
+
+function note(id: string, body: string): JobNote {
+  return {
+    id,
+    body,
+    source: 'manual',
+    createdAt: '2024-01-10T00:00:00.000Z',
+    updatedAt: '2024-01-10T00:00:00.000Z'
+  };
+}
+
+const base: Job = {
+  id: 'job-1',
+  company: 'Acme',
+  role: 'Engineer',
+  status: 'applied',
+  appliedDate: '2024-01-10',
+  tags: ['remote'],
+  notes: [note('n1', 'First call')],
+  custom: { source: 'Referral', salary: 100 },
+  timeline: [
+    {
+      id: 'a',
+      type: 'created',
+      label: 'Created',
+      createdAt: '2024-01-10T00:00:00.000Z'
+    }
+  ],
+  createdAt: '2024-01-10T00:00:00.000Z',
+  updatedAt: '2024-01-10T00:00:00.000Z',
+  revision: 1
+};
+
+describe('mergeJob', () => {
+  it('combines edits to different fields', () => {
+    const ours: Job = {
+      ...base,
+      status: 'interviewed',
+      tags: ['remote', 'priority'],
+      timeline: [
+        ...(base.timeline ?? []),
+        {
+          id: 'b',
+          type: 'status_changed',
+          label: 'Interviewing',
+          createdAt: '2024-01-12T00:00:00.000Z'
+        }
+      ],
+      updatedAt: '2024-01-12T00:00:00.000Z'
+    };
+    const theirs: Job = {
+      ...base,
+      custom: { ...base.custom, salary: 120 },
+      notes: [...base.notes, note('n2', 'Sent portfolio')],
+      timeline: [
+        ...(base.timeline ?? []),
+        {
+          id: 'c',
+          type: 'custom_updated',
+          label: 'Custom updated',
+          createdAt: '2024-01-11T00:00:00.000Z'
+        }
+      ],
+      updatedAt: '2024-01-11T00:00:00.000Z',
+      revision: 2
+    };
+
+    const { job, conflicts } = mergeJob(base, ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(job.status).toBe('interviewed');
+    expect(job.custom).toEqual({ source: 'Referral', salary: 120 });
+    expect(job.tags).toEqual(['remote', 'priority']);
+    expect(job.notes.map((item) => item.body)).toEqual([
+      'First call',
+      'Sent portfolio'
+    ]);
+    expect(job.timeline?.map((event) => event.id)).toEqual(['a', 'c', 'b']);
+    expect(job.updatedAt).toBe('2024-01-12T00:00:00.000Z');
+  });
+
+  it('keeps the stored value and reports clashing edits', () => {
+    const ours: Job = {
+      ...base,
+      status: 'rejected',
+      custom: { ...base.custom, source: 'Email' }
+    };
+    const theirs: Job = {
+      ...base,
+      status: 'offer',
+      custom: { ...base.custom, source: 'Email' }
+    };
+
+    const { job, conflicts } = mergeJob(base, ours, theirs);
+    expect(job.status).toBe('offer');
+    expect(job.custom.source).toBe('Email');
+    expect(conflicts).toEqual([
+      { field: 'status', ours: 'rejected', theirs: 'offer' }
+    ]);
+  });
+
+  it('applies removals made on either side', () => {
+    const ours: Job = {
+      ...base,
+      tags: [],
+      deletedAt: '2024-02-01T00:00:00.000Z'
+    };
+    const theirs: Job = { ...base, tags: ['remote', 'fintech'] };
+
+    const { job } = mergeJob(base, ours, theirs);
+    expect(job.tags).toEqual(['fintech']);
+    expect(job.deletedAt).toBe('2024-02-01T00:00:00.000Z');
+  });
+});
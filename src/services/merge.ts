@@ -0,0 +1,189 @@
+import type { Job, TimelineEvent } from '../types';
+
+export type FieldConflict = {
+  field: string;
+  ours: unknown;
+  theirs: unknown;
+};
+
+export type MergeResult = {
+  job: Job;
+  conflicts: FieldConflict[];
+};
+
+const SCALAR_FIELDS = [
+  'company',
+  'role',
+  'status',
+  'appliedDate',
+  'deletedAt'
+] as const;
+
+// Three-way merge of one job: `base` is what this writer last read, `ours` is
+// what it wants to write and `theirs` is what another writer stored meanwhile.
+// Fields only one side touched are combined; when both sides changed the same
+// field to different values the stored value is kept and the clash reported.
+export function mergeJob(base: Job, ours: Job, theirs: Job): MergeResult {
+  const conflicts: FieldConflict[] = [];
+  const merged: Job = { ...theirs };
+  const record = merged as unknown as Record<string, unknown>;
+
+  SCALAR_FIELDS.forEach((field) => {
+    const value = mergeValue(
+      field,
+      base[field],
+      ours[field],
+      theirs[field],
+      conflicts
+    );
+    if (value === undefined) {
+      delete record[field];
+    } else {
+      record[field] = value;
+    }
+  });
+
+  const customKeys = new Set([
+    ...Object.keys(base.custom ?? {}),
+    ...Object.keys(ours.custom ?? {}),
+    ...Object.keys(theirs.custom ?? {})
+  ]);
+  const custom: Job['custom'] = {};
+  customKeys.forEach((key) => {
+    const value = mergeValue(
+      `custom.${key}`,
+      base.custom?.[key],
+      ours.custom?.[key],
+      theirs.custom?.[key],
+      conflicts
+    );
+    if (value !== undefined) custom[key] = value;
+  });
+  merged.custom = custom;
+
+  merged.tags = mergeList(base.tags, ours.tags, theirs.tags);
+  if (base.documentIds || ours.documentIds || theirs.documentIds) {
+    merged.documentIds = mergeList(
+      base.documentIds,
+      ours.documentIds,
+      theirs.documentIds
+    );
+  }
+  merged.notes = mergeEntries(
+    'notes',
+    base.notes ?? [],
+    ours.notes ?? [],
+    theirs.notes ?? [],
+    conflicts
+  );
+  merged.timeline = sortTimeline(
+    mergeEntries(
+      'timeline',
+      base.timeline ?? [],
+      ours.timeline ?? [],
+      theirs.timeline ?? [],
+      conflicts
+    )
+  );
+  if (base.interviews || ours.interviews || theirs.interviews) {
+    merged.interviews = mergeEntries(
+      'interviews',
+      base.interviews ?? [],
+      ours.interviews ?? [],
+      theirs.interviews ?? [],
+      conflicts
+    );
+  }
+  if (base.tasks || ours.tasks || theirs.tasks) {
+    merged.tasks = mergeEntries(
+      'tasks',
+      base.tasks ?? [],
+      ours.tasks ?? [],
+      theirs.tasks ?? [],
+      conflicts
+    );
+  }
+  merged.updatedAt = latest(ours.updatedAt, theirs.updatedAt);
+
+  return { job: merged, conflicts };
+}
+
+function mergeValue<T>(
+  field: string,
+  base: T,
+  ours: T,
+  theirs: T,
+  conflicts: FieldConflict[]
+): T {
+  if (same(ours, base) || same(ours, theirs)) return theirs;
+  if (same(theirs, base)) return ours;
+  conflicts.push({ field, ours, theirs });
+  return theirs;
+}
+
+function mergeList(
+  base: string[] = [],
+  ours: string[] = [],
+  theirs: string[] = []
+) {
+  const removedByUs = base.filter((item) => !ours.includes(item));
+  const addedByUs = ours.filter(
+    (item) => !base.includes(item) && !theirs.includes(item)
+  );
+  return [
+    ...theirs.filter((item) => !removedByUs.includes(item)),
+    ...addedByUs
+  ];
+}
+
+// Interview rounds, tasks, notes and timeline events are merged as whole
+// records keyed by id, so two writers adding different entries both keep
+// theirs.
+function mergeEntries<T extends { id: string }>(
+  field: string,
+  base: T[],
+  ours: T[],
+  theirs: T[],
+  conflicts: FieldConflict[]
+) {
+  const baseById = new Map(base.map((entry) => [entry.id, entry]));
+  const oursById = new Map(ours.map((entry) => [entry.id, entry]));
+  const theirIds = new Set(theirs.map((entry) => entry.id));
+  const kept = theirs.flatMap((entry) => {
+    const before = baseById.get(entry.id);
+    const mine = oursById.get(entry.id);
+    if (!before) return [mine ?? entry];
+    if (!mine) return sameEntry(entry, before) ? [] : [entry];
+    if (sameEntry(mine, before) || sameEntry(mine, entry)) return [entry];
+    if (sameEntry(entry, before)) return [mine];
+    conflicts.push({
+      field: `${field}.${entry.id}`,
+      ours: mine,
+      theirs: entry
+    });
+    return [entry];
+  });
+  const added = ours.filter(
+    (entry) => !baseById.has(entry.id) && !theirIds.has(entry.id)
+  );
+  return [...kept, ...added];
+}
+
+function sameEntry(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function sortTimeline(timeline: TimelineEvent[]) {
+  return [...timeline].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+function latest(a?: string, b?: string) {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+// Lists and amounts are compared by content.
+function same(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
@@ -0,0 +1,250 @@
+import { describe, expect, it } from 'vitest';
+import type { Job } from '../types';
+import {
+  JOB_DATA_VERSION,
+  SCHEMA_DATA_VERSION,
+  migrateJob,
+  migrateSchema,
+  wrapJob,
+  wrapSchema
+} from './migrations';
+
+const currentJob: Job = {
+  id: 'job-1',
+  company: 'Acme',
+  role: 'Engineer',
+  status: 'interviewed',
+  appliedDate: '2024-02-01',
+  tags: ['remote'],
+  notes: [
+    {
+      id: 'note-1',
+      body: 'Phone screen went well',
+      source: 'manual',
+      pinned: true,
+      createdAt: '2024-02-01T10:00:00.000Z',
+      updatedAt: '2024-02-01T10:00:00.000Z'
+    }
+  ],
+  custom: { source: 'Referral' },
+  timeline: [
+    {
+      id: 'event-1',
+      type: 'created',
+      label: 'Created',
+      createdAt: '2024-02-01T10:00:00.000Z'
+    }
+  ],
+  createdAt: '2024-02-01T10:00:00.000Z',
+  updatedAt: '2024-02-03T09:30:00.000Z'
+};
+
+type HistoricalJob = {
+  name: string;
+  stored: unknown;
+  expected: Partial<Job>;
+};
+
+const historicalJobs: HistoricalJob[] = [
+  {
+    name: 'v0 job with a single string note',
+    stored: {
+      id: 'job-1',
+      company: 'Acme',
+      role: 'Engineer',
+      status: 'applied',
+      notes: 'Referred by Sam',
+      createdAt: '2024-01-01T00:00:00.000Z'
+    },
+    expected: {
+      notes: [
+        {
+          id: 'job-1-note-0',
+          body: 'Referred by Sam',
+          source: 'manual',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-01T00:00:00.000Z'
+        }
+      ],
+      tags: [],
+      custom: {},
+      timeline: [],
+      updatedAt: '2024-01-01T00:00:00.000Z'
+    }
+  },
+  {
+    name: 'v0 job with a legacy note key and comma separated tags',
+    stored: {
+      id: 'job-2',
+      company: 'Globex',
+      role: 'Analyst',
+      status: 'applied',
+      note: 'Follow up Friday',
+      tags: 'remote, fintech',
+      createdAt: '2024-01-01T00:00:00.000Z'
+    },
+    expected: {
+      notes: [expect.objectContaining({ body: 'Follow up Friday' })],
+      tags: ['remote', 'fintech']
+    }
+  },
+  {
+    name: 'v0 job without createdAt falls back to the timeline',
+    stored: {
+      id: 'job-3',
+      company: 'Initech',
+      role: 'Developer',
+      status: 'applied',
+      tags: [],
+      notes: [],
+      custom: {},
+      timeline: [
+        {
+          id: 'b',
+          type: 'status_changed',
+          label: 'Applied',
+          createdAt: '2024-03-05T12:00:00.000Z'
+        },
+        {
+          id: 'a',
+          type: 'created',
+          label: 'Created',
+          createdAt: '2024-03-04T08:00:00.000Z'
+        }
+      ]
+    },
+    expected: {
+      createdAt: '2024-03-04T08:00:00.000Z',
+      updatedAt: '2024-03-04T08:00:00.000Z'
+    }
+  },
+  {
+    name: 'v0 job without any timestamps falls back to the applied date',
+    stored: {
+      id: 'job-4',
+      company: 'Umbrella',
+      role: 'Researcher',
+      status: 'applied',
+      appliedDate: '2023-11-20'
+    },
+    expected: { createdAt: '2023-11-20T00:00:00.000Z' }
+  },
+  {
+    name: 'v0 job with a legacy status value',
+    stored: {
+      id: 'job-5',
+      company: 'Hooli',
+      role: 'PM',
+      status: 'Interviewing',
+      createdAt: '2024-01-01T00:00:00.000Z'
+    },
+    expected: { status: 'interviewed' }
+  },
+  {
+    name: 'v1 envelope without createdAt',
+    stored: {
+      version: 1,
+      data: {
+        id: 'job-6',
+        company: 'Vandelay',
+        role: 'Importer',
+        status: 'declined',
+        tags: [],
+        notes: [],
+        custom: {},
+        timeline: [],
+        updatedAt: '2024-04-01T00:00:00.000Z'
+      }
+    },
+    expected: {
+      createdAt: '2024-04-01T00:00:00.000Z',
+      status: 'rejected'
+    }
+  },
+  {
+    name: 'v2 envelope with a legacy status value',
+    stored: {
+      version: 2,
+      data: { ...currentJob, status: 'offered' }
+    },
+    expected: { status: 'offer', notes: currentJob.notes }
+  },
+  {
+    name: 'v3 envelope with plain string notes',
+    stored: {
+      version: 3,
+      data: { ...currentJob, notes: ['Sent portfolio', ' '] }
+    },
+    expected: {
+      notes: [
+        {
+          id: 'job-1-note-0',
+          body: 'Sent portfolio',
+          source: 'manual',
+          createdAt: currentJob.createdAt!,
+          updatedAt: currentJob.createdAt!
+        }
+      ]
+    }
+  }
+];
+
+describe('migrateJob', () => {
+  it.each(historicalJobs)('upgrades $name', ({ stored, expected }) => {
+    const job = migrateJob(stored);
+    expect(job).toMatchObject(expected);
+    expect(Array.isArray(job.notes)).toBe(true);
+    expect(Array.isArray(job.tags)).toBe(true);
+    expect(Array.isArray(job.timeline)).toBe(true);
+    expect(typeof job.createdAt).toBe('string');
+    expect(job).not.toHaveProperty('note');
+  });
+
+  it('round-trips current jobs unchanged', () => {
+    const envelope = wrapJob(currentJob);
+    expect(envelope.version).toBe(JOB_DATA_VERSION);
+    expect(migrateJob(envelope)).toEqual(currentJob);
+  });
+
+  it('is idempotent for already migrated jobs', () => {
+    const migrated = migrateJob(historicalJobs[0].stored);
+    expect(migrateJob(wrapJob(migrated))).toEqual(migrated);
+    expect(migrateJob(migrated)).toEqual(migrated);
+  });
+
+  it('leaves records from a newer build untouched', () => {
+    const future = { ...currentJob, status: 'withdrawn' };
+    expect(migrateJob({ version: JOB_DATA_VERSION + 1, data: future })).toEqual(
+      future
+    );
+  });
+
+  it('rejects records that are not objects', () => {
+    expect(() => migrateJob('oops')).toThrow();
+    expect(() => migrateJob({ version: 1, data: null })).toThrow();
+  });
+});
+
+describe('migrateSchema', () => {
+  it('upgrades the unversioned localStorage payload', () => {
+    expect(
+      migrateSchema({
+        customFields: [
+          { id: 'source', name: 'Source', type: 'text' },
+          { id: 'salary', name: 'Salary', type: 'money' },
+          { name: 'Missing id', type: 'text' }
+        ]
+      })
+    ).toEqual([
+      { id: 'source', name: 'Source', type: 'text' },
+      { id: 'salary', name: 'Salary', type: 'text' }
+    ]);
+  });
+
+  it('round-trips current schema unchanged', () => {
+    const fields = [{ id: 'source', name: 'Source', type: 'url' as const }];
+    const envelope = wrapSchema(fields);
+    expect(envelope.version).toBe(SCHEMA_DATA_VERSION);
+    expect(migrateSchema(envelope)).toEqual(fields);
+  });
+});
@@ -0,0 +1,188 @@
+import type { CustomField, Job, JobStatus } from '../types';
+import { isJobNote, toNoteEntries } from './notes';
+
+export type Envelope<T> = {
+  version: number;
+  data: T;
+};
+
+type RawRecord = Record<string, unknown>;
+
+type Migration = (record: RawRecord) => RawRecord;
+
+const EPOCH = new Date(0).toISOString();
+
+export const LEGACY_STATUSES: Record<string, JobStatus> = {
+  interview: 'interviewed',
+  interviewing: 'interviewed',
+  offered: 'offer',
+  declined: 'rejected',
+  rejection: 'rejected',
+  pending: 'applied',
+  submitted: 'applied',
+  hired: 'accepted'
+};
+
+const FIELD_TYPES = new Set<CustomField['type']>([
+  'text',
+  'number',
+  'date',
+  'url'
+]);
+
+// Each entry upgrades a job record from version `index` to `index + 1`.
+// Version 0 is the unversioned array that used to live in localStorage.
+const jobMigrations: Migration[] = [
+  ({ note, ...job }) => ({
+    ...job,
+    notes: toNoteList(job.notes ?? note),
+    tags: toTagList(job.tags),
+    custom: isRecord(job.custom) ? job.custom : {},
+    timeline: Array.isArray(job.timeline) ? job.timeline : []
+  }),
+  (job) => {
+    const createdAt =
+      toTimestamp(job.createdAt) ??
+      earliestTimelineTimestamp(job.timeline) ??
+      toTimestamp(job.updatedAt) ??
+      toTimestamp(job.appliedDate) ??
+      EPOCH;
+    return {
+      ...job,
+      createdAt,
+      updatedAt: toTimestamp(job.updatedAt) ?? createdAt
+    };
+  },
+  (job) => {
+    const status =
+      typeof job.status === 'string' ? job.status.trim().toLowerCase() : '';
+    return {
+      ...job,
+      status: LEGACY_STATUSES[status] ?? (status || 'applied')
+    };
+  },
+  (job) => ({
+    ...job,
+    notes: toNoteEntries(
+      job.notes,
+      String(job.id),
+      toTimestamp(job.createdAt) ?? EPOCH
+    )
+  })
+];
+
+// Each entry upgrades the custom field list from version `index` to `index + 1`.
+const schemaMigrations: Migration[] = [
+  (payload) => {
+    const fields = Array.isArray(payload.customFields)
+      ? payload.customFields
+      : [];
+    return {
+      customFields: fields.filter(isRecord).flatMap((field) => {
+        if (typeof field.id !== 'string' || typeof field.name !== 'string') {
+          return [];
+        }
+        const type = FIELD_TYPES.has(field.type as CustomField['type'])
+          ? field.type
+          : 'text';
+        return [{ id: field.id, name: field.name, type }];
+      })
+    };
+  }
+];
+
+export const JOB_DATA_VERSION = jobMigrations.length;
+export const SCHEMA_DATA_VERSION = schemaMigrations.length;
+
+export function wrapJob(job: Job): Envelope<Job> {
+  return { version: JOB_DATA_VERSION, data: job };
+}
+
+export function wrapSchema(fields: CustomField[]): Envelope<CustomField[]> {
+  return { version: SCHEMA_DATA_VERSION, data: fields };
+}
+
+export function migrateJob(stored: unknown): Job {
+  const { version, data } = unwrap(stored);
+  if (!isRecord(data)) {
+    throw new Error('Stored job is not an object');
+  }
+  return runMigrations(jobMigrations, data, version) as Job;
+}
+
+export function migrateSchema(stored: unknown): CustomField[] {
+  const { version, data } = unwrap(stored);
+  const payload = Array.isArray(data) ? { customFields: data } : data;
+  if (!isRecord(payload)) return [];
+  const migrated = runMigrations(schemaMigrations, payload, version);
+  return Array.isArray(migrated.customFields)
+    ? (migrated.customFields as CustomField[])
+    : [];
+}
+
+function unwrap(stored: unknown): { version: number; data: unknown } {
+  if (
+    isRecord(stored) &&
+    typeof stored.version === 'number' &&
+    'data' in stored
+  ) {
+    return { version: stored.version, data: stored.data };
+  }
+  return { version: 0, data: stored };
+}
+
+function runMigrations(
+  migrations: Migration[],
+  record: RawRecord,
+  fromVersion: number
+): RawRecord {
+  // Records written by a newer build are left untouched rather than guessed at.
+  return migrations
+    .slice(Math.max(0, fromVersion))
+    .reduce((current, migrate) => migrate(current), { ...record });
+}
+
+// Note entries pass through untouched so re-running this on current data is
+// harmless; they are built from the strings in a later migration.
+function toNoteList(value: unknown): unknown[] {
+  if (Array.isArray(value)) {
+    return value
+      .filter((item) => item !== null && item !== undefined)
+      .map((item) => (isJobNote(item) ? item : String(item)))
+      .filter((item) => typeof item !== 'string' || item.trim());
+  }
+  if (typeof value === 'string' && value.trim()) return [value];
+  return [];
+}
+
+function toTagList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map((item) => String(item).trim()).filter(Boolean);
+  }
+  if (typeof value === 'string') {
+    return value
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  return [];
+}
+
+function toTimestamp(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function earliestTimelineTimestamp(timeline: unknown): string | undefined {
+  if (!Array.isArray(timeline)) return undefined;
+  const stamps = timeline
+    .map((event) => (isRecord(event) ? toTimestamp(event.createdAt) : undefined))
+    .filter((stamp): stamp is string => Boolean(stamp))
+    .sort();
+  return stamps[0];
+}
+
+function isRecord(value: unknown): value is RawRecord {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
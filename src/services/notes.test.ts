@@ -0,0 +1,62 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  addJob,
+  addNote,
+  deleteNote,
+  pinNote,
+  setRepository,
+  updateJob,
+  updateNote
+} from './jobs';
+import { sortNotes } from './notes';
+import { createIndexedDbRepository } from './storage';
+import { currentJobs } from './testUtils';
+
+describe('notes', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('keeps every note with its source and timeline events', async () => {
+    const id = await addJob({
+      company: 'Acme',
+      role: 'Engineer',
+      notes: ['Imported note'],
+      source: 'import'
+    });
+    const noteId = await addNote(id, '  Phone screen went well ');
+    await updateJob(id, { notes: ['Recruiter replied'], source: 'ai' });
+    await updateNote(id, noteId, 'Phone screen went **well**');
+
+    const [job] = await currentJobs();
+    expect(job.notes.map((note) => [note.body, note.source])).toEqual([
+      ['Imported note', 'import'],
+      ['Phone screen went **well**', 'manual'],
+      ['Recruiter replied', 'ai']
+    ]);
+    const types = job.timeline?.map((event) => event.type);
+    expect(types?.filter((type) => type === 'note_added')).toHaveLength(3);
+    expect(types).toContain('note_updated');
+    await expect(addNote(id, '   ')).rejects.toThrow('cannot be empty');
+  });
+
+  it('pins and deletes notes', async () => {
+    const id = await addJob({ company: 'Acme', role: 'Engineer' });
+    const first = await addNote(id, 'First');
+    const second = await addNote(id, 'Second');
+    await pinNote(id, first, true);
+
+    let [job] = await currentJobs();
+    expect(sortNotes(job.notes).map((note) => note.id)).toEqual([
+      first,
+      second
+    ]);
+
+    await deleteNote(id, first);
+    [job] = await currentJobs();
+    expect(job.notes.map((note) => note.id)).toEqual([second]);
+  });
+});
@@ -0,0 +1,56 @@
+import type { ChangeSource, JobNote } from '../types';
+
+export function buildNote(
+  body: string,
+  source: ChangeSource,
+  id: string,
+  now: string
+): JobNote {
+  const text = body.trim();
+  if (!text) throw new Error('Notes cannot be empty.');
+  return { id, body: text, source, createdAt: now, updatedAt: now };
+}
+
+// Pinned notes first, then the most recent.
+export function sortNotes(notes: JobNote[]) {
+  return [...notes].sort(
+    (a, b) =>
+      Number(Boolean(b.pinned)) - Number(Boolean(a.pinned)) ||
+      b.createdAt.localeCompare(a.createdAt)
+  );
+}
+
+export function isJobNote(value: unknown): value is JobNote {
+  if (!value || typeof value !== 'object') return false;
+  const note = value as Record<string, unknown>;
+  return (
+    typeof note.id === 'string' &&
+    typeof note.body === 'string' &&
+    typeof note.source === 'string' &&
+    typeof note.createdAt === 'string'
+  );
+}
+
+// Notes were once plain strings, and clients that have not been updated may
+// still sync them that way. Ids come from the job and position, so reading
+// the same record twice gives the same notes.
+export function toNoteEntries(
+  value: unknown,
+  jobId: string,
+  createdAt: string
+): JobNote[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item, index) => {
+    if (isJobNote(item)) return [item];
+    if (typeof item !== 'string' || !item.trim()) return [];
+    return [
+      {
+        id: `${jobId}-note-${index}`,
+        body: item,
+        source: 'manual' as const,
+        createdAt,
+        updatedAt: createdAt
+      }
+    ];
+  });
+}
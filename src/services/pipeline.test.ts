@@ -0,0 +1,143 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Job, PipelineStage } from '../types';
+import { applyAiActions } from './aiActions';
+import {
+  addJob,
+  deleteStage,
+  savePipeline,
+  setRepository,
+  setStatus,
+  subscribeJobs,
+  subscribePipeline,
+  upsertCustomField
+} from './jobs';
+import { createStage, DEFAULT_PIPELINE, normalizeStatus } from './pipeline';
+import { createIndexedDbRepository } from './storage';
+import { firstValue } from './testUtils';
+
+describe('pipeline', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('normalizes ids, labels and legacy spellings', () => {
+    const stages = [
+      ...DEFAULT_PIPELINE,
+      createStage('Online assessment', DEFAULT_PIPELINE)
+    ];
+    expect(normalizeStatus(' Offer ', stages)).toBe('offer');
+    expect(normalizeStatus('interviewing', stages)).toBe('interviewed');
+    expect(normalizeStatus('online assessment', stages)).toBe(
+      'online-assessment'
+    );
+    expect(normalizeStatus('ghosted', stages)).toBeUndefined();
+    expect(normalizeStatus('hired', stages.slice(0, 2))).toBeUndefined();
+  });
+
+  it('keeps statuses existing applications already use', async () => {
+    const repository = createIndexedDbRepository();
+    await repository.putJobs([
+      {
+        id: 'job-1',
+        company: 'Acme',
+        role: 'Engineer',
+        status: 'phone_screen',
+        tags: [],
+        notes: [],
+        custom: {},
+        timeline: []
+      }
+    ]);
+    repository.close();
+
+    const stages = await firstValue<PipelineStage[]>(subscribePipeline);
+    expect(stages.map((stage) => stage.id)).toEqual([
+      ...DEFAULT_PIPELINE.map((stage) => stage.id),
+      'phone_screen'
+    ]);
+    expect(stages[stages.length - 1].label).toBe('Phone screen');
+  });
+
+  it('gives stages saved without a dark color their default one', async () => {
+    const repository = createIndexedDbRepository();
+    await repository.savePipeline([
+      ...DEFAULT_PIPELINE.map((stage) => ({
+        ...stage,
+        color: stage.id === 'offer' ? '#123456' : stage.color,
+        darkColor: undefined
+      })),
+      createStage('Online assessment', DEFAULT_PIPELINE)
+    ]);
+    repository.close();
+
+    const stages = await firstValue<PipelineStage[]>(subscribePipeline);
+    expect(stages.map((stage) => stage.darkColor)).toEqual([
+      '#f0c06a',
+      '#c3a4ff',
+      undefined,
+      '#f1d879',
+      '#ea8a8a',
+      '#c2afa3',
+      undefined
+    ]);
+  });
+
+  it('moves applications out of a removed stage', async () => {
+    const pipeline = await firstValue<PipelineStage[]>(subscribePipeline);
+    const withdrawn = createStage('Withdrawn', pipeline);
+    await savePipeline([...pipeline, { ...withdrawn, terminal: true }]);
+    await addJob({ company: 'Acme', role: 'Engineer', status: withdrawn.id });
+
+    const saved = await firstValue<PipelineStage[]>(subscribePipeline);
+    await expect(savePipeline(saved.slice(0, -1))).rejects.toThrow(
+      'Withdrawn'
+    );
+    await deleteStage(withdrawn.id, 'archived');
+
+    const [job] = await firstValue<Job[]>(subscribeJobs);
+    expect(job.status).toBe('archived');
+    const stages = await firstValue<PipelineStage[]>(subscribePipeline);
+    expect(stages.map((stage) => stage.id)).not.toContain(withdrawn.id);
+  });
+
+  it('enforces allowed transitions and required fields', async () => {
+    const fieldId = await upsertCustomField('Offer amount', 'number');
+    const pipeline = await firstValue<PipelineStage[]>(subscribePipeline);
+    await savePipeline(
+      pipeline.map((stage) => {
+        if (stage.id === 'rejected') return { ...stage, next: ['archived'] };
+        if (stage.id === 'offer') {
+          return { ...stage, requiredFields: [fieldId] };
+        }
+        return stage;
+      })
+    );
+    const id = await addJob({
+      company: 'Acme',
+      role: 'Engineer',
+      status: 'rejected'
+    });
+
+    const [result] = await applyAiActions(
+      [{ type: 'set_status', id, status: 'accepted' }],
+      []
+    );
+    expect(result).toMatchObject({
+      ok: false,
+      message: 'Acme cannot move from Rejected to Accepted.'
+    });
+
+    await setStatus(id, 'archived');
+    await setStatus(id, 'interviewed');
+    await expect(setStatus(id, 'offer')).rejects.toThrow(
+      'Fill in Offer amount before moving Acme to Offer.'
+    );
+    await setStatus(id, 'offer', { [fieldId]: 120000 });
+    const [job] = await firstValue<Job[]>(subscribeJobs);
+    expect(job.status).toBe('offer');
+    expect(job.custom[fieldId]).toBe(120000);
+  });
+});
@@ -0,0 +1,201 @@
+import type { CustomField, Job, JobStatus, PipelineStage } from '../types';
+import { LEGACY_STATUSES } from './migrations';
+import { isEmptyValue, makeFieldId } from './schema';
+
+export const STAGE_COLOR = '#8c8c99';
+
+// The stages every workspace started with before pipelines were editable.
+export const DEFAULT_PIPELINE: PipelineStage[] = [
+  stage('applied', 'Applied', '#e0b05c', 0, false, '#f0c06a'),
+  stage('interviewed', 'Interviewing', '#9b80e4', 1, false, '#c3a4ff'),
+  stage('offer', 'Offer', '#f08a5b', 2, false, '#ff9a6b'),
+  stage('accepted', 'Accepted', '#d6bc68', 3, true, '#f1d879'),
+  stage('rejected', 'Rejected', '#d56b6b', 4, true, '#ea8a8a'),
+  stage('archived', 'Archived', '#9b887c', 5, true, '#c2afa3')
+];
+
+export function sortStages(stages: PipelineStage[]) {
+  return [...stages].sort((a, b) => a.order - b.order);
+}
+
+export function findStage(stages: PipelineStage[], id: JobStatus) {
+  return stages.find((item) => item.id === id);
+}
+
+export function stageLabel(stages: PipelineStage[], id: JobStatus) {
+  return findStage(stages, id)?.label ?? id;
+}
+
+// The stage archiving moves applications to: the last final stage, which is
+// Archived unless the pipeline has been changed.
+export function archiveStage(stages: PipelineStage[]) {
+  return sortStages(stages)
+    .reverse()
+    .find((item) => item.terminal);
+}
+
+// Whether `from` lets applications move to `to`. Applications in a stage the
+// pipeline no longer has may move anywhere.
+export function canMoveTo(
+  stages: PipelineStage[],
+  from: JobStatus,
+  to: JobStatus
+) {
+  if (from === to) return true;
+  const next = findStage(stages, from)?.next;
+  return !next || next.includes(to);
+}
+
+// The fields `job` still needs before it can enter `status`, given the
+// custom values it will have by then. Fields since deleted are skipped, as
+// are computed ones.
+export function missingFields(
+  stages: PipelineStage[],
+  fields: CustomField[],
+  job: Pick<Job, 'custom'>,
+  status: JobStatus
+) {
+  const required = findStage(stages, status)?.requiredFields ?? [];
+  return fields.filter(
+    (field) =>
+      field.type !== 'computed' &&
+      required.includes(field.id) &&
+      isEmptyValue(job.custom[field.id])
+  );
+}
+
+// Why `job` cannot move to `status`, or null when it can.
+export function transitionError(
+  stages: PipelineStage[],
+  fields: CustomField[],
+  job: Job,
+  status: JobStatus
+) {
+  if (job.status === status) return null;
+  const target = findStage(stages, status);
+  if (!target) return `${status} is not a stage in this pipeline.`;
+  if (!canMoveTo(stages, job.status, status)) {
+    return `${job.company} cannot move from ${stageLabel(
+      stages,
+      job.status
+    )} to ${target.label}.`;
+  }
+  const missing = missingFields(stages, fields, job, status);
+  if (missing.length > 0) {
+    return `Fill in ${missing
+      .map((field) => field.name)
+      .join(', ')} before moving ${job.company} to ${target.label}.`;
+  }
+  return null;
+}
+
+// Maps free text from an import file or the AI to a stage id. Ids, labels and
+// the spellings older versions stored are all accepted.
+export function normalizeStatus(
+  value: unknown,
+  stages: PipelineStage[]
+): JobStatus | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim().toLowerCase();
+  if (!text) return undefined;
+  const match = stages.find(
+    (item) => item.id === text || item.label.toLowerCase() === text
+  );
+  if (match) return match.id;
+  const legacy = LEGACY_STATUSES[text];
+  return legacy && findStage(stages, legacy) ? legacy : undefined;
+}
+
+// The pipeline for a workspace that has never saved one: the default stages
+// plus any status its applications already use, so none of them is lost.
+export function derivePipeline(jobs: Job[]): PipelineStage[] {
+  const stages = [...DEFAULT_PIPELINE];
+  jobs.forEach((job) => {
+    if (!job.status || findStage(stages, job.status)) return;
+    stages.push(
+      stage(job.status, titleCase(job.status), STAGE_COLOR, stages.length, false)
+    );
+  });
+  return stages;
+}
+
+// Pipelines saved before stages had a dark theme color: default stages still
+// in their default color get back the one they had in the dark theme.
+export function restoreDarkColors(stages: PipelineStage[]) {
+  return stages.map((item) => {
+    const preset = findStage(DEFAULT_PIPELINE, item.id);
+    return preset && !item.darkColor && item.color === preset.color
+      ? { ...item, darkColor: preset.darkColor }
+      : item;
+  });
+}
+
+export function createStage(
+  label: string,
+  stages: PipelineStage[]
+): PipelineStage {
+  const name = label.trim();
+  if (!name) throw new Error('Give the stage a name.');
+  const base = makeFieldId(name);
+  let id = base;
+  for (let n = 2; findStage(stages, id); n += 1) id = `${base}-${n}`;
+  return stage(id, name, STAGE_COLOR, stages.length, false);
+}
+
+// Checks a pipeline before it is saved, numbers its stages in order and
+// drops transitions to stages that are gone.
+export function normalizePipeline(stages: PipelineStage[]): PipelineStage[] {
+  if (stages.length === 0) throw new Error('Keep at least one stage.');
+  const ids = new Set<string>();
+  const normalized = sortStages(stages).map((item, index) => {
+    const label = item.label.trim();
+    if (!label) throw new Error('Every stage needs a name.');
+    if (ids.has(item.id)) throw new Error(`Stage ${label} is listed twice.`);
+    ids.add(item.id);
+    return { ...item, label, order: index };
+  });
+  return normalized.map((item) => {
+    if (!item.next) return item;
+    const next = item.next.filter((id) => id !== item.id && ids.has(id));
+    return { ...item, next };
+  });
+}
+
+export function isPipelineStage(value: unknown): value is PipelineStage {
+  if (!value || typeof value !== 'object') return false;
+  const item = value as Record<string, unknown>;
+  return (
+    typeof item.id === 'string' &&
+    typeof item.label === 'string' &&
+    typeof item.color === 'string' &&
+    (item.darkColor === undefined || typeof item.darkColor === 'string') &&
+    typeof item.order === 'number' &&
+    typeof item.terminal === 'boolean' &&
+    (item.next === undefined || isStringList(item.next)) &&
+    (item.requiredFields === undefined || isStringList(item.requiredFields))
+  );
+}
+
+function stage(
+  id: JobStatus,
+  label: string,
+  color: string,
+  order: number,
+  terminal: boolean,
+  darkColor?: string
+): PipelineStage {
+  return darkColor
+    ? { id, label, color, darkColor, order, terminal }
+    : { id, label, color, order, terminal };
+}
+
+function isStringList(value: unknown) {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+  );
+}
+
+function titleCase(id: string) {
+  const words = id.replace(/[-_]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,181 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { CustomField, Job } from '../types';
+import { applyAiActions } from './aiActions';
+import {
+  addJob,
+  deleteCustomField,
+  getOrphanedFields,
+  purgeOrphanedFields,
+  reorderCustomFields,
+  setRepository,
+  subscribeJobs,
+  subscribeSchema,
+  undo,
+  updateCustomField,
+  upsertCustomField
+} from './jobs';
+import { formatCustomValue, normalizeCustomValues } from './schema';
+import { createIndexedDbRepository } from './storage';
+import { firstValue } from './testUtils';
+
+function field(
+  name: string,
+  type: CustomField['type'],
+  settings: Partial<CustomField> = {}
+): CustomField {
+  return { id: name.toLowerCase(), name, type, ...settings };
+}
+
+const schema = [
+  field('Salary', 'currency', { currency: 'EUR' }),
+  field('Remote', 'boolean'),
+  field('Mode', 'select', { options: ['Remote', 'Hybrid', 'Onsite'] }),
+  field('Stack', 'multi_select', { options: ['Go', 'React', 'SQL'] }),
+  field('Headcount', 'number'),
+  field('Deadline', 'date')
+];
+
+describe('custom values', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('reads values into the shape each field type stores', () => {
+    const values = normalizeCustomValues(
+      {
+        salary: '90,000 - 110,000',
+        remote: 'yes',
+        mode: 'hybrid',
+        Stack: 'react; go, React',
+        headcount: '1,200',
+        deadline: ''
+      },
+      schema
+    );
+    expect(values).toEqual({
+      salary: { currency: 'EUR', min: 90000, max: 110000 },
+      remote: true,
+      mode: 'Hybrid',
+      stack: ['React', 'Go'],
+      headcount: 1200,
+      deadline: null
+    });
+    expect(formatCustomValue(values.salary)).toBe('EUR 90,000–110,000');
+    expect(normalizeCustomValues({ salary: 'USD 95000' }, schema)).toEqual({
+      salary: { currency: 'USD', min: 95000 }
+    });
+  });
+
+  it('rejects values that do not fit the field', () => {
+    expect(() => normalizeCustomValues({ mode: 'Mars' }, schema)).toThrow(
+      'Mode must be one of Remote, Hybrid, Onsite.'
+    );
+    expect(() => normalizeCustomValues({ remote: 'maybe' }, schema)).toThrow(
+      'Remote must be yes or no.'
+    );
+    expect(() => normalizeCustomValues({ salary: 'lots' }, schema)).toThrow(
+      'Salary must be an amount'
+    );
+    expect(() => normalizeCustomValues({ deadline: 'soon' }, schema)).toThrow(
+      'Deadline must be a date'
+    );
+  });
+
+  it('lets the AI add select fields and fill them in', async () => {
+    await applyAiActions(
+      [
+        {
+          type: 'add_custom_field',
+          name: 'Work mode',
+          fieldType: 'select',
+          options: ['Remote', 'Onsite', 'remote']
+        }
+      ],
+      []
+    );
+    const [added] = await firstValue<CustomField[]>(subscribeSchema);
+    expect(added.options).toEqual(['Remote', 'Onsite']);
+
+    const results = await applyAiActions(
+      [
+        {
+          type: 'add_job',
+          company: 'Acme',
+          role: 'Engineer',
+          custom: { 'Work mode': 'onsite' }
+        },
+        {
+          type: 'add_job',
+          company: 'Globex',
+          role: 'Analyst',
+          custom: { 'Work mode': 'Moon' }
+        }
+      ],
+      [added]
+    );
+    expect(results.map((result) => result.ok)).toEqual([true, false]);
+    const [job] = await firstValue<Job[]>(subscribeJobs);
+    expect(job.custom).toEqual({ [added.id]: 'Onsite' });
+  });
+});
+
+describe('custom field lifecycle', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('keeps values through renames and reorders', async () => {
+    const salary = await upsertCustomField('Salary', 'number');
+    const source = await upsertCustomField('Source', 'text');
+    await addJob({
+      company: 'Acme',
+      role: 'Engineer',
+      custom: { Salary: 100, Source: 'Referral' }
+    });
+
+    await updateCustomField(salary, { name: 'Base salary' });
+    await expect(
+      updateCustomField(source, { name: 'base SALARY' })
+    ).rejects.toThrow('There is already a field called Base salary.');
+    await reorderCustomFields([source, salary]);
+    const fields = await firstValue<CustomField[]>(subscribeSchema);
+    expect(fields.map((field) => [field.id, field.name])).toEqual([
+      [source, 'Source'],
+      [salary, 'Base salary']
+    ]);
+    const [job] = await firstValue<Job[]>(subscribeJobs);
+    expect(job.custom).toEqual({ [salary]: 100, [source]: 'Referral' });
+  });
+
+  it('deletes fields with or without their values', async () => {
+    const salary = await upsertCustomField('Salary', 'number');
+    const source = await upsertCustomField('Source', 'text');
+    await addJob({
+      company: 'Acme',
+      role: 'Engineer',
+      custom: { Salary: 100, Source: 'Referral' }
+    });
+
+    await deleteCustomField(salary, { purgeValues: true });
+    let [job] = await firstValue<Job[]>(subscribeJobs);
+    expect(job.custom).toEqual({ [source]: 'Referral' });
+    await undo();
+    [job] = await firstValue<Job[]>(subscribeJobs);
+    expect(job.custom[salary]).toBe(100);
+    expect(await firstValue<CustomField[]>(subscribeSchema)).toHaveLength(2);
+
+    await deleteCustomField(source);
+    expect(await getOrphanedFields()).toEqual([{ id: source, count: 1 }]);
+    const recreated = await upsertCustomField('Source', 'text');
+    expect(recreated).not.toBe(source);
+    expect(await purgeOrphanedFields([source, salary])).toBe(1);
+    [job] = await firstValue<Job[]>(subscribeJobs);
+    expect(job.custom).toEqual({ [salary]: 100 });
+    expect(await getOrphanedFields()).toEqual([]);
+  });
+});
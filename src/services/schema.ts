@@ -1,12 +1,43 @@
-import type { CustomField, CustomFieldType } from '../types';
+import type {
+  CustomField,
+  CustomFieldType,
+  CustomValue,
+  Job,
+  MoneyValue
+} from '../types';
+
+export type FieldSettings = Pick<
+  CustomField,
+  'options' | 'currency' | 'formula'
+>;
+
+export type OrphanedField = {
+  id: string;
+  count: number;
+};
 
 export const FIELD_TYPES: { label: string; value: CustomFieldType }[] = [
   { label: 'Text', value: 'text' },
+  { label: 'Long text', value: 'long_text' },
   { label: 'Number', value: 'number' },
+  { label: 'Currency', value: 'currency' },
   { label: 'Date', value: 'date' },
-  { label: 'URL', value: 'url' }
+  { label: 'URL', value: 'url' },
+  { label: 'Yes/No', value: 'boolean' },
+  { label: 'Select', value: 'select' },
+  { label: 'Multi-select', value: 'multi_select' },
+  { label: 'Computed', value: 'computed' }
 ];
 
+export const DEFAULT_CURRENCY = 'USD';
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONEY_PATTERN =
+  /^([a-z]{3})?\s*([\d.,]+)\s*(?:(?:-|–|to)\s*([\d.,]+))?\s*([a-z]{3})?$/i;
+const TRUE_WORDS = ['true', 'yes', 'y', '1'];
+const FALSE_WORDS = ['false', 'no', 'n', '0'];
+
 export function makeFieldId(name: string): string {
   const base = name
     .trim()
@@ -17,17 +48,264 @@ export function makeFieldId(name: string): string {
   return base || `field-${Math.random().toString(36).slice(2, 8)}`;
 }
 
+// Ids for new fields are random rather than derived from the name, so a
+// field keeps its values when renamed and a new field never picks up values
+// left behind by a deleted one.
+export function createFieldId(taken: Iterable<string>): string {
+  const used = new Set(taken);
+  let id: string;
+  do {
+    id = `field-${Math.random().toString(36).slice(2, 8)}`;
+  } while (used.has(id));
+  return id;
+}
+
+export function findField(fields: CustomField[], name: string) {
+  const wanted = name.trim().toLowerCase();
+  return fields.find((field) => field.name.trim().toLowerCase() === wanted);
+}
+
+// Keys in `custom` that no field in `fields` uses any more, with how many
+// applications still hold a value for each.
+export function findOrphanedFields(
+  jobs: Pick<Job, 'custom'>[],
+  fields: CustomField[]
+): OrphanedField[] {
+  const known = new Set(fields.map((field) => field.id));
+  const counts = new Map<string, number>();
+  jobs.forEach((job) => {
+    Object.entries(job.custom).forEach(([key, value]) => {
+      if (known.has(key) || isEmptyValue(value)) return;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+  });
+  return [...counts]
+    .map(([id, count]) => ({ id, count }))
+    .sort((a, b) => b.count - a.count || a.id.localeCompare(b.id));
+}
+
+export function isFieldType(value: unknown): value is CustomFieldType {
+  return FIELD_TYPES.some((type) => type.value === value);
+}
+
+export function isCustomField(value: unknown): value is CustomField {
+  if (!value || typeof value !== 'object') return false;
+  const field = value as Record<string, unknown>;
+  return (
+    typeof field.id === 'string' &&
+    field.id.trim().length > 0 &&
+    typeof field.name === 'string' &&
+    field.name.trim().length > 0 &&
+    isFieldType(field.type) &&
+    (field.options === undefined ||
+      (Array.isArray(field.options) &&
+        field.options.every((option) => typeof option === 'string'))) &&
+    (field.currency === undefined || typeof field.currency === 'string') &&
+    (field.formula === undefined || typeof field.formula === 'string')
+  );
+}
+
+export function hasOptions(type: CustomFieldType) {
+  return type === 'select' || type === 'multi_select';
+}
+
+// Trims and dedupes option lists and upper-cases the currency, dropping
+// settings that do not apply to the field's type.
+export function normalizeFieldSettings(
+  type: CustomFieldType,
+  settings: FieldSettings
+): FieldSettings {
+  if (hasOptions(type)) {
+    const options: string[] = [];
+    (settings.options ?? []).forEach((option) => {
+      const name = option.trim();
+      if (name && !findOption(options, name)) options.push(name);
+    });
+    return { options };
+  }
+  if (type === 'currency') {
+    const currency = settings.currency?.trim().toUpperCase() ?? '';
+    return {
+      currency: CURRENCY_PATTERN.test(currency) ? currency : DEFAULT_CURRENCY
+    };
+  }
+  if (type === 'computed') return { formula: settings.formula?.trim() ?? '' };
+  return {};
+}
+
+export function isCustomValue(value: unknown): value is CustomValue {
+  if (value === null) return true;
+  if (['string', 'number', 'boolean'].includes(typeof value)) return true;
+  if (Array.isArray(value)) {
+    return value.every((item) => typeof item === 'string');
+  }
+  return isMoneyValue(value);
+}
+
+export function isEmptyValue(value: CustomValue | undefined) {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && !value.trim()) ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+export function sameValue(
+  a: CustomValue | undefined,
+  b: CustomValue | undefined
+) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export function formatCustomValue(value: CustomValue | undefined): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') {
+    const amount = (number: number) => number.toLocaleString('en-US');
+    return value.max === undefined
+      ? `${value.currency} ${amount(value.min)}`
+      : `${value.currency} ${amount(value.min)}–${amount(value.max)}`;
+  }
+  return String(value);
+}
+
+// Reads a value typed by a person, an import or the AI into the shape
+// `field` stores, throwing a readable error when it does not fit.
+export function parseCustomValue(
+  field: CustomField,
+  value: unknown
+): CustomValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' && !value.trim()) return null;
+  const fail = (expected: string): never => {
+    throw new Error(`${field.name} must be ${expected}.`);
+  };
+  const text = typeof value === 'string' ? value.trim() : null;
+  switch (field.type) {
+    case 'computed':
+      throw new Error(`${field.name} is computed from its formula.`);
+    case 'number': {
+      const number = text !== null ? Number(text.replace(/,/g, '')) : value;
+      return typeof number === 'number' && Number.isFinite(number)
+        ? number
+        : fail('a number');
+    }
+    case 'currency':
+      return parseMoney(field, value) ?? fail('an amount like USD 120000');
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const word = String(value).trim().toLowerCase();
+      if (TRUE_WORDS.includes(word)) return true;
+      if (FALSE_WORDS.includes(word)) return false;
+      return fail('yes or no');
+    }
+    case 'select': {
+      const option =
+        text !== null ? findOption(field.options ?? [], text) : undefined;
+      return option ?? fail(`one of ${listOptions(field)}`);
+    }
+    case 'multi_select': {
+      const items = Array.isArray(value)
+        ? value.map(String)
+        : text !== null
+          ? text.split(/[;,]/)
+          : fail(`a list of ${listOptions(field)}`);
+      const chosen: string[] = [];
+      items
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .forEach((item) => {
+          const option =
+            findOption(field.options ?? [], item) ??
+            fail(`chosen from ${listOptions(field)}`);
+          if (!chosen.includes(option)) chosen.push(option);
+        });
+      return chosen.length > 0 ? chosen : null;
+    }
+    case 'date':
+      return text !== null && DATE_PATTERN.test(text)
+        ? text
+        : fail('a date like 2024-03-01');
+    default:
+      if (text !== null) return text;
+      return typeof value === 'number' ? String(value) : fail('text');
+  }
+}
+
 export function normalizeCustomValues(
-  custom: Record<string, string | number | null>,
+  custom: Record<string, unknown>,
   schema: CustomField[]
-): Record<string, string | number | null> {
+): Record<string, CustomValue> {
   const byName = new Map(
     schema.map((field) => [field.name.toLowerCase(), field.id])
   );
-  const normalized: Record<string, string | number | null> = {};
+  const normalized: Record<string, CustomValue> = {};
   for (const [key, value] of Object.entries(custom)) {
     const id = byName.get(key.toLowerCase()) ?? key;
-    normalized[id] = value;
+    const field = schema.find((item) => item.id === id);
+    // Computed values are never stored, e.g. when re-importing an export.
+    if (field?.type === 'computed') continue;
+    if (field) {
+      normalized[id] = parseCustomValue(field, value);
+    } else if (isCustomValue(value)) {
+      normalized[id] = value;
+    }
   }
   return normalized;
 }
+
+function findOption(options: string[], value: string) {
+  const wanted = value.trim().toLowerCase();
+  return options.find((option) => option.toLowerCase() === wanted);
+}
+
+function listOptions(field: CustomField) {
+  return field.options?.length ? field.options.join(', ') : 'its options';
+}
+
+function parseMoney(field: CustomField, value: unknown): MoneyValue | null {
+  const currency = field.currency ?? DEFAULT_CURRENCY;
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? { currency, min: value } : null;
+  }
+  if (isMoneyValue(value)) {
+    const code = value.currency.trim().toUpperCase();
+    if (!CURRENCY_PATTERN.test(code)) return null;
+    return toRange(code, value.min, value.max);
+  }
+  if (typeof value !== 'string') return null;
+  const match = MONEY_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const code = (match[1] ?? match[4] ?? currency).toUpperCase();
+  const amount = (raw: string) => Number(raw.replace(/,/g, ''));
+  return toRange(
+    code,
+    amount(match[2]),
+    match[3] === undefined ? undefined : amount(match[3])
+  );
+}
+
+function toRange(
+  currency: string,
+  min: number,
+  max?: number
+): MoneyValue | null {
+  if (!Number.isFinite(min)) return null;
+  if (max === undefined || max === min) return { currency, min };
+  if (!Number.isFinite(max)) return null;
+  return max > min
+    ? { currency, min, max }
+    : { currency, min: max, max: min };
+}
+
+function isMoneyValue(value: unknown): value is MoneyValue {
+  if (!value || typeof value !== 'object') return false;
+  const money = value as Record<string, unknown>;
+  return (
+    typeof money.currency === 'string' &&
+    typeof money.min === 'number' &&
+    (money.max === undefined || typeof money.max === 'number')
+  );
+}
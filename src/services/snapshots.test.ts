@@ -0,0 +1,104 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { CustomField, Job } from '../types';
+import {
+  addJob,
+  restoreSnapshot,
+  setRepository,
+  setStatus,
+  subscribeJobs,
+  subscribeSchema,
+  subscribeSnapshots,
+  subscribeTrash,
+  takeDailySnapshot,
+  takeSnapshot,
+  undo,
+  upsertCustomField
+} from './jobs';
+import { diffSnapshot, expiredSnapshots, type Snapshot } from './snapshots';
+import { createIndexedDbRepository } from './storage';
+import { firstValue } from './testUtils';
+
+async function currentState() {
+  const [jobs, trash, fields] = await Promise.all([
+    firstValue<Job[]>(subscribeJobs),
+    firstValue<Job[]>(subscribeTrash),
+    firstValue<CustomField[]>(subscribeSchema)
+  ]);
+  return { jobs: [...jobs, ...trash], fields };
+}
+
+describe('snapshots', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('summarizes and restores a snapshot, and the restore can be undone', async () => {
+    const acme = await addJob({ company: 'Acme', role: 'Engineer' });
+    await addJob({ company: 'Globex', role: 'Analyst' });
+    const id = await takeSnapshot('import');
+    await setStatus(acme, 'offer');
+    await addJob({ company: 'Initech', role: 'Developer' });
+    await upsertCustomField('Source', 'text');
+
+    const snapshots = await firstValue<Snapshot[]>(subscribeSnapshots);
+    const snapshot = snapshots.find((item) => item.id === id)!;
+    const state = await currentState();
+    expect(diffSnapshot(snapshot, state.jobs, state.fields)).toEqual({
+      applications: 2,
+      added: 0,
+      removed: 1,
+      changed: 1,
+      fieldsChanged: true
+    });
+
+    expect(await restoreSnapshot(id)).toBe(2);
+    let restored = await currentState();
+    expect(restored.jobs.map((job) => [job.company, job.status])).toEqual([
+      ['Globex', 'applied'],
+      ['Acme', 'applied']
+    ]);
+    expect(restored.fields).toEqual([]);
+    const reasons = (await firstValue<Snapshot[]>(subscribeSnapshots)).map(
+      (item) => item.reason
+    );
+    expect(reasons).toContain('restore');
+
+    expect(await undo()).toMatch(/^Restored snapshot from/);
+    restored = await currentState();
+    expect(restored.jobs.map((job) => job.company)).toContain('Initech');
+    expect(restored.fields.map((field) => field.name)).toEqual(['Source']);
+  });
+
+  it('takes at most one daily snapshot per day', async () => {
+    await addJob({ company: 'Acme', role: 'Engineer' });
+    const now = Date.now();
+    const hour = 60 * 60 * 1000;
+
+    await takeDailySnapshot(new Date(now));
+    expect(await takeDailySnapshot(new Date(now + 23 * hour))).toBeNull();
+    expect(await takeDailySnapshot(new Date(now + 25 * hour))).not.toBeNull();
+  });
+
+  it('keeps a bounded number of snapshots per reason', () => {
+    const snapshots: Snapshot[] = Array.from({ length: 9 }, (_, index) => ({
+      id: `daily-${index}`,
+      reason: 'daily',
+      createdAt: new Date(Date.UTC(2024, 0, index + 1)).toISOString(),
+      jobs: [],
+      schema: []
+    }));
+    const imported: Snapshot = {
+      ...snapshots[0],
+      id: 'import',
+      reason: 'import'
+    };
+
+    expect(expiredSnapshots([...snapshots, imported])).toEqual([
+      'daily-1',
+      'daily-0'
+    ]);
+  });
+});
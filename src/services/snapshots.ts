@@ -0,0 +1,81 @@
+import type { CustomField, Job } from '../types';
+
+export type SnapshotReason = 'daily' | 'import' | 'ai' | 'restore';
+
+export type Snapshot = {
+  id: string;
+  reason: SnapshotReason;
+  createdAt: string;
+  jobs: Job[];
+  schema: CustomField[];
+  // Job data version the snapshot was written with.
+  version?: number;
+};
+
+export type SnapshotDiff = {
+  applications: number;
+  added: number;
+  removed: number;
+  changed: number;
+  fieldsChanged: boolean;
+};
+
+export const SNAPSHOT_LABELS: Record<SnapshotReason, string> = {
+  daily: 'Daily snapshot',
+  import: 'Before import',
+  ai: 'Before AI changes',
+  restore: 'Before restore'
+};
+
+// How many snapshots of each kind are kept; older ones are dropped whenever a
+// new snapshot is taken.
+export const SNAPSHOT_RETENTION: Record<SnapshotReason, number> = {
+  daily: 7,
+  import: 10,
+  ai: 10,
+  restore: 5
+};
+
+export function expiredSnapshots(snapshots: Snapshot[]): string[] {
+  const kept = new Map<SnapshotReason, number>();
+  return [...snapshots]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .filter((snapshot) => {
+      const count = (kept.get(snapshot.reason) ?? 0) + 1;
+      kept.set(snapshot.reason, count);
+      return count > SNAPSHOT_RETENTION[snapshot.reason];
+    })
+    .map((snapshot) => snapshot.id);
+}
+
+// Describes what restoring `snapshot` would do to the current data: jobs it
+// brings back, jobs added since that it removes, and jobs it reverts.
+export function diffSnapshot(
+  snapshot: Snapshot,
+  jobs: Job[],
+  fields: CustomField[]
+): SnapshotDiff {
+  const current = new Map(jobs.map((job) => [job.id, job]));
+  const saved = new Set(snapshot.jobs.map((job) => job.id));
+  let added = 0;
+  let changed = 0;
+  snapshot.jobs.forEach((job) => {
+    const existing = current.get(job.id);
+    if (!existing) added += 1;
+    else if (!sameJob(existing, job)) changed += 1;
+  });
+  return {
+    applications: snapshot.jobs.filter((job) => !job.deletedAt).length,
+    added,
+    removed: jobs.filter((job) => !saved.has(job.id)).length,
+    changed,
+    fieldsChanged: JSON.stringify(snapshot.schema) !== JSON.stringify(fields)
+  };
+}
+
+export function sameJob(a: Job, b: Job) {
+  return (
+    JSON.stringify({ ...a, revision: undefined }) ===
+    JSON.stringify({ ...b, revision: undefined })
+  );
+}
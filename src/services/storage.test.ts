@@ -0,0 +1,144 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Job } from '../types';
+import { addJob, setRepository, setStatus, subscribeJobs } from './jobs';
+import {
+  createIndexedDbRepository,
+  LEGACY_AI_SETTINGS_KEY,
+  LEGACY_JOBS_KEY,
+  LEGACY_SCHEMA_KEY
+} from './storage';
+
+// Stored before notes became entries.
+const legacyJob = {
+  id: 'legacy-1',
+  company: 'Acme',
+  role: 'Engineer',
+  status: 'applied',
+  tags: [],
+  notes: ['from localStorage'],
+  custom: {},
+  createdAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('createIndexedDbRepository', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  it('migrates legacy localStorage data once', async () => {
+    localStorage.setItem(LEGACY_JOBS_KEY, JSON.stringify([legacyJob]));
+    localStorage.setItem(
+      LEGACY_SCHEMA_KEY,
+      JSON.stringify({
+        customFields: [{ id: 'source', name: 'Source', type: 'text' }]
+      })
+    );
+
+    const repository = createIndexedDbRepository();
+    expect(await repository.loadJobs()).toEqual([
+      {
+        ...legacyJob,
+        notes: [
+          {
+            id: 'legacy-1-note-0',
+            body: 'from localStorage',
+            source: 'manual',
+            createdAt: legacyJob.createdAt,
+            updatedAt: legacyJob.createdAt
+          }
+        ],
+        timeline: [],
+        updatedAt: legacyJob.createdAt
+      }
+    ]);
+    expect(await repository.loadSchema()).toEqual([
+      { id: 'source', name: 'Source', type: 'text' }
+    ]);
+    expect(localStorage.getItem(LEGACY_JOBS_KEY)).toBeNull();
+    expect(localStorage.getItem(LEGACY_SCHEMA_KEY)).toBeNull();
+
+    await repository.deleteJobs([legacyJob.id]);
+    repository.close();
+
+    localStorage.setItem(LEGACY_JOBS_KEY, JSON.stringify([legacyJob]));
+    const reopened = createIndexedDbRepository();
+    expect(await reopened.loadJobs()).toEqual([]);
+    reopened.close();
+  });
+
+  it('moves plaintext AI settings out of localStorage', async () => {
+    const settings = {
+      apiKey: 'sk-legacy',
+      baseUrl: 'https://api.openai.com',
+      model: 'gpt-4o-mini'
+    };
+    localStorage.setItem(LEGACY_AI_SETTINGS_KEY, JSON.stringify(settings));
+
+    const repository = createIndexedDbRepository();
+    expect(await repository.loadAiSettings()).toEqual(settings);
+    expect(localStorage.getItem(LEGACY_AI_SETTINGS_KEY)).toBeNull();
+    expect(await repository.loadAiSettings()).toEqual(settings);
+    repository.close();
+  });
+
+  it('quarantines a damaged legacy payload and salvages readable records', async () => {
+    const second = { ...legacyJob, id: 'legacy-2', company: 'Globex' };
+    const raw = JSON.stringify([legacyJob, second]).slice(0, -40);
+    localStorage.setItem(LEGACY_JOBS_KEY, raw);
+
+    const repository = createIndexedDbRepository();
+    const jobs = await repository.loadJobs();
+    expect(jobs.map((job) => job.id)).toEqual(['legacy-1']);
+
+    const [entry] = await repository.loadRecovery();
+    expect(entry.source).toBe('jobs');
+    expect(entry.raw).toBe(raw);
+    expect(entry.salvaged).toBe(1);
+    expect(entry.problems[0]).toMatch(/could not be parsed/);
+    expect(localStorage.getItem(LEGACY_JOBS_KEY)).toBeNull();
+
+    await repository.deleteRecovery(entry.id);
+    expect(await repository.loadRecovery()).toEqual([]);
+    repository.close();
+  });
+
+  it('moves malformed records out of the jobs store', async () => {
+    const repository = createIndexedDbRepository();
+    const valid: Job = { ...legacyJob, notes: [], timeline: [] };
+    const broken = { ...valid, id: 'broken', role: undefined };
+    await repository.putJobs([valid, broken as unknown as Job]);
+
+    expect((await repository.loadJobs()).map((job) => job.id)).toEqual([
+      'legacy-1'
+    ]);
+    const [entry] = await repository.loadRecovery();
+    expect(entry.salvaged).toBe(1);
+    expect(entry.problems).toEqual(['Record broken: role is missing']);
+    expect(JSON.parse(entry.raw)[0].data.id).toBe('broken');
+
+    expect((await repository.loadJobs()).map((job) => job.id)).toEqual([
+      'legacy-1'
+    ]);
+    expect(await repository.loadRecovery()).toHaveLength(1);
+    repository.close();
+  });
+
+  it('stores jobs per record and notifies subscribers', async () => {
+    setRepository(createIndexedDbRepository());
+    const snapshots: Job[][] = [];
+    const unsubscribe = subscribeJobs((jobs) => snapshots.push(jobs));
+
+    const id = await addJob({ company: 'Globex', role: 'Analyst' });
+    await setStatus(id, 'offer');
+    unsubscribe();
+
+    expect(snapshots[snapshots.length - 1]?.[0].status).toBe('offer');
+    const repository = createIndexedDbRepository();
+    const stored = await repository.loadJobs();
+    expect(stored).toHaveLength(1);
+    expect(stored[0].id).toBe(id);
+    repository.close();
+  });
+});
@@ -0,0 +1,1014 @@
+import type {
+  Contact,
+  CustomField,
+  Job,
+  PipelineStage,
+  StoredDocument
+} from '../types';
+import type { AiSettings } from './ai';
+import { isSealed, seal, unseal, type Sealed, type VaultLock } from './crypto';
+import { emptyHistory, type HistoryStack, type JobChange } from './history';
+import { mergeJob, type FieldConflict } from './merge';
+import { isPipelineStage } from './pipeline';
+import type { Snapshot } from './snapshots';
+import type { SyncRecord } from './sync';
+import {
+  JOB_DATA_VERSION,
+  migrateJob,
+  migrateSchema,
+  wrapJob,
+  wrapSchema,
+  type Envelope
+} from './migrations';
+import { extractJsonObjects, salvageJobs, validateJob } from './validation';
+
+export type RecoveryEntry = {
+  id: string;
+  source: 'jobs' | 'schema';
+  origin: string;
+  raw: string;
+  salvaged: number;
+  problems: string[];
+  quarantinedAt: string;
+};
+
+export type JobConflict = {
+  id: string;
+  company: string;
+  deleted: boolean;
+  fields: FieldConflict[];
+};
+
+export type CommitResult = {
+  jobs: Array<{ id: string; job: Job | null }>;
+  conflicts: JobConflict[];
+};
+
+export type StorageRepository = {
+  readonly name: string;
+  loadJobs(): Promise<Job[]>;
+  commitJobs(changes: JobChange[]): Promise<CommitResult>;
+  putJobs(jobs: Job[]): Promise<void>;
+  deleteJobs(ids: string[]): Promise<void>;
+  loadSchema(): Promise<CustomField[]>;
+  saveSchema(fields: CustomField[]): Promise<void>;
+  loadPipeline(): Promise<PipelineStage[] | null>;
+  savePipeline(stages: PipelineStage[]): Promise<void>;
+  loadTagColors(): Promise<Record<string, string>>;
+  saveTagColors(colors: Record<string, string>): Promise<void>;
+  loadRecovery(): Promise<RecoveryEntry[]>;
+  saveRecovery(entry: RecoveryEntry): Promise<void>;
+  deleteRecovery(id: string): Promise<void>;
+  loadHistory(): Promise<HistoryStack>;
+  saveHistory(stack: HistoryStack): Promise<void>;
+  loadAiSettings(): Promise<AiSettings | null>;
+  saveAiSettings(settings: AiSettings): Promise<void>;
+  loadSnapshots(): Promise<Snapshot[]>;
+  saveSnapshot(snapshot: Snapshot, expired: string[]): Promise<void>;
+  loadSync(): Promise<SyncRecord | null>;
+  saveSync(record: SyncRecord): Promise<void>;
+  loadContacts(): Promise<Contact[]>;
+  putContacts(contacts: Contact[]): Promise<void>;
+  deleteContacts(ids: string[]): Promise<void>;
+  loadDocuments(): Promise<StoredDocument[]>;
+  loadDocumentData(id: string): Promise<string | null>;
+  putDocument(document: StoredDocument, data: string): Promise<void>;
+  deleteDocument(id: string): Promise<void>;
+  loadLock(): Promise<VaultLock | null>;
+  setKey(key: CryptoKey | null): void;
+  rekey(lock: VaultLock | null, key: CryptoKey | null): Promise<void>;
+  close(): void;
+};
+
+export const DEFAULT_DB_NAME = 'resumeTracker';
+export const LEGACY_JOBS_KEY = 'resumeTracker.jobs';
+export const LEGACY_SCHEMA_KEY = 'resumeTracker.schema';
+export const LEGACY_AI_SETTINGS_KEY = 'resumeTracker.aiSettings';
+
+const DB_VERSION = 5;
+const JOBS_STORE = 'jobs';
+const META_STORE = 'meta';
+const RECOVERY_STORE = 'recovery';
+const SNAPSHOTS_STORE = 'snapshots';
+const CONTACTS_STORE = 'contacts';
+const DOCUMENTS_STORE = 'documents';
+// File contents (base64) live apart from their metadata so listing the
+// library never reads them.
+const DOCUMENT_DATA_STORE = 'documentData';
+// Stores whose records are keyed by their own `id`.
+const ENTRY_STORES = [
+  RECOVERY_STORE,
+  SNAPSHOTS_STORE,
+  CONTACTS_STORE,
+  DOCUMENTS_STORE,
+  DOCUMENT_DATA_STORE
+];
+const SCHEMA_KEY = 'schema';
+const HISTORY_KEY = 'history';
+const AI_SETTINGS_KEY = 'aiSettings';
+const LOCK_KEY = 'lock';
+const SYNC_KEY = 'sync';
+const PIPELINE_KEY = 'pipeline';
+const TAG_COLORS_KEY = 'tagColors';
+const SEALED_META_KEYS = [
+  SCHEMA_KEY,
+  HISTORY_KEY,
+  AI_SETTINGS_KEY,
+  SYNC_KEY,
+  PIPELINE_KEY,
+  TAG_COLORS_KEY
+];
+const LEGACY_MIGRATED_KEY = 'legacyMigrated';
+
+// A record written while the workspace is locked. Jobs keep their revision in
+// the clear so concurrent writers can be detected inside one transaction.
+type SealedRecord = {
+  sealed: Sealed;
+  revision?: number;
+  id?: string;
+};
+
+type PendingChange = {
+  change: JobChange;
+  expected: number;
+};
+
+export function createIndexedDbRepository(
+  name: string = DEFAULT_DB_NAME
+): StorageRepository {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  let key: CryptoKey | null = null;
+  let writes: Promise<unknown> = Promise.resolve();
+
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(name).then(async (db) => {
+        // Only the original database inherits what earlier versions kept in
+        // localStorage; other workspaces start empty.
+        if (name === DEFAULT_DB_NAME) await migrateLegacyStorage(db);
+        return db;
+      });
+    }
+    return dbPromise;
+  };
+
+  // Without a key, only a workspace that has no passphrase may be written
+  // to; anything else would land on disk unencrypted.
+  const ensureWritable = async () => {
+    if (key) return;
+    const db = await getDb();
+    const tx = db.transaction(META_STORE, 'readonly');
+    const lock = await promisify<unknown>(
+      tx.objectStore(META_STORE).get(LOCK_KEY)
+    );
+    if (lock !== undefined) throw new Error('Workspace is locked.');
+  };
+
+  // Encryption is asynchronous and would let IndexedDB auto-commit a pending
+  // transaction, so writes run one at a time with payloads sealed up front.
+  const queueWrite = <T>(task: () => Promise<T>): Promise<T> => {
+    const guarded = async () => {
+      await ensureWritable();
+      return task();
+    };
+    const run = writes.then(guarded, guarded);
+    writes = run.catch(() => undefined);
+    return run;
+  };
+
+  const encode = async (value: unknown): Promise<unknown> =>
+    key ? { sealed: await seal(key, value) } : value;
+
+  const encodeJob = async (envelope: unknown): Promise<unknown> =>
+    key
+      ? { revision: revisionOf(envelope), sealed: await seal(key, envelope) }
+      : envelope;
+
+  const encodeEntry = async <T extends { id: string }>(
+    entry: T
+  ): Promise<unknown> =>
+    key ? { id: entry.id, sealed: await seal(key, entry) } : entry;
+
+  const decode = async (stored: unknown): Promise<unknown> => {
+    if (!isSealedRecord(stored)) return stored;
+    if (!key) throw new Error('Workspace is locked.');
+    return unseal(key, stored.sealed);
+  };
+
+  // The API key used to sit in localStorage in the clear; the first save
+  // moves it into the (possibly sealed) meta store and drops the old copy.
+  const saveAiSettings = (settings: AiSettings) =>
+    queueWrite(async () => {
+      const encoded = await encode(settings);
+      const db = await getDb();
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(encoded, AI_SETTINGS_KEY);
+      await transactionDone(tx);
+      if (typeof localStorage !== 'undefined') {
+        localStorage.removeItem(LEGACY_AI_SETTINGS_KEY);
+      }
+    });
+
+  const quarantineRecords = async (
+    db: IDBDatabase,
+    entry: RecoveryEntry,
+    keys: IDBValidKey[]
+  ) => quarantine(db, entry.id, await encodeEntry(entry), keys);
+
+  const writeChanges = async (pending: PendingChange[], result: CommitResult) => {
+    const encoded = await Promise.all(
+      pending.map(({ change }) =>
+        change.after ? encodeJob(wrapJob(change.after)) : null
+      )
+    );
+    const db = await getDb();
+    const tx = db.transaction(JOBS_STORE, 'readwrite');
+    const store = tx.objectStore(JOBS_STORE);
+    const stored = await Promise.all(
+      pending.map(({ change }) => promisify<unknown>(store.get(change.id)))
+    );
+    const stale: Array<PendingChange & { stored: unknown }> = [];
+    pending.forEach((item, index) => {
+      const { change, expected } = item;
+      if (!change.after) {
+        store.delete(change.id);
+        result.jobs.push({ id: change.id, job: null });
+        return;
+      }
+      const revision = readRevision(stored[index]);
+      if (revision === null && change.before) {
+        result.jobs.push({ id: change.id, job: null });
+        result.conflicts.push({
+          id: change.id,
+          company: change.before.company,
+          deleted: true,
+          fields: []
+        });
+        return;
+      }
+      if (revision === null || revision === expected) {
+        store.put(encoded[index], change.id);
+        result.jobs.push({ id: change.id, job: change.after });
+        return;
+      }
+      stale.push({ ...item, stored: stored[index] });
+    });
+    await transactionDone(tx);
+    return stale;
+  };
+
+  // Stale changes are merged into what another writer stored and written
+  // again; the loop ends once every change lands on the revision it expects.
+  const mergeStale = async (
+    stale: Array<PendingChange & { stored: unknown }>,
+    result: CommitResult
+  ) => {
+    const next: PendingChange[] = [];
+    for (const { change, stored } of stale) {
+      const validation = validateJob(await decode(stored).catch(() => null));
+      const after = change.after as Job;
+      if (!validation.ok) {
+        const expected = readRevision(stored) ?? 0;
+        next.push({ change: { ...change, before: null }, expected });
+        continue;
+      }
+      const current = validation.job;
+      const revision = current.revision ?? 0;
+      const merged = mergeJob(change.before ?? current, after, current);
+      const job = { ...merged.job, revision: revision + 1 };
+      if (merged.conflicts.length > 0) {
+        result.conflicts.push({
+          id: change.id,
+          company: job.company,
+          deleted: false,
+          fields: merged.conflicts
+        });
+      }
+      next.push({
+        change: { id: change.id, before: current, after: job },
+        expected: revision
+      });
+    }
+    return next;
+  };
+
+  return {
+    name,
+
+    async loadJobs() {
+      const db = await getDb();
+      const tx = db.transaction(JOBS_STORE, 'readonly');
+      const store = tx.objectStore(JOBS_STORE);
+      const [keys, records] = await Promise.all([
+        promisify<IDBValidKey[]>(store.getAllKeys()),
+        promisify<unknown[]>(store.getAll())
+      ]);
+      if (!key && records.some(isSealedRecord)) {
+        throw new Error('Workspace is locked.');
+      }
+      const unreadable = new Set<number>();
+      const decoded = await Promise.all(
+        records.map((record, index) =>
+          decode(record).catch(() => {
+            unreadable.add(index);
+            return record;
+          })
+        )
+      );
+      const { jobs, broken, problems } = salvageJobs(decoded, (index) =>
+        unreadable.has(index)
+          ? `Record ${String(keys[index])} could not be decrypted`
+          : `Record ${String(keys[index])}`
+      );
+      if (broken.length > 0) {
+        const brokenKeys = keys.filter((_, index) =>
+          broken.includes(decoded[index])
+        );
+        await quarantineRecords(
+          db,
+          createRecoveryEntry(
+            'jobs',
+            `IndexedDB ${name}/${JOBS_STORE}`,
+            JSON.stringify(broken, null, 2),
+            jobs.length,
+            problems
+          ),
+          brokenKeys
+        );
+      }
+      return jobs;
+    },
+
+    // Writes a change set in one transaction. Each change carries the revision
+    // its writer started from; when the stored record has moved on since, the
+    // change is merged into it instead of overwriting it.
+    commitJobs(changes) {
+      return queueWrite(async () => {
+        const result: CommitResult = { jobs: [], conflicts: [] };
+        let pending: PendingChange[] = changes.map((change) => ({
+          change,
+          expected: change.before?.revision ?? 0
+        }));
+        while (pending.length > 0) {
+          const stale = await writeChanges(pending, result);
+          pending = await mergeStale(stale, result);
+        }
+        return result;
+      });
+    },
+
+    putJobs(jobs) {
+      return queueWrite(async () => {
+        if (jobs.length === 0) return;
+        const encoded = await Promise.all(
+          jobs.map((job) => encodeJob(wrapJob(job)))
+        );
+        const db = await getDb();
+        const tx = db.transaction(JOBS_STORE, 'readwrite');
+        const store = tx.objectStore(JOBS_STORE);
+        jobs.forEach((job, index) => store.put(encoded[index], job.id));
+        await transactionDone(tx);
+      });
+    },
+
+    deleteJobs(ids) {
+      return queueWrite(async () => {
+        if (ids.length === 0) return;
+        const db = await getDb();
+        const tx = db.transaction(JOBS_STORE, 'readwrite');
+        const store = tx.objectStore(JOBS_STORE);
+        ids.forEach((id) => store.delete(id));
+        await transactionDone(tx);
+      });
+    },
+
+    async loadSchema() {
+      const db = await getDb();
+      const tx = db.transaction(META_STORE, 'readonly');
+      const payload = await promisify<unknown>(
+        tx.objectStore(META_STORE).get(SCHEMA_KEY)
+      );
+      return payload === undefined ? [] : migrateSchema(await decode(payload));
+    },
+
+    saveSchema(fields) {
+      return queueWrite(async () => {
+        const encoded = await encode(wrapSchema(fields));
+        const db = await getDb();
+        const tx = db.transaction(META_STORE, 'readwrite');
+        tx.objectStore(META_STORE).put(encoded, SCHEMA_KEY);
+        await transactionDone(tx);
+      });
+    },
+
+    // Null until the workspace first saves a pipeline.
+    async loadPipeline() {
+      const db = await getDb();
+      const tx = db.transaction(META_STORE, 'readonly');
+      const stored = await promisify<unknown>(
+        tx.objectStore(META_STORE).get(PIPELINE_KEY)
+      );
+      if (stored === undefined) return null;
+      const payload = await decode(stored);
+      const stages = Array.isArray(payload)
+        ? payload.filter(isPipelineStage)
+        : [];
+      return stages.length > 0 ? stages : null;
+    },
+
+    savePipeline(stages) {
+      return queueWrite(async () => {
+        const encoded = await encode(stages);
+        const db = await getDb();
+        const tx = db.transaction(META_STORE, 'readwrite');
+        tx.objectStore(META_STORE).put(encoded, PIPELINE_KEY);
+        await transactionDone(tx);
+      });
+    },
+
+    async loadTagColors() {
+      const db = await getDb();
+      const tx = db.transaction(META_STORE, 'readonly');
+      const stored = await promisify<unknown>(
+        tx.objectStore(META_STORE).get(TAG_COLORS_KEY)
+      );
+      if (stored === undefined) return {};
+      return (await decode(stored)) as Record<string, string>;
+    },
+
+    saveTagColors(colors) {
+      return queueWrite(async () => {
+        const encoded = await encode(colors);
+        const db = await getDb();
+        const tx = db.transaction(META_STORE, 'readwrite');
+        tx.objectStore(META_STORE).put(encoded, TAG_COLORS_KEY);
+        await transactionDone(tx);
+      });
+    },
+
+    async loadRecovery() {
+      const db = await getDb();
+      const tx = db.transaction(RECOVERY_STORE, 'readonly');
+      const stored = await promisify<unknown[]>(
+        tx.objectStore(RECOVERY_STORE).getAll()
+      );
+      const entries = await Promise.all(
+        stored.map((entry) => decode(entry) as Promise<RecoveryEntry>)
+      );
+      return entries.sort((a, b) =>
+        b.quarantinedAt.localeCompare(a.quarantinedAt)
+      );
+    },
+
+    // Keeps data that never made it into the store, such as a malformed
+    // payload from the sync server, where the recovery panel shows it.
+    saveRecovery(entry) {
+      return queueWrite(async () => {
+        const encoded = await encodeEntry(entry);
+        const db = await getDb();
+        const tx = db.transaction(RECOVERY_STORE, 'readwrite');
+        tx.objectStore(RECOVERY_STORE).put(encoded, entry.id);
+        await transactionDone(tx);
+      });
+    },
+
+    deleteRecovery(id) {
+      return queueWrite(async () => {
+        const db = await getDb();
+        const tx = db.transaction(RECOVERY_STORE, 'readwrite');
+        tx.objectStore(RECOVERY_STORE).delete(id);
+        await transactionDone(tx);
+      });
+    },
+
+    async loadHistory() {
+      const db = await getDb();
+      const tx = db.transaction(META_STORE, 'readonly');
+      const stored = (await decode(
+        await promisify<unknown>(tx.objectStore(META_STORE).get(HISTORY_KEY))
+      )) as Envelope<HistoryStack> | undefined;
+      // History holds full job snapshots, so entries written against an older
+      // job format are dropped rather than replayed.
+      if (!stored || stored.version !== JOB_DATA_VERSION) {
+        return emptyHistory();
+      }
+      return stored.data;
+    },
+
+    saveHistory(stack) {
+      return queueWrite(async () => {
+        const envelope: Envelope<HistoryStack> = {
+          version: JOB_DATA_VERSION,
+          data: stack
+        };
+        const encoded = await encode(envelope);
+        const db = await getDb();
+        const tx = db.transaction(META_STORE, 'readwrite');
+        tx.objectStore(META_STORE).put(encoded, HISTORY_KEY);
+        await transactionDone(tx);
+      });
+    },
+
+    async loadAiSettings() {
+      const db = await getDb();
+      const tx = db.transaction(META_STORE, 'readonly');
+      const stored = await promisify<unknown>(
+        tx.objectStore(META_STORE).get(AI_SETTINGS_KEY)
+      );
+      if (stored !== undefined) return (await decode(stored)) as AiSettings;
+      const legacy = name === DEFAULT_DB_NAME ? readLegacyAiSettings() : null;
+      if (legacy) await saveAiSettings(legacy);
+      return legacy;
+    },
+
+    saveAiSettings,
+
+    async loadSnapshots() {
+      const db = await getDb();
+      const tx = db.transaction(SNAPSHOTS_STORE, 'readonly');
+      const stored = await promisify<unknown[]>(
+        tx.objectStore(SNAPSHOTS_STORE).getAll()
+      );
+      const snapshots = await Promise.all(
+        stored.map((entry) => decode(entry) as Promise<Snapshot>)
+      );
+      // Snapshots from before they were versioned go through every job
+      // migration; each of them is safe to repeat.
+      return snapshots
+        .map((snapshot) => ({
+          ...snapshot,
+          jobs: snapshot.jobs.map((job) =>
+            migrateJob({ version: snapshot.version ?? 0, data: job })
+          ),
+          version: JOB_DATA_VERSION
+        }))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    saveSnapshot(snapshot, expired) {
+      return queueWrite(async () => {
+        const encoded = await encodeEntry({
+          ...snapshot,
+          version: JOB_DATA_VERSION
+        });
+        const db = await getDb();
+        const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+        const store = tx.objectStore(SNAPSHOTS_STORE);
+        store.put(encoded, snapshot.id);
+        expired.forEach((id) => store.delete(id));
+        await transactionDone(tx);
+      });
+    },
+
+    async loadSync() {
+      const db = await getDb();
+      const tx = db.transaction(META_STORE, 'readonly');
+      const stored = await promisify<unknown>(
+        tx.objectStore(META_STORE).get(SYNC_KEY)
+      );
+      return stored === undefined ? null : ((await decode(stored)) as SyncRecord);
+    },
+
+    saveSync(record) {
+      return queueWrite(async () => {
+        const encoded = await encode(record);
+        const db = await getDb();
+        const tx = db.transaction(META_STORE, 'readwrite');
+        tx.objectStore(META_STORE).put(encoded, SYNC_KEY);
+        await transactionDone(tx);
+      });
+    },
+
+    async loadContacts() {
+      const db = await getDb();
+      const tx = db.transaction(CONTACTS_STORE, 'readonly');
+      const stored = await promisify<unknown[]>(
+        tx.objectStore(CONTACTS_STORE).getAll()
+      );
+      return Promise.all(
+        stored.map((entry) => decode(entry) as Promise<Contact>)
+      );
+    },
+
+    putContacts(contacts) {
+      return queueWrite(async () => {
+        if (contacts.length === 0) return;
+        const encoded = await Promise.all(contacts.map(encodeEntry));
+        const db = await getDb();
+        const tx = db.transaction(CONTACTS_STORE, 'readwrite');
+        const store = tx.objectStore(CONTACTS_STORE);
+        contacts.forEach((contact, index) =>
+          store.put(encoded[index], contact.id)
+        );
+        await transactionDone(tx);
+      });
+    },
+
+    deleteContacts(ids) {
+      return queueWrite(async () => {
+        if (ids.length === 0) return;
+        const db = await getDb();
+        const tx = db.transaction(CONTACTS_STORE, 'readwrite');
+        const store = tx.objectStore(CONTACTS_STORE);
+        ids.forEach((id) => store.delete(id));
+        await transactionDone(tx);
+      });
+    },
+
+    async loadDocuments() {
+      const db = await getDb();
+      const tx = db.transaction(DOCUMENTS_STORE, 'readonly');
+      const stored = await promisify<unknown[]>(
+        tx.objectStore(DOCUMENTS_STORE).getAll()
+      );
+      const documents = await Promise.all(
+        stored.map((entry) => decode(entry) as Promise<StoredDocument>)
+      );
+      return documents.sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+    },
+
+    async loadDocumentData(id) {
+      const db = await getDb();
+      const tx = db.transaction(DOCUMENT_DATA_STORE, 'readonly');
+      const stored = await promisify<unknown>(
+        tx.objectStore(DOCUMENT_DATA_STORE).get(id)
+      );
+      if (stored === undefined) return null;
+      return ((await decode(stored)) as { id: string; data: string }).data;
+    },
+
+    putDocument(document, data) {
+      return queueWrite(async () => {
+        const [meta, content] = await Promise.all([
+          encodeEntry(document),
+          encodeEntry({ id: document.id, data })
+        ]);
+        const db = await getDb();
+        const tx = db.transaction(
+          [DOCUMENTS_STORE, DOCUMENT_DATA_STORE],
+          'readwrite'
+        );
+        tx.objectStore(DOCUMENTS_STORE).put(meta, document.id);
+        tx.objectStore(DOCUMENT_DATA_STORE).put(content, document.id);
+        await transactionDone(tx);
+      });
+    },
+
+    deleteDocument(id) {
+      return queueWrite(async () => {
+        const db = await getDb();
+        const tx = db.transaction(
+          [DOCUMENTS_STORE, DOCUMENT_DATA_STORE],
+          'readwrite'
+        );
+        tx.objectStore(DOCUMENTS_STORE).delete(id);
+        tx.objectStore(DOCUMENT_DATA_STORE).delete(id);
+        await transactionDone(tx);
+      });
+    },
+
+    async loadLock() {
+      const db = await getDb();
+      const tx = db.transaction(META_STORE, 'readonly');
+      const lock = await promisify<VaultLock | undefined>(
+        tx.objectStore(META_STORE).get(LOCK_KEY)
+      );
+      return lock ?? null;
+    },
+
+    setKey(next) {
+      key = next;
+    },
+
+    // Reads every record with the current key and rewrites it under the next
+    // one (or in the clear when `next` is null) in a single transaction, so a
+    // passphrase change never leaves the workspace half re-encrypted.
+    rekey(lock, next) {
+      return queueWrite(async () => {
+        const db = await getDb();
+        const stores = [JOBS_STORE, META_STORE, ...ENTRY_STORES];
+        const readTx = db.transaction(stores, 'readonly');
+        const jobStore = readTx.objectStore(JOBS_STORE);
+        const metaStore = readTx.objectStore(META_STORE);
+        const [jobKeys, jobRecords, entryRecords, meta] = await Promise.all([
+          promisify<IDBValidKey[]>(jobStore.getAllKeys()),
+          promisify<unknown[]>(jobStore.getAll()),
+          Promise.all(
+            ENTRY_STORES.map((storeName) =>
+              promisify<unknown[]>(readTx.objectStore(storeName).getAll())
+            )
+          ),
+          Promise.all(
+            SEALED_META_KEYS.map((metaKey) =>
+              promisify<unknown>(metaStore.get(metaKey))
+            )
+          )
+        ]);
+        // Records the current key cannot open are carried over untouched.
+        const open = (record: unknown) => decode(record).catch(() => null);
+        const jobs = await Promise.all(jobRecords.map(open));
+        const entries = await Promise.all(
+          entryRecords.map((records) => Promise.all(records.map(open)))
+        );
+        const metaValues = await Promise.all(meta.map(open));
+
+        key = next;
+        const sealedJobs = await Promise.all(
+          jobs.map((job, index) =>
+            job === null ? jobRecords[index] : encodeJob(job)
+          )
+        );
+        const sealedEntries = await Promise.all(
+          entries.map((values, storeIndex) =>
+            Promise.all(
+              values.map((value, index) =>
+                value === null
+                  ? entryRecords[storeIndex][index]
+                  : encodeEntry(value as { id: string })
+              )
+            )
+          )
+        );
+        const sealedMeta = await Promise.all(
+          metaValues.map((value, index) =>
+            value === null || value === undefined ? meta[index] : encode(value)
+          )
+        );
+
+        const tx = db.transaction(stores, 'readwrite');
+        const jobWrites = tx.objectStore(JOBS_STORE);
+        const metaWrites = tx.objectStore(META_STORE);
+        jobKeys.forEach((jobKey, index) =>
+          jobWrites.put(sealedJobs[index], jobKey)
+        );
+        ENTRY_STORES.forEach((storeName, storeIndex) => {
+          const store = tx.objectStore(storeName);
+          sealedEntries[storeIndex].forEach((entry, index) => {
+            const { id } = entryRecords[storeIndex][index] as { id: string };
+            store.put(entry, id);
+          });
+        });
+        SEALED_META_KEYS.forEach((metaKey, index) => {
+          if (sealedMeta[index] !== undefined) {
+            metaWrites.put(sealedMeta[index], metaKey);
+          }
+        });
+        if (lock) {
+          metaWrites.put(lock, LOCK_KEY);
+        } else {
+          metaWrites.delete(LOCK_KEY);
+        }
+        await transactionDone(tx);
+      });
+    },
+
+    close() {
+      const pending = dbPromise;
+      dbPromise = null;
+      pending?.then((db) => db.close()).catch(() => undefined);
+    }
+  };
+}
+
+// Copies every record of one database into another, byte for byte, so an
+// encrypted database stays encrypted under the same passphrase. The sync
+// record is left behind: the copy gets its own client id, with sync off and
+// nothing queued, instead of sharing a change log under the original's id.
+export async function copyDatabase(from: string, to: string) {
+  const [source, target] = await Promise.all([
+    openDatabase(from),
+    openDatabase(to)
+  ]);
+  try {
+    const stores = Array.from(source.objectStoreNames);
+    const readTx = source.transaction(stores, 'readonly');
+    const contents = await Promise.all(
+      stores.map((storeName) => {
+        const store = readTx.objectStore(storeName);
+        return Promise.all([
+          promisify<IDBValidKey[]>(store.getAllKeys()),
+          promisify<unknown[]>(store.getAll())
+        ]);
+      })
+    );
+    const tx = target.transaction(stores, 'readwrite');
+    stores.forEach((storeName, index) => {
+      const store = tx.objectStore(storeName);
+      const [keys, values] = contents[index];
+      keys.forEach((recordKey, position) => {
+        if (storeName === META_STORE && recordKey === SYNC_KEY) return;
+        store.put(values[position], recordKey);
+      });
+    });
+    await transactionDone(tx);
+  } finally {
+    source.close();
+    target.close();
+  }
+}
+
+export function deleteDatabase(name: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      [JOBS_STORE, META_STORE, ...ENTRY_STORES].forEach((storeName) => {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName);
+        }
+      });
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a workspace being deleted in another tab go through.
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error('Storage is blocked by another open tab.'));
+  });
+}
+
+async function migrateLegacyStorage(db: IDBDatabase) {
+  const readTx = db.transaction(META_STORE, 'readonly');
+  const migrated = await promisify<boolean | undefined>(
+    readTx.objectStore(META_STORE).get(LEGACY_MIGRATED_KEY)
+  );
+  if (migrated || typeof localStorage === 'undefined') return;
+
+  const legacyJobs = readLegacyJobs();
+  const legacySchema = readLegacySchema();
+  const tx = db.transaction(
+    [JOBS_STORE, META_STORE, RECOVERY_STORE],
+    'readwrite'
+  );
+  const jobStore = tx.objectStore(JOBS_STORE);
+  const metaStore = tx.objectStore(META_STORE);
+  const recoveryStore = tx.objectStore(RECOVERY_STORE);
+  legacyJobs.jobs.forEach((job) => jobStore.put(wrapJob(job), job.id));
+  if (legacySchema.fields.length > 0) {
+    metaStore.put(wrapSchema(legacySchema.fields), SCHEMA_KEY);
+  }
+  // Damaged payloads are copied verbatim into the recovery store before the
+  // legacy keys are cleared, so nothing the user had is ever thrown away.
+  [legacyJobs.recovery, legacySchema.recovery].forEach((entry) => {
+    if (entry) recoveryStore.put(entry, entry.id);
+  });
+  metaStore.put(true, LEGACY_MIGRATED_KEY);
+  await transactionDone(tx);
+
+  localStorage.removeItem(LEGACY_JOBS_KEY);
+  localStorage.removeItem(LEGACY_SCHEMA_KEY);
+}
+
+function readLegacyJobs(): { jobs: Job[]; recovery: RecoveryEntry | null } {
+  const raw = localStorage.getItem(LEGACY_JOBS_KEY);
+  if (!raw) return { jobs: [], recovery: null };
+  const problems: string[] = [];
+  let records: unknown[];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (Array.isArray(parsed)) {
+      records = parsed;
+    } else {
+      problems.push('Payload is not a list of applications');
+      records = extractJsonObjects(raw);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid JSON';
+    problems.push(`Payload could not be parsed: ${message}`);
+    records = extractJsonObjects(raw);
+  }
+  const salvage = salvageJobs(records);
+  problems.push(...salvage.problems);
+  return {
+    jobs: salvage.jobs,
+    recovery: problems.length
+      ? createRecoveryEntry(
+          'jobs',
+          `localStorage ${LEGACY_JOBS_KEY}`,
+          raw,
+          salvage.jobs.length,
+          problems
+        )
+      : null
+  };
+}
+
+function readLegacySchema(): {
+  fields: CustomField[];
+  recovery: RecoveryEntry | null;
+} {
+  const raw = localStorage.getItem(LEGACY_SCHEMA_KEY);
+  if (!raw) return { fields: [], recovery: null };
+  let problem: string;
+  try {
+    const parsed = JSON.parse(raw) as { customFields?: unknown };
+    if (Array.isArray(parsed?.customFields)) {
+      return { fields: migrateSchema(parsed), recovery: null };
+    }
+    problem = 'Payload has no customFields list';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid JSON';
+    problem = `Payload could not be parsed: ${message}`;
+  }
+  return {
+    fields: [],
+    recovery: createRecoveryEntry(
+      'schema',
+      `localStorage ${LEGACY_SCHEMA_KEY}`,
+      raw,
+      0,
+      [problem]
+    )
+  };
+}
+
+async function quarantine(
+  db: IDBDatabase,
+  id: string,
+  entry: unknown,
+  keys: IDBValidKey[]
+) {
+  const tx = db.transaction([JOBS_STORE, RECOVERY_STORE], 'readwrite');
+  tx.objectStore(RECOVERY_STORE).put(entry, id);
+  const jobStore = tx.objectStore(JOBS_STORE);
+  keys.forEach((key) => jobStore.delete(key));
+  await transactionDone(tx);
+}
+
+function readLegacyAiSettings(): AiSettings | null {
+  if (typeof localStorage === 'undefined') return null;
+  const raw = localStorage.getItem(LEGACY_AI_SETTINGS_KEY);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === 'object' ? (parsed as AiSettings) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createRecoveryEntry(
+  source: RecoveryEntry['source'],
+  origin: string,
+  raw: string,
+  salvaged: number,
+  problems: string[]
+): RecoveryEntry {
+  const quarantinedAt = new Date().toISOString();
+  return {
+    id: `${source}-${quarantinedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    source,
+    origin,
+    raw,
+    salvaged,
+    problems,
+    quarantinedAt
+  };
+}
+
+function isSealedRecord(value: unknown): value is SealedRecord {
+  return (
+    Boolean(value) &&
+    typeof value === 'object' &&
+    isSealed((value as Record<string, unknown>).sealed)
+  );
+}
+
+// The revision of a stored job record, or null when there is no readable
+// record to compare against.
+function readRevision(stored: unknown): number | null {
+  if (stored === undefined) return null;
+  if (isSealedRecord(stored)) return stored.revision ?? 0;
+  const validation = validateJob(stored);
+  return validation.ok ? validation.job.revision ?? 0 : null;
+}
+
+function revisionOf(envelope: unknown) {
+  return readRevision(envelope) ?? 0;
+}
+
+function promisify<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
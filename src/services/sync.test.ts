@@ -0,0 +1,264 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  handleSyncRequest,
+  type SyncRequest,
+  type SyncStore
+} from '../../server/sync-server.mjs';
+import type { CustomField, Job } from '../types';
+import {
+  addJob,
+  setRepository,
+  setStatus,
+  subscribeRecovery,
+  subscribeSchema,
+  upsertCustomField
+} from './jobs';
+import { createIndexedDbRepository, type RecoveryEntry } from './storage';
+import {
+  saveSyncSettings,
+  startSync,
+  subscribeSyncStatus,
+  syncNow,
+  type SyncChange,
+  type SyncStatus
+} from './sync';
+import { currentJobs } from './testUtils';
+
+const TOKEN = 'secret';
+
+const SETTINGS = {
+  enabled: true,
+  endpoint: 'https://sync.example.com/search',
+  token: TOKEN
+};
+
+// Runs the client against the reference server's request handler, with
+// fetch swapped for a direct call.
+function createServer() {
+  const store: SyncStore = { logs: {} };
+  const handle = (request: SyncRequest) =>
+    handleSyncRequest(store, request, TOKEN);
+  const server = {
+    offline: false,
+    get log() {
+      return (store.logs['/search'] ?? []).map((entry) => entry.change);
+    },
+    // What another device sends.
+    push(...changes: SyncChange[]) {
+      return handle({
+        method: 'POST',
+        url: '/search/changes',
+        authorization: `Bearer ${TOKEN}`,
+        body: JSON.stringify({ changes })
+      });
+    },
+    handle,
+    fetch: (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (server.offline) throw new TypeError('Failed to fetch');
+      const { status, body } = handle({
+        method: init?.method ?? 'GET',
+        url: String(input),
+        authorization:
+          new Headers(init?.headers).get('Authorization') ?? undefined,
+        body: typeof init?.body === 'string' ? init.body : undefined
+      });
+      return new Response(body === undefined ? null : JSON.stringify(body), {
+        status
+      });
+    }) as typeof fetch
+  };
+  return server;
+}
+
+function remoteChange(
+  entityId: string,
+  updatedAt: string,
+  fields: Record<string, unknown>
+): SyncChange {
+  return {
+    id: `remote-${Math.random().toString(36).slice(2)}`,
+    clientId: 'other-device',
+    entity: 'job',
+    entityId,
+    updatedAt,
+    fields
+  };
+}
+
+// Listeners are called with the current status as they subscribe.
+function currentStatus() {
+  const seen: SyncStatus[] = [];
+  subscribeSyncStatus((status) => seen.push(status))();
+  return seen[seen.length - 1];
+}
+
+describe('sync', () => {
+  let stop: () => void = () => undefined;
+
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  afterEach(() => {
+    stop();
+  });
+
+  function connect(server: ReturnType<typeof createServer>) {
+    stop = startSync({
+      fetch: server.fetch,
+      intervalMs: 60 * 60 * 1000,
+      pushDelayMs: 60 * 60 * 1000
+    });
+    return saveSyncSettings(SETTINGS);
+  }
+
+  it('pushes local edits as field-level changes', async () => {
+    const server = createServer();
+    const id = await addJob({ company: 'Acme', role: 'Engineer' });
+    await connect(server);
+    expect(server.log.map((change) => change.entityId)).toContain(id);
+
+    await setStatus(id, 'interviewed');
+    await syncNow();
+    const last = server.log[server.log.length - 1];
+    expect(last.entityId).toBe(id);
+    expect(last.fields.status).toBe('interviewed');
+    expect(last.fields.company).toBeUndefined();
+  });
+
+  it('applies remote changes per field, newest write wins', async () => {
+    const server = createServer();
+    const id = await addJob({ company: 'Acme', role: 'Engineer' });
+    await connect(server);
+
+    const earlier = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    const later = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    server.push(
+      remoteChange(id, earlier, { status: 'rejected' }),
+      remoteChange(id, later, { role: 'Staff Engineer' }),
+      remoteChange('remote-job', later, {
+        company: 'Globex',
+        role: 'Analyst',
+        status: 'applied'
+      })
+    );
+    await syncNow();
+
+    const jobs = await currentJobs();
+    const local = jobs.find((job) => job.id === id)!;
+    expect(local.status).toBe('applied');
+    expect(local.role).toBe('Staff Engineer');
+    expect(jobs.find((job) => job.id === 'remote-job')?.company).toBe(
+      'Globex'
+    );
+  });
+
+  it('quarantines malformed jobs and fields from the server', async () => {
+    const server = createServer();
+    await upsertCustomField('Headcount', 'number');
+    const id = await addJob({ company: 'Acme', role: 'Engineer' });
+    await connect(server);
+
+    const later = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    server.push(
+      remoteChange(id, later, { interviews: [{ round: 'evil' }] }),
+      remoteChange('remote-job', later, {
+        company: 'Globex',
+        role: 'Analyst',
+        'custom.headcount': 'lots'
+      }),
+      remoteChange('other-job', later, { company: 'Initech', role: 'Dev' }),
+      {
+        ...remoteChange('schema', later, {
+          customFields: [{ id: 'x', name: 'X', type: 'script' }]
+        }),
+        entity: 'schema'
+      }
+    );
+    await syncNow();
+
+    const jobs = await currentJobs();
+    expect(jobs.find((job) => job.id === id)?.interviews).toBeUndefined();
+    expect(jobs.map((job) => job.company).sort()).toEqual([
+      'Acme',
+      'Initech'
+    ]);
+    const [field] = await new Promise<CustomField[]>((resolve) => {
+      const unsubscribe = subscribeSchema((fields) => {
+        unsubscribe();
+        resolve(fields);
+      });
+    });
+    expect(field.name).toBe('Headcount');
+    const recovery = await new Promise<RecoveryEntry[]>((resolve) => {
+      const unsubscribe = subscribeRecovery((entries) => {
+        unsubscribe();
+        resolve(entries);
+      });
+    });
+    expect(recovery.map((entry) => entry.source).sort()).toEqual([
+      'jobs',
+      'schema'
+    ]);
+    const jobEntry = recovery.find((entry) => entry.source === 'jobs');
+    expect(jobEntry?.problems).toEqual([
+      `Job ${id}: interviews contains malformed rounds`,
+      'Job remote-job: Headcount must be a number.'
+    ]);
+  });
+
+  it('keeps changes queued while offline', async () => {
+    const server = createServer();
+    await connect(server);
+    server.offline = true;
+
+    const id = await addJob({ company: 'Acme', role: 'Engineer' });
+    await syncNow();
+    expect(currentStatus().state).toBe('offline');
+    expect(currentStatus().pending).toBe(1);
+    expect(server.log.some((change) => change.entityId === id)).toBe(false);
+
+    server.offline = false;
+    await syncNow();
+    expect(currentStatus()).toMatchObject({ state: 'idle', pending: 0 });
+    expect(server.log.some((change) => change.entityId === id)).toBe(true);
+  });
+
+  it('rejects bad requests and ignores re-sent changes', () => {
+    const server = createServer();
+    const change = remoteChange('job-1', new Date().toISOString(), {
+      role: 'Engineer'
+    });
+    const auth = `Bearer ${TOKEN}`;
+
+    expect(server.handle({ method: 'GET', url: '/search/changes' })).toEqual({
+      status: 401,
+      body: { error: 'Unauthorized' }
+    });
+    expect(
+      server.handle({
+        method: 'POST',
+        url: '/search/changes',
+        authorization: auth,
+        body: JSON.stringify({ changes: [{ id: 'no-fields' }] })
+      }).status
+    ).toBe(400);
+    expect(server.push(change).body).toEqual({ accepted: 1, cursor: 1 });
+    expect(server.push(change).body).toEqual({ accepted: 0, cursor: 1 });
+
+    const later = remoteChange('job-1', new Date().toISOString(), {
+      role: 'Staff Engineer'
+    });
+    server.push(later);
+    expect(
+      server.handle({
+        method: 'GET',
+        url: '/search/changes?since=1',
+        authorization: auth
+      }).body
+    ).toEqual({ changes: [later], cursor: 2 });
+  });
+});
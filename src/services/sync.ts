@@ -0,0 +1,494 @@
+import type { CustomField, CustomValue, Job } from '../types';
+import type { JobChange } from './history';
+import {
+  applyRemoteChanges,
+  loadSyncRecord,
+  loadWorkspaceData,
+  saveSyncRecord,
+  subscribeLocalChanges,
+  type LocalChange
+} from './jobs';
+import { toNoteEntries } from './notes';
+
+// One entry of the change log exchanged with the server. `fields` holds only
+// what the edit touched; custom field values are flattened to `custom.<id>`.
+export type SyncChange = {
+  id: string;
+  clientId: string;
+  entity: 'job' | 'schema';
+  entityId: string;
+  updatedAt: string;
+  deleted?: boolean;
+  fields: Record<string, unknown>;
+};
+
+export type SyncSettings = {
+  enabled: boolean;
+  endpoint: string;
+  token: string;
+};
+
+// Everything the engine persists per workspace. `clock` remembers, per
+// `<jobId>.<field>`, the stamp of the write that last set it.
+export type SyncRecord = {
+  settings: SyncSettings;
+  clientId: string;
+  cursor: number;
+  outbox: SyncChange[];
+  clock: Record<string, string>;
+  lastSyncedAt: string | null;
+};
+
+export type SyncStatus = {
+  state: 'off' | 'idle' | 'syncing' | 'offline' | 'error';
+  pending: number;
+  lastSyncedAt: string | null;
+  message: string | null;
+};
+
+export type SyncOptions = {
+  fetch?: typeof fetch;
+  intervalMs?: number;
+  pushDelayMs?: number;
+};
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  enabled: false,
+  endpoint: '',
+  token: ''
+};
+
+const SYNC_INTERVAL_MS = 60 * 1000;
+const PUSH_DELAY_MS = 2000;
+const SCHEMA_ENTITY = 'schema';
+const EPOCH = new Date(0).toISOString();
+
+const statusListeners = new Set<(status: SyncStatus) => void>();
+let status: SyncStatus = {
+  state: 'off',
+  pending: 0,
+  lastSyncedAt: null,
+  message: null
+};
+let record: SyncRecord | null = null;
+let transport: typeof fetch | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+let stopRunning: (() => void) | null = null;
+
+// Starts syncing the active workspace: local changes are queued as they
+// happen and pushed shortly after, and the server is polled on an interval
+// and whenever the browser comes back online. Returns a stop function.
+export function startSync(options: SyncOptions = {}) {
+  stopRunning?.();
+  transport = options.fetch ?? null;
+  record = null;
+  let pushTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const unsubscribe = subscribeLocalChanges((change) => {
+    enqueue(() => recordLocalChange(change)).then((queued) => {
+      if (!queued) return;
+      clearTimeout(pushTimer);
+      pushTimer = setTimeout(syncNow, options.pushDelayMs ?? PUSH_DELAY_MS);
+    });
+  });
+  const interval = setInterval(
+    syncNow,
+    options.intervalMs ?? SYNC_INTERVAL_MS
+  );
+  const handleOnline = () => {
+    syncNow();
+  };
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', handleOnline);
+  }
+  syncNow();
+
+  const stop = () => {
+    unsubscribe();
+    clearTimeout(pushTimer);
+    clearInterval(interval);
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', handleOnline);
+    }
+    if (stopRunning === stop) stopRunning = null;
+  };
+  stopRunning = stop;
+  return stop;
+}
+
+export function subscribeSyncStatus(onChange: (status: SyncStatus) => void) {
+  statusListeners.add(onChange);
+  onChange(status);
+  return () => {
+    statusListeners.delete(onChange);
+  };
+}
+
+export async function getSyncSettings(): Promise<SyncSettings> {
+  return enqueue(async () => (await getRecord()).settings);
+}
+
+// Turning sync on (or pointing it at another server) uploads the whole
+// workspace once and pulls the server's log from the start.
+export async function saveSyncSettings(settings: SyncSettings) {
+  await enqueue(async () => {
+    const current = await getRecord();
+    const previous = current.settings;
+    current.settings = { ...settings, endpoint: settings.endpoint.trim() };
+    const connecting =
+      current.settings.enabled &&
+      (!previous.enabled || previous.endpoint !== current.settings.endpoint);
+    if (connecting) {
+      const { jobs, fields } = await loadWorkspaceData();
+      const seed = toSyncChanges(
+        {
+          jobs: jobs.map((job) => ({ id: job.id, before: null, after: job })),
+          schema: fields
+        },
+        current.clientId,
+        timestamp()
+      );
+      current.outbox = [...current.outbox, ...seed];
+      current.cursor = 0;
+      seed.forEach((change) => stampClock(current.clock, change));
+    }
+    await persist(current);
+    updateStatus(
+      current.settings.enabled
+        ? { state: 'idle', message: null }
+        : { state: 'off', message: null }
+    );
+  });
+  await syncNow();
+}
+
+export function syncNow(): Promise<void> {
+  return enqueue(async () => {
+    const current = await getRecord();
+    const { settings } = current;
+    if (!settings.enabled || !settings.endpoint) {
+      updateStatus({ state: 'off', message: null });
+      return;
+    }
+    updateStatus({ state: 'syncing', message: null });
+    try {
+      await push(current);
+      await pull(current);
+      current.lastSyncedAt = timestamp();
+      await persist(current);
+      updateStatus({ state: 'idle', message: null });
+    } catch (error) {
+      const offline =
+        error instanceof TypeError ||
+        (typeof navigator !== 'undefined' && navigator.onLine === false);
+      updateStatus(
+        offline
+          ? {
+              state: 'offline',
+              message: 'Changes are kept and sent once the server is reachable.'
+            }
+          : {
+              state: 'error',
+              message: error instanceof Error ? error.message : 'Sync failed.'
+            }
+      );
+    }
+  });
+}
+
+export function toSyncChanges(
+  change: LocalChange,
+  clientId: string,
+  now: string
+): SyncChange[] {
+  const jobs = change.jobs.flatMap(({ id, before, after }): SyncChange[] => {
+    if (!after) {
+      return before
+        ? [createChange(clientId, 'job', id, now, {}, true)]
+        : [];
+    }
+    const fields = diffFields(before, after);
+    return Object.keys(fields).length > 0
+      ? [createChange(clientId, 'job', id, now, fields)]
+      : [];
+  });
+  const schema = change.schema
+    ? [
+        createChange(clientId, 'schema', SCHEMA_ENTITY, now, {
+          customFields: change.schema
+        })
+      ]
+    : [];
+  return [...jobs, ...schema];
+}
+
+// Applies remote changes field by field: a value is taken only when its
+// change is newer than whatever last wrote that field here.
+export function mergeRemoteChanges(
+  jobs: Job[],
+  fields: CustomField[],
+  remote: SyncChange[],
+  clock: Record<string, string>
+): { jobs: JobChange[]; fields?: CustomField[]; clock: Record<string, string> } {
+  const nextClock = { ...clock };
+  const current = new Map(jobs.map((job) => [job.id, job]));
+  const touched = new Map<string, Job | null>();
+  let schema: CustomField[] | undefined;
+
+  [...remote]
+    .sort((a, b) => stampOf(a).localeCompare(stampOf(b)))
+    .forEach((change) => {
+      const stamp = stampOf(change);
+      if (change.entity === 'schema') {
+        if (!isNewer(stamp, nextClock[SCHEMA_ENTITY])) return;
+        if (Array.isArray(change.fields.customFields)) {
+          schema = change.fields.customFields as CustomField[];
+          nextClock[SCHEMA_ENTITY] = stamp;
+        }
+        return;
+      }
+      const id = change.entityId;
+      const job = touched.has(id)
+        ? touched.get(id) ?? null
+        : current.get(id) ?? null;
+      if (change.deleted) {
+        const editedLater = Object.entries(nextClock).some(
+          ([key, value]) => key.startsWith(`${id}.`) && value > stamp
+        );
+        if (job && editedLater) return;
+        nextClock[deletedKey(id)] = stamp;
+        touched.set(id, null);
+        return;
+      }
+      if (!job) {
+        const created =
+          typeof change.fields.company === 'string' &&
+          typeof change.fields.role === 'string';
+        if (!created || !isNewer(stamp, nextClock[deletedKey(id)])) return;
+      }
+      const next: Job = job
+        ? { ...job, custom: { ...job.custom } }
+        : {
+            id,
+            company: '',
+            role: '',
+            status: 'applied',
+            tags: [],
+            notes: [],
+            custom: {},
+            timeline: []
+          };
+      Object.entries(change.fields).forEach(([field, value]) => {
+        const key = `${id}.${field}`;
+        if (!isNewer(stamp, nextClock[key])) return;
+        nextClock[key] = stamp;
+        setField(next, field, value);
+      });
+      touched.set(id, next);
+    });
+
+  const changes = Array.from(touched.entries()).flatMap(
+    ([id, after]): JobChange[] => {
+      const before = current.get(id) ?? null;
+      return before || after ? [{ id, before, after }] : [];
+    }
+  );
+  return { jobs: changes, fields: schema, clock: nextClock };
+}
+
+async function recordLocalChange(change: LocalChange) {
+  const current = await getRecord();
+  if (!current.settings.enabled) return false;
+  const changes = toSyncChanges(change, current.clientId, timestamp());
+  if (changes.length === 0) return false;
+  changes.forEach((item) => stampClock(current.clock, item));
+  current.outbox = [...current.outbox, ...changes];
+  await persist(current);
+  updateStatus({});
+  return true;
+}
+
+async function push(current: SyncRecord) {
+  if (current.outbox.length === 0) return;
+  const batch = current.outbox;
+  await request(current.settings, 'POST', '', { changes: batch });
+  const sent = new Set(batch.map((change) => change.id));
+  current.outbox = current.outbox.filter((change) => !sent.has(change.id));
+  await persist(current);
+}
+
+async function pull(current: SyncRecord) {
+  const response = (await request(
+    current.settings,
+    'GET',
+    `?since=${current.cursor}`
+  )) as { changes?: SyncChange[]; cursor?: number };
+  const remote = (response.changes ?? []).filter(
+    (change) => change.clientId !== current.clientId
+  );
+  if (remote.length > 0) {
+    await applyRemoteChanges((jobs, fields) => {
+      const merged = mergeRemoteChanges(jobs, fields, remote, current.clock);
+      current.clock = merged.clock;
+      return merged;
+    });
+  }
+  if (typeof response.cursor === 'number') current.cursor = response.cursor;
+}
+
+async function request(
+  settings: SyncSettings,
+  method: 'GET' | 'POST',
+  query: string,
+  body?: unknown
+) {
+  const url = `${settings.endpoint.replace(/\/+$/, '')}/changes${query}`;
+  const init: RequestInit = {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {})
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  };
+  const response = await (transport ? transport(url, init) : fetch(url, init));
+  if (!response.ok) {
+    throw new Error(`Sync server responded with ${response.status}.`);
+  }
+  return response.json() as Promise<unknown>;
+}
+
+async function getRecord(): Promise<SyncRecord> {
+  if (!record) {
+    const stored = await loadSyncRecord();
+    record = stored ?? {
+      settings: DEFAULT_SYNC_SETTINGS,
+      clientId: createId(),
+      cursor: 0,
+      outbox: [],
+      clock: {},
+      lastSyncedAt: null
+    };
+    updateStatus({
+      state: record.settings.enabled ? 'idle' : 'off',
+      message: null
+    });
+  }
+  return record;
+}
+
+async function persist(current: SyncRecord) {
+  await saveSyncRecord(current);
+}
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+function updateStatus(next: Partial<SyncStatus>) {
+  status = {
+    ...status,
+    ...next,
+    pending: record?.outbox.length ?? 0,
+    lastSyncedAt: record?.lastSyncedAt ?? null
+  };
+  statusListeners.forEach((listener) => listener(status));
+}
+
+function diffFields(before: Job | null, after: Job) {
+  const fields: Record<string, unknown> = {};
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = after as unknown as Record<string, unknown>;
+  new Set([...Object.keys(previous), ...Object.keys(next)]).forEach((key) => {
+    if (key === 'id' || key === 'revision' || key === 'custom') return;
+    if (!before || !sameValue(previous[key], next[key])) {
+      fields[key] = next[key] ?? null;
+    }
+  });
+  const customBefore = before?.custom ?? {};
+  new Set([...Object.keys(customBefore), ...Object.keys(after.custom)]).forEach(
+    (key) => {
+      if (!before || !sameValue(customBefore[key], after.custom[key])) {
+        fields[`custom.${key}`] = after.custom[key] ?? null;
+      }
+    }
+  );
+  return fields;
+}
+
+function setField(job: Job, field: string, value: unknown) {
+  const target = job as unknown as Record<string, unknown>;
+  if (field.startsWith('custom.')) {
+    job.custom[field.slice('custom.'.length)] = value as CustomValue;
+  } else if (field === 'notes') {
+    // Clients that predate note entries still send plain strings.
+    job.notes = toNoteEntries(value, job.id, job.createdAt ?? EPOCH);
+  } else if (value === null && !['company', 'role', 'status'].includes(field)) {
+    delete target[field];
+  } else {
+    target[field] = value;
+  }
+}
+
+function stampClock(clock: Record<string, string>, change: SyncChange) {
+  const stamp = stampOf(change);
+  if (change.entity === 'schema') {
+    clock[SCHEMA_ENTITY] = stamp;
+  } else if (change.deleted) {
+    clock[deletedKey(change.entityId)] = stamp;
+  } else {
+    Object.keys(change.fields).forEach((field) => {
+      clock[`${change.entityId}.${field}`] = stamp;
+    });
+  }
+}
+
+// Stamps order writes by time and break ties by client, so every device
+// settles on the same winner.
+function stampOf(change: SyncChange) {
+  return `${change.updatedAt}|${change.clientId}`;
+}
+
+function isNewer(stamp: string, existing: string | undefined) {
+  return !existing || stamp > existing;
+}
+
+function deletedKey(id: string) {
+  return `${id}#deleted`;
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function createChange(
+  clientId: string,
+  entity: SyncChange['entity'],
+  entityId: string,
+  updatedAt: string,
+  fields: Record<string, unknown>,
+  deleted?: boolean
+): SyncChange {
+  return {
+    id: createId(),
+    clientId,
+    entity,
+    entityId,
+    updatedAt,
+    fields,
+    ...(deleted ? { deleted } : {})
+  };
+}
+
+function timestamp() {
+  return new Date().toISOString();
+}
+
+function createId() {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `sync-${Math.random().toString(36).slice(2, 10)}`;
+}
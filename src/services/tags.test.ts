@@ -0,0 +1,92 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Job } from '../types';
+import { applyAiActions } from './aiActions';
+import {
+  addJob,
+  addTag,
+  deleteTag,
+  renameTag,
+  setRepository,
+  setTagColor,
+  subscribeJobs,
+  subscribeTagColors
+} from './jobs';
+import { createIndexedDbRepository } from './storage';
+import { collectTags, parseTags } from './tags';
+import { firstValue } from './testUtils';
+
+function tagsByCompany(jobs: Job[]) {
+  return Object.fromEntries(jobs.map((job) => [job.company, job.tags]));
+}
+
+describe('tags', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('parses lists and counts tags without regard to case', () => {
+    expect(parseTags(' remote;Referral,  ,remote ')).toEqual([
+      'remote',
+      'Referral'
+    ]);
+    const job = (company: string, tags: string[]) =>
+      ({ id: company, company, tags }) as Job;
+    expect(
+      collectTags([job('a', ['Remote', 'fintech']), job('b', ['remote'])])
+    ).toEqual([
+      { name: 'Remote', count: 2 },
+      { name: 'fintech', count: 1 }
+    ]);
+  });
+
+  it('renames, merges and deletes tags across applications', async () => {
+    const acme = await addJob({
+      company: 'Acme',
+      role: 'Engineer',
+      tags: ['remote', 'referral']
+    });
+    await addJob({ company: 'Globex', role: 'Analyst', tags: ['Remote'] });
+    await addTag(acme, 'REFERRAL');
+    await setTagColor('referral', '#ff0000');
+
+    await renameTag('referral', 'warm intro');
+    expect(await firstValue(subscribeTagColors)).toEqual({
+      'warm intro': '#ff0000'
+    });
+    await renameTag('warm intro', 'remote');
+    expect(tagsByCompany(await firstValue(subscribeJobs))).toEqual({
+      Acme: ['remote'],
+      Globex: ['Remote']
+    });
+
+    await deleteTag('remote');
+    expect(tagsByCompany(await firstValue(subscribeJobs))).toEqual({
+      Acme: [],
+      Globex: []
+    });
+  });
+
+  it('adds and removes tags from AI actions', async () => {
+    const id = await addJob({ company: 'Acme', role: 'Engineer' });
+    let results = await applyAiActions(
+      [
+        { type: 'add_tag', id, tag: 'dream job' },
+        { type: 'add_tag', id, tag: 'remote' }
+      ],
+      []
+    );
+    expect(results.every((result) => result.ok)).toBe(true);
+    results = await applyAiActions(
+      [{ type: 'remove_tag', id, tag: 'Dream Job' }],
+      []
+    );
+    expect(results[0].ok).toBe(true);
+
+    const [job] = await firstValue<Job[]>(subscribeJobs);
+    expect(job.tags).toEqual(['remote']);
+    expect(job.timeline?.map((event) => event.type)).toContain('tag_removed');
+  });
+});
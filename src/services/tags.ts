@@ -0,0 +1,73 @@
+import type { Job } from '../types';
+
+export type TagSummary = {
+  name: string;
+  count: number;
+};
+
+export const TAG_COLOR = '#8c8c99';
+
+export function normalizeTag(value: string) {
+  return value.trim().replace(/\s+/g, ' ');
+}
+
+// Tags are compared without regard to case, so "Remote" and "remote" are the
+// same tag; the first spelling used is kept.
+export function sameTag(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+export function hasTag(job: Job, tag: string) {
+  return (job.tags ?? []).some((item) => sameTag(item, tag));
+}
+
+// Reads a CSV cell or typed list such as "remote; referral, fintech".
+export function parseTags(value: string) {
+  return dedupeTags(value.split(/[;,]/).map(normalizeTag));
+}
+
+// Tags from an import file, given as a list or as one delimited string.
+export function readTags(value: unknown) {
+  if (typeof value === 'string') return parseTags(value);
+  if (!Array.isArray(value)) return undefined;
+  return dedupeTags(
+    value
+      .filter((tag): tag is string => typeof tag === 'string')
+      .map(normalizeTag)
+  );
+}
+
+export function dedupeTags(tags: string[]) {
+  return tags.reduce<string[]>((list, tag) => {
+    if (tag && !list.some((item) => sameTag(item, tag))) list.push(tag);
+    return list;
+  }, []);
+}
+
+// Every tag in use with how many applications carry it, most used first.
+export function collectTags(jobs: Job[]): TagSummary[] {
+  const summaries: TagSummary[] = [];
+  jobs.forEach((job) => {
+    dedupeTags(job.tags ?? []).forEach((tag) => {
+      const summary = summaries.find((item) => sameTag(item.name, tag));
+      if (summary) summary.count += 1;
+      else summaries.push({ name: tag, count: 1 });
+    });
+  });
+  return summaries.sort(
+    (a, b) => b.count - a.count || a.name.localeCompare(b.name)
+  );
+}
+
+// Replaces `from` with `to` in a tag list, or drops it when `to` is null.
+// Renaming onto a tag the list already has merges the two.
+export function replaceTag(tags: string[], from: string, to: string | null) {
+  return dedupeTags(
+    tags.flatMap((tag) => (sameTag(tag, from) ? (to ? [to] : []) : [tag]))
+  );
+}
+
+export function tagColor(colors: Record<string, string>, tag: string) {
+  const key = Object.keys(colors).find((item) => sameTag(item, tag));
+  return key ? colors[key] : TAG_COLOR;
+}
@@ -0,0 +1,108 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { Job } from '../types';
+import {
+  addJob,
+  completeTask,
+  setFollowUpDays,
+  setRepository,
+  snoozeTask
+} from './jobs';
+import { createIndexedDbRepository } from './storage';
+import { addDays, dueTasks, notifyDueTasks } from './tasks';
+import { currentJobs } from './testUtils';
+
+describe('tasks', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  afterEach(() => {
+    delete (globalThis as { Notification?: unknown }).Notification;
+  });
+
+  it('adds a default follow-up after the applied date', async () => {
+    setFollowUpDays(10);
+    await addJob({
+      company: 'Acme',
+      role: 'Engineer',
+      appliedDate: '2024-02-25'
+    });
+    setFollowUpDays(0);
+    await addJob({ company: 'Globex', role: 'Analyst' });
+
+    const jobs = await currentJobs();
+    const acme = jobs.find((job) => job.company === 'Acme')!;
+    expect(acme.tasks).toEqual([
+      expect.objectContaining({
+        title: 'Follow up with Acme',
+        dueDate: '2024-03-06'
+      })
+    ]);
+    const globex = jobs.find((job) => job.company === 'Globex')!;
+    expect(globex.tasks).toBeUndefined();
+    expect(dueTasks(jobs, '2024-03-06')).toHaveLength(1);
+    expect(dueTasks(jobs, '2024-03-05')).toEqual([]);
+  });
+
+  it('snoozes and completes with timeline events', async () => {
+    setFollowUpDays(10);
+    await addJob({
+      company: 'Acme',
+      role: 'Engineer',
+      appliedDate: '2024-02-25'
+    });
+    const [job] = await currentJobs();
+    const taskId = job.tasks![0].id;
+
+    await snoozeTask(job.id, taskId, 3, '2024-03-08');
+    let [updated] = await currentJobs();
+    expect(updated.tasks![0].dueDate).toBe(addDays('2024-03-08', 3));
+    expect(dueTasks([updated], '2024-03-10')).toEqual([]);
+
+    await completeTask(job.id, taskId);
+    [updated] = await currentJobs();
+    expect(updated.tasks![0].completedAt).toBeTruthy();
+    expect(dueTasks([updated], '2024-12-31')).toEqual([]);
+    const types = updated.timeline?.map((event) => event.type);
+    expect(types).toContain('task_snoozed');
+    expect(types).toContain('task_completed');
+  });
+
+  it('notifies about each due task once a day', () => {
+    const shown: string[] = [];
+    class FakeNotification {
+      static permission = 'granted';
+      constructor(title: string) {
+        shown.push(title);
+      }
+    }
+    (globalThis as { Notification?: unknown }).Notification = FakeNotification;
+    const job: Job = {
+      id: 'job-1',
+      company: 'Acme',
+      role: 'Engineer',
+      status: 'applied',
+      tags: [],
+      notes: [],
+      custom: {},
+      tasks: [
+        {
+          id: 'task-1',
+          title: 'Follow up',
+          dueDate: '2024-03-01',
+          createdAt: '2024-02-01T00:00:00.000Z',
+          updatedAt: '2024-02-01T00:00:00.000Z'
+        }
+      ]
+    };
+
+    notifyDueTasks(dueTasks([job], '2024-03-02'), '2024-03-02');
+    notifyDueTasks(dueTasks([job], '2024-03-02'), '2024-03-02');
+    expect(shown).toEqual(['Overdue: Acme']);
+    notifyDueTasks(dueTasks([job], '2024-03-03'), '2024-03-03');
+    expect(shown).toHaveLength(2);
+  });
+});
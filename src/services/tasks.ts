@@ -0,0 +1,127 @@
+import type { Job, JobTask } from '../types';
+
+export type TaskInput = {
+  title: string;
+  dueDate: string;
+};
+
+export type DueTask = {
+  job: Job;
+  task: JobTask;
+  overdue: boolean;
+};
+
+export type NotificationState = NotificationPermission | 'unsupported';
+
+export const SNOOZE_OPTIONS = [
+  { label: '1 day', days: 1 },
+  { label: '3 days', days: 3 },
+  { label: '1 week', days: 7 }
+];
+
+const NOTIFIED_KEY = 'resumeTracker.notifiedTasks';
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function buildTask(
+  input: Partial<TaskInput>,
+  existing: Partial<JobTask> & Pick<JobTask, 'id' | 'createdAt'>,
+  now: string
+): JobTask {
+  const title = (input.title ?? existing.title ?? '').trim();
+  const dueDate = input.dueDate ?? existing.dueDate ?? '';
+  if (!title) throw new Error('Give the reminder a title.');
+  if (!DATE_PATTERN.test(dueDate)) {
+    throw new Error('Reminders need a due date.');
+  }
+  return {
+    ...existing,
+    title,
+    dueDate,
+    updatedAt: now
+  };
+}
+
+// Open tasks due on or before `today` across `jobs`, oldest first.
+export function dueTasks(jobs: Job[], today: string = localDate()): DueTask[] {
+  return jobs
+    .flatMap((job) =>
+      (job.tasks ?? [])
+        .filter((task) => !task.completedAt && task.dueDate <= today)
+        .map((task) => ({ job, task, overdue: task.dueDate < today }))
+    )
+    .sort((a, b) => a.task.dueDate.localeCompare(b.task.dueDate));
+}
+
+export function isJobTask(value: unknown) {
+  if (!value || typeof value !== 'object') return false;
+  const task = value as Record<string, unknown>;
+  return (
+    typeof task.id === 'string' &&
+    typeof task.title === 'string' &&
+    typeof task.dueDate === 'string'
+  );
+}
+
+export function openTasks(job: Job) {
+  return (job.tasks ?? [])
+    .filter((task) => !task.completedAt)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
+
+export function localDate(date: Date = new Date()) {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number) {
+  const next = new Date(`${date}T00:00:00.000Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+export function getNotificationState(): NotificationState {
+  return typeof Notification === 'undefined'
+    ? 'unsupported'
+    : Notification.permission;
+}
+
+export async function requestNotifications(): Promise<NotificationState> {
+  if (typeof Notification === 'undefined') return 'unsupported';
+  return Notification.requestPermission();
+}
+
+// Shows one browser notification per due task per day. Tasks already shown
+// today (in this or another tab) are remembered in localStorage.
+export function notifyDueTasks(items: DueTask[], today: string = localDate()) {
+  if (getNotificationState() !== 'granted' || items.length === 0) return;
+  const notified = loadNotified(today);
+  const fresh = items.filter(({ task }) => !notified.includes(task.id));
+  fresh.forEach(({ job, task, overdue }) => {
+    new Notification(`${overdue ? 'Overdue' : 'Due today'}: ${job.company}`, {
+      body: task.title,
+      tag: task.id
+    });
+  });
+  if (fresh.length > 0) {
+    localStorage.setItem(
+      NOTIFIED_KEY,
+      JSON.stringify({
+        date: today,
+        ids: [...notified, ...fresh.map(({ task }) => task.id)]
+      })
+    );
+  }
+}
+
+function loadNotified(today: string): string[] {
+  const raw = localStorage.getItem(NOTIFIED_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as { date?: string; ids?: unknown };
+    return parsed?.date === today && Array.isArray(parsed.ids)
+      ? parsed.ids.filter((id): id is string => typeof id === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
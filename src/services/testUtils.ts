@@ -0,0 +1,20 @@
+import type { Job } from '../types';
+import { subscribeJobs } from './jobs';
+
+// Helpers shared by the service tests.
+
+type Subscribe<T> = (onChange: (value: T) => void) => () => void;
+
+// Resolves with the value a subscriber is first called with.
+export function firstValue<T>(subscribe: Subscribe<T>) {
+  return new Promise<T>((resolve) => {
+    const unsubscribe = subscribe((value) => {
+      unsubscribe();
+      resolve(value);
+    });
+  });
+}
+
+export function currentJobs() {
+  return firstValue<Job[]>(subscribeJobs);
+}
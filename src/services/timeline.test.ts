@@ -0,0 +1,80 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  addJob,
+  addTimelineEvent,
+  deleteTimelineEvent,
+  setRepository,
+  setStatus,
+  updateJob,
+  updateTimelineEvent,
+  upsertCustomField
+} from './jobs';
+import { DEFAULT_PIPELINE } from './pipeline';
+import { createIndexedDbRepository } from './storage';
+import { currentJobs } from './testUtils';
+import { describeEvent } from './timeline';
+
+describe('timeline', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('records what changed, from what and by whom', async () => {
+    const fieldId = await upsertCustomField('Salary', 'number');
+    const id = await addJob({
+      company: 'Acme',
+      role: 'Engineer',
+      custom: { [fieldId]: 100 }
+    });
+    await updateJob(id, { custom: { [fieldId]: 120 }, source: 'ai' });
+    await setStatus(id, 'interviewed');
+
+    const [job] = await currentJobs();
+    const salary = job.timeline?.find(
+      (event) => event.field === `custom.${fieldId}`
+    );
+    expect(salary).toMatchObject({ from: 100, to: 120, source: 'ai' });
+    const fields = [{ id: fieldId, name: 'Salary', type: 'number' as const }];
+    expect(describeEvent(salary!, fields, DEFAULT_PIPELINE)).toBe(
+      'Salary: 100 → 120'
+    );
+    const moved = job.timeline?.find(
+      (event) => event.field === 'status' && event.from
+    );
+    expect(describeEvent(moved!, fields, DEFAULT_PIPELINE)).toBe(
+      'Status: Applied → Interviewing'
+    );
+  });
+
+  it('adds, edits and deletes backdated manual events', async () => {
+    const id = await addJob({ company: 'Acme', role: 'Engineer' });
+    const eventId = await addTimelineEvent(id, {
+      label: 'Recruiter call',
+      date: '2024-10-02'
+    });
+    await expect(
+      addTimelineEvent(id, { label: ' ', date: '2024-10-02' })
+    ).rejects.toThrow('Describe what happened.');
+
+    let [job] = await currentJobs();
+    const created = job.timeline!.find((event) => event.type === 'created')!;
+    await deleteTimelineEvent(id, created.id);
+    await updateTimelineEvent(id, eventId, {
+      label: 'Recruiter call with Sam',
+      date: '2024-10-03'
+    });
+
+    [job] = await currentJobs();
+    const manual = job.timeline!.find((event) => event.id === eventId)!;
+    expect(manual.label).toBe('Recruiter call with Sam');
+    expect(new Date(manual.createdAt).getDate()).toBe(3);
+    expect(job.timeline).toContainEqual(created);
+
+    await deleteTimelineEvent(id, eventId);
+    [job] = await currentJobs();
+    expect(job.timeline?.some((event) => event.id === eventId)).toBe(false);
+  });
+});
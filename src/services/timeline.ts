@@ -0,0 +1,81 @@
+import type {
+  ChangeSource,
+  CustomField,
+  PipelineStage,
+  TimelineEvent,
+  TimelineValue
+} from '../types';
+import { stageLabel } from './pipeline';
+import { formatCustomValue } from './schema';
+
+export type ManualEventInput = {
+  label: string;
+  // YYYY-MM-DD
+  date: string;
+};
+
+export const SOURCE_LABELS: Record<ChangeSource, string> = {
+  manual: 'You',
+  ai: 'AI',
+  import: 'Import'
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Events the user adds themselves, such as a recruiter call. They are dated
+// at local noon of `date` so they sort with the rest of that day.
+export function buildManualEvent(
+  input: ManualEventInput,
+  id: string
+): TimelineEvent {
+  const label = input.label.trim();
+  if (!label) throw new Error('Describe what happened.');
+  const createdAt = DATE_PATTERN.test(input.date)
+    ? new Date(`${input.date}T12:00:00`)
+    : null;
+  if (!createdAt || Number.isNaN(createdAt.getTime())) {
+    throw new Error('Pick the date it happened.');
+  }
+  return {
+    id,
+    type: 'manual',
+    label,
+    createdAt: createdAt.toISOString(),
+    source: 'manual'
+  };
+}
+
+// Readable text for an event. Field changes are described from their stored
+// values, using current stage and field names; other events use their label.
+export function describeEvent(
+  event: TimelineEvent,
+  fields: CustomField[],
+  pipeline: PipelineStage[]
+) {
+  if (!event.field || event.to === undefined) return event.label;
+  let name: string;
+  let show = formatValue;
+  if (event.field === 'status') {
+    name = 'Status';
+    show = (value) =>
+      typeof value === 'string' ? stageLabel(pipeline, value) : 'none';
+  } else if (event.field === 'appliedDate') {
+    name = 'Applied date';
+  } else if (event.field.startsWith('custom.')) {
+    const id = event.field.slice('custom.'.length);
+    name = fields.find((field) => field.id === id)?.name ?? id;
+  } else {
+    return event.label;
+  }
+  return event.from === undefined
+    ? `${name}: ${show(event.to)}`
+    : `${name}: ${show(event.from)} → ${show(event.to)}`;
+}
+
+export function isManualEvent(event: TimelineEvent) {
+  return event.type === 'manual';
+}
+
+function formatValue(value: TimelineValue | undefined) {
+  return formatCustomValue(value) || 'empty';
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { extractJsonObjects, salvageJobs, validateJob } from './validation';
+
+const job = {
+  id: 'job-1',
+  company: 'Acme',
+  role: 'Engineer',
+  status: 'applied',
+  tags: [],
+  notes: [],
+  custom: {},
+  timeline: [],
+  createdAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('validateJob', () => {
+  it('accepts well-formed jobs', () => {
+    expect(validateJob(job)).toMatchObject({ ok: true, job: { id: 'job-1' } });
+  });
+
+  it('reports every problem with a broken job', () => {
+    const result = validateJob({
+      ...job,
+      id: '',
+      custom: { salary: { min: 1 } },
+      timeline: [{ id: 'x' }]
+    });
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        'id is missing',
+        'custom values must be text, numbers, lists, amounts or empty',
+        'timeline contains malformed events'
+      ]
+    });
+  });
+});
+
+describe('salvageJobs', () => {
+  it('keeps valid jobs and reports broken and duplicate ones', () => {
+    const result = salvageJobs([job, 'garbage', { ...job }]);
+    expect(result.jobs).toHaveLength(1);
+    expect(result.broken).toHaveLength(2);
+    expect(result.problems).toEqual([
+      'Record 2: Stored job is not an object',
+      'Record 3: duplicate id job-1'
+    ]);
+  });
+});
+
+describe('extractJsonObjects', () => {
+  it('recovers complete objects from a truncated array', () => {
+    const raw = JSON.stringify([
+      { id: 'a', note: 'contains } and { braces' },
+      { id: 'b', custom: { nested: true } },
+      { id: 'c' }
+    ]).slice(0, -5);
+    expect(extractJsonObjects(raw)).toEqual([
+      { id: 'a', note: 'contains } and { braces' },
+      { id: 'b', custom: { nested: true } }
+    ]);
+  });
+});
@@ -0,0 +1,148 @@
+import type { Job } from '../types';
+import { isInterviewRound } from './interviews';
+import { isJobNote } from './notes';
+import { isCustomValue } from './schema';
+import { isJobTask } from './tasks';
+import { migrateJob } from './migrations';
+
+export type ValidationResult =
+  | { ok: true; job: Job }
+  | { ok: false; errors: string[] };
+
+export type SalvageResult = {
+  jobs: Job[];
+  broken: unknown[];
+  problems: string[];
+};
+
+export function validateJob(value: unknown): ValidationResult {
+  let job: Job;
+  try {
+    job = migrateJob(value);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Unreadable record';
+    return { ok: false, errors: [message] };
+  }
+
+  const errors: string[] = [];
+  if (!isNonEmptyString(job.id)) errors.push('id is missing');
+  if (typeof job.company !== 'string') errors.push('company is missing');
+  if (typeof job.role !== 'string') errors.push('role is missing');
+  if (!isNonEmptyString(job.status)) errors.push('status is missing');
+  if (!isStringList(job.tags)) errors.push('tags must be a list of strings');
+  if (!Array.isArray(job.notes) || !job.notes.every(isJobNote)) {
+    errors.push('notes contains malformed entries');
+  }
+  if (!isCustomValues(job.custom)) {
+    errors.push('custom values must be text, numbers, lists, amounts or empty');
+  }
+  if (!Array.isArray(job.timeline) || !job.timeline.every(isTimelineEvent)) {
+    errors.push('timeline contains malformed events');
+  }
+  if (
+    job.interviews !== undefined &&
+    (!Array.isArray(job.interviews) || !job.interviews.every(isInterviewRound))
+  ) {
+    errors.push('interviews contains malformed rounds');
+  }
+  if (job.documentIds !== undefined && !isStringList(job.documentIds)) {
+    errors.push('documentIds must be a list of strings');
+  }
+  if (
+    job.tasks !== undefined &&
+    (!Array.isArray(job.tasks) || !job.tasks.every(isJobTask))
+  ) {
+    errors.push('tasks contains malformed reminders');
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, job };
+}
+
+export function salvageJobs(
+  records: unknown[],
+  describe: (index: number) => string = (index) => `Record ${index + 1}`
+): SalvageResult {
+  const result: SalvageResult = { jobs: [], broken: [], problems: [] };
+  const seen = new Set<string>();
+  records.forEach((record, index) => {
+    const validation = validateJob(record);
+    if (!validation.ok) {
+      result.broken.push(record);
+      result.problems.push(
+        `${describe(index)}: ${validation.errors.join(', ')}`
+      );
+      return;
+    }
+    if (seen.has(validation.job.id)) {
+      result.broken.push(record);
+      result.problems.push(
+        `${describe(index)}: duplicate id ${validation.job.id}`
+      );
+      return;
+    }
+    seen.add(validation.job.id);
+    result.jobs.push(validation.job);
+  });
+  return result;
+}
+
+// Pulls every complete top-level object out of a JSON array, so a payload that
+// was truncated or damaged mid-write still yields the records before the damage.
+export function extractJsonObjects(raw: string): unknown[] {
+  const objects: unknown[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < raw.length; i += 1) {
+    const char = raw[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) start = i;
+      depth += 1;
+    } else if (char === '}' && depth > 0) {
+      depth -= 1;
+      if (depth === 0 && start >= 0) {
+        try {
+          objects.push(JSON.parse(raw.slice(start, i + 1)));
+        } catch {
+          objects.push(raw.slice(start, i + 1));
+        }
+        start = -1;
+      }
+    }
+  }
+  return objects;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isCustomValues(value: unknown) {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.values(value).every(isCustomValue);
+}
+
+function isTimelineEvent(value: unknown) {
+  if (!value || typeof value !== 'object') return false;
+  const event = value as Record<string, unknown>;
+  return (
+    typeof event.id === 'string' &&
+    typeof event.type === 'string' &&
+    typeof event.label === 'string' &&
+    typeof event.createdAt === 'string'
+  );
+}
@@ -0,0 +1,108 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { addJob, setRepository, upsertCustomField } from './jobs';
+import { createIndexedDbRepository } from './storage';
+import {
+  DEFAULT_SYNC_SETTINGS,
+  getSyncSettings,
+  type SyncRecord
+} from './sync';
+import { currentJobs } from './testUtils';
+import {
+  createWorkspace,
+  databaseName,
+  DEFAULT_WORKSPACE_ID,
+  deleteWorkspace,
+  duplicateWorkspace,
+  renameWorkspace,
+  subscribeWorkspaces,
+  switchWorkspace,
+  type WorkspaceState
+} from './workspaces';
+
+function currentWorkspaces() {
+  let state: WorkspaceState | null = null;
+  subscribeWorkspaces((next) => {
+    state = next;
+  })();
+  return state as unknown as WorkspaceState;
+}
+
+describe('workspaces', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    switchWorkspace(DEFAULT_WORKSPACE_ID);
+    setRepository(createIndexedDbRepository());
+  });
+
+  it('keeps jobs separate per workspace', async () => {
+    await addJob({ company: 'Acme', role: 'Engineer' });
+    const internships = createWorkspace('Internships');
+    expect(currentWorkspaces().activeId).toBe(internships);
+    expect(await currentJobs()).toEqual([]);
+
+    await addJob({ company: 'Globex', role: 'Intern' });
+    switchWorkspace(DEFAULT_WORKSPACE_ID);
+    expect((await currentJobs()).map((job) => job.company)).toEqual(['Acme']);
+    switchWorkspace(internships);
+    expect((await currentJobs()).map((job) => job.company)).toEqual([
+      'Globex'
+    ]);
+  });
+
+  it('duplicates, renames and deletes workspaces', async () => {
+    await addJob({ company: 'Acme', role: 'Engineer' });
+    await upsertCustomField('Source', 'text');
+
+    const copy = await duplicateWorkspace(DEFAULT_WORKSPACE_ID);
+    renameWorkspace(copy, 'Friend');
+    expect(currentWorkspaces().workspaces.map((item) => item.name)).toEqual([
+      'My applications',
+      'Friend'
+    ]);
+    switchWorkspace(copy);
+    expect((await currentJobs()).map((job) => job.company)).toEqual(['Acme']);
+
+    await deleteWorkspace(copy);
+    expect(currentWorkspaces()).toEqual({
+      workspaces: [expect.objectContaining({ id: DEFAULT_WORKSPACE_ID })],
+      activeId: DEFAULT_WORKSPACE_ID
+    });
+    const removed = createIndexedDbRepository(databaseName(copy));
+    expect(await removed.loadJobs()).toEqual([]);
+    removed.close();
+    await expect(deleteWorkspace(DEFAULT_WORKSPACE_ID)).rejects.toThrow();
+  });
+
+  it('does not copy sync state into a duplicate', async () => {
+    await addJob({ company: 'Acme', role: 'Engineer' });
+    const original = createIndexedDbRepository(
+      databaseName(DEFAULT_WORKSPACE_ID)
+    );
+    const record: SyncRecord = {
+      settings: {
+        enabled: true,
+        endpoint: 'https://sync.example.com',
+        token: ''
+      },
+      clientId: 'device-1',
+      cursor: 12,
+      outbox: [],
+      clock: { 'job-1.role': '2024-03-01T00:00:00.000Z' },
+      lastSyncedAt: '2024-03-01T00:00:00.000Z'
+    };
+    await original.saveSync(record);
+    original.close();
+
+    const copy = await duplicateWorkspace(DEFAULT_WORKSPACE_ID);
+    const duplicate = createIndexedDbRepository(databaseName(copy));
+    expect(await duplicate.loadSync()).toBeNull();
+    expect((await duplicate.loadJobs()).map((job) => job.company)).toEqual([
+      'Acme'
+    ]);
+    duplicate.close();
+    switchWorkspace(copy);
+    expect(await getSyncSettings()).toEqual(DEFAULT_SYNC_SETTINGS);
+  });
+});
@@ -0,0 +1,178 @@
+import { setRepository } from './jobs';
+import {
+  copyDatabase,
+  createIndexedDbRepository,
+  DEFAULT_DB_NAME,
+  deleteDatabase
+} from './storage';
+
+export type WorkspaceInfo = {
+  id: string;
+  name: string;
+  createdAt: string;
+};
+
+export type WorkspaceState = {
+  workspaces: WorkspaceInfo[];
+  activeId: string;
+};
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+const WORKSPACES_KEY = 'resumeTracker.workspaces';
+const ACTIVE_WORKSPACE_KEY = 'resumeTracker.activeWorkspace';
+const DEFAULT_WORKSPACE: WorkspaceInfo = {
+  id: DEFAULT_WORKSPACE_ID,
+  name: 'My applications',
+  createdAt: new Date(0).toISOString()
+};
+
+const listeners = new Set<(state: WorkspaceState) => void>();
+// Each tab keeps its own active workspace; the stored one only decides which
+// workspace a new tab opens.
+let activeId: string | null = null;
+let storageListenerAttached = false;
+
+export function subscribeWorkspaces(onChange: (state: WorkspaceState) => void) {
+  listeners.add(onChange);
+  onChange(currentState());
+  attachStorageListener();
+  return () => {
+    listeners.delete(onChange);
+  };
+}
+
+export function switchWorkspace(id: string) {
+  if (!loadWorkspaces().some((workspace) => workspace.id === id)) {
+    throw new Error('That workspace no longer exists.');
+  }
+  if (id !== getActiveWorkspaceId()) openWorkspace(id);
+  notify();
+}
+
+export function createWorkspace(name: string) {
+  const workspace: WorkspaceInfo = {
+    id: createId(),
+    name: cleanName(name),
+    createdAt: new Date().toISOString()
+  };
+  saveWorkspaces([...loadWorkspaces(), workspace]);
+  openWorkspace(workspace.id);
+  notify();
+  return workspace.id;
+}
+
+export function renameWorkspace(id: string, name: string) {
+  const next = cleanName(name);
+  saveWorkspaces(
+    loadWorkspaces().map((workspace) =>
+      workspace.id === id ? { ...workspace, name: next } : workspace
+    )
+  );
+  notify();
+}
+
+export async function duplicateWorkspace(id: string) {
+  const source = loadWorkspaces().find((workspace) => workspace.id === id);
+  if (!source) throw new Error('That workspace no longer exists.');
+  const copy: WorkspaceInfo = {
+    id: createId(),
+    name: `${source.name} (copy)`,
+    createdAt: new Date().toISOString()
+  };
+  await copyDatabase(databaseName(source.id), databaseName(copy.id));
+  saveWorkspaces([...loadWorkspaces(), copy]);
+  notify();
+  return copy.id;
+}
+
+export async function deleteWorkspace(id: string) {
+  const workspaces = loadWorkspaces();
+  const remaining = workspaces.filter((workspace) => workspace.id !== id);
+  if (remaining.length === 0) {
+    throw new Error('At least one workspace is required.');
+  }
+  saveWorkspaces(remaining);
+  if (getActiveWorkspaceId() === id) openWorkspace(remaining[0].id);
+  notify();
+  await deleteDatabase(databaseName(id));
+}
+
+export function getActiveWorkspaceId() {
+  const workspaces = loadWorkspaces();
+  if (activeId && workspaces.some((workspace) => workspace.id === activeId)) {
+    return activeId;
+  }
+  const stored = localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+  const id = workspaces.some((workspace) => workspace.id === stored)
+    ? (stored as string)
+    : workspaces[0].id;
+  openWorkspace(id);
+  return id;
+}
+
+export function databaseName(id: string) {
+  return id === DEFAULT_WORKSPACE_ID
+    ? DEFAULT_DB_NAME
+    : `${DEFAULT_DB_NAME}.${id}`;
+}
+
+function openWorkspace(id: string) {
+  activeId = id;
+  localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+  setRepository(createIndexedDbRepository(databaseName(id)));
+}
+
+function currentState(): WorkspaceState {
+  const activeWorkspace = getActiveWorkspaceId();
+  return { workspaces: loadWorkspaces(), activeId: activeWorkspace };
+}
+
+function notify() {
+  const state = currentState();
+  listeners.forEach((listener) => listener(state));
+}
+
+function loadWorkspaces(): WorkspaceInfo[] {
+  const raw = localStorage.getItem(WORKSPACES_KEY);
+  if (!raw) return [DEFAULT_WORKSPACE];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    const workspaces = Array.isArray(parsed)
+      ? parsed.filter(
+          (item): item is WorkspaceInfo =>
+            typeof item?.id === 'string' && typeof item?.name === 'string'
+        )
+      : [];
+    return workspaces.length > 0 ? workspaces : [DEFAULT_WORKSPACE];
+  } catch {
+    return [DEFAULT_WORKSPACE];
+  }
+}
+
+function saveWorkspaces(workspaces: WorkspaceInfo[]) {
+  localStorage.setItem(WORKSPACES_KEY, JSON.stringify(workspaces));
+}
+
+// Workspaces created, renamed or deleted in another tab show up here; a tab
+// whose workspace was deleted moves to the first one left.
+function attachStorageListener() {
+  if (storageListenerAttached || typeof window === 'undefined') return;
+  storageListenerAttached = true;
+  window.addEventListener('storage', (event) => {
+    if (event.key === WORKSPACES_KEY) notify();
+  });
+}
+
+function cleanName(name: string) {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Give the workspace a name.');
+  return trimmed;
+}
+
+function createId() {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `workspace-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -1,33 +1,151 @@
-export type JobStatus =
-  | 'applied'
-  | 'rejected'
-  | 'interviewed'
-  | 'offer'
-  | 'accepted'
-  | 'archived';
+// The id of a stage in the workspace's status pipeline.
+export type JobStatus = string;
 
-export type CustomFieldType = 'text' | 'number' | 'date' | 'url';
+export type PipelineStage = {
+  id: JobStatus;
+  label: string;
+  color: string;
+  // Used in the dark theme; a lighter mix of `color` when left out.
+  darkColor?: string;
+  order: number;
+  // Applications in a terminal stage are finished (accepted, rejected, ...).
+  terminal: boolean;
+  // Stages an application here may move to; any stage when left out.
+  next?: JobStatus[];
+  // Custom field ids that must have a value before entering this stage.
+  requiredFields?: string[];
+};
+
+export type CustomFieldType =
+  | 'text'
+  | 'long_text'
+  | 'number'
+  | 'currency'
+  | 'date'
+  | 'url'
+  | 'boolean'
+  | 'select'
+  | 'multi_select'
+  | 'computed';
 
 export type CustomField = {
   id: string;
   name: string;
   type: CustomFieldType;
+  // Choices for select and multi_select fields.
+  options?: string[];
+  // Default ISO 4217 code for currency fields.
+  currency?: string;
+  // Expression computed fields are evaluated from, see services/formula.
+  formula?: string;
+};
+
+// An amount, or a range when `max` is set, such as a salary band.
+export type MoneyValue = {
+  currency: string;
+  min: number;
+  max?: number;
 };
 
+export type CustomValue =
+  | string
+  | number
+  | boolean
+  | string[]
+  | MoneyValue
+  | null;
+
 export type TimelineEventType =
   | 'created'
   | 'status_changed'
   | 'note_added'
   | 'note_updated'
   | 'tag_added'
+  | 'tag_removed'
   | 'applied_date_updated'
-  | 'custom_updated';
+  | 'custom_updated'
+  | 'trashed'
+  | 'restored'
+  | 'interview_scheduled'
+  | 'interview_outcome'
+  | 'task_completed'
+  | 'task_snoozed'
+  | 'merged'
+  | 'manual';
+
+// Who made a change: the user, an AI action or an import.
+export type ChangeSource = 'manual' | 'ai' | 'import';
+
+export type TimelineValue = CustomValue;
 
 export type TimelineEvent = {
   id: string;
   type: TimelineEventType;
   label: string;
   createdAt: string;
+  // What the event changed: `status`, `appliedDate`, `tags`, `notes` or
+  // `custom.<field id>`, with the value before and after.
+  field?: string;
+  from?: TimelineValue;
+  to?: TimelineValue;
+  source?: ChangeSource;
+};
+
+export type InterviewType =
+  | 'phone_screen'
+  | 'online_assessment'
+  | 'technical'
+  | 'behavioral'
+  | 'onsite'
+  | 'final'
+  | 'other';
+
+export type InterviewOutcome = 'pending' | 'passed' | 'failed' | 'cancelled';
+
+export type InterviewRound = {
+  id: string;
+  type: InterviewType;
+  scheduledAt?: string;
+  durationMinutes?: number;
+  interviewers: string[];
+  outcome: InterviewOutcome;
+  prepNotes?: string;
+  feedback?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type JobTask = {
+  id: string;
+  title: string;
+  dueDate: string;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type DocumentKind = 'resume' | 'cover_letter' | 'other';
+
+// Metadata for a file in the document library; the file itself is stored
+// separately and only read when it is downloaded or previewed.
+export type StoredDocument = {
+  id: string;
+  name: string;
+  kind: DocumentKind;
+  versionLabel: string;
+  mimeType: string;
+  size: number;
+  uploadedAt: string;
+};
+
+export type JobNote = {
+  id: string;
+  // Markdown.
+  body: string;
+  source: ChangeSource;
+  pinned?: boolean;
+  createdAt: string;
+  updatedAt: string;
 };
 
 export type Job = {
@@ -37,9 +155,34 @@ export type Job = {
   status: JobStatus;
   appliedDate?: string;
   tags: string[];
-  notes: string[];
-  custom: Record<string, string | number | null>;
+  notes: JobNote[];
+  custom: Record<string, CustomValue>;
   timeline?: TimelineEvent[];
+  interviews?: InterviewRound[];
+  tasks?: JobTask[];
+  documentIds?: string[];
   createdAt?: string;
   updatedAt?: string;
+  deletedAt?: string;
+  revision?: number;
+};
+
+export type ContactRole =
+  | 'recruiter'
+  | 'referrer'
+  | 'interviewer'
+  | 'hiring_manager'
+  | 'other';
+
+export type Contact = {
+  id: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  linkedinUrl?: string;
+  company?: string;
+  role: ContactRole;
+  jobIds: string[];
+  createdAt: string;
+  updatedAt: string;
 };